@@ -0,0 +1,383 @@
+import { dbAll, dbReady, dbRun, transaction } from './database';
+import { resolveLocation } from './locations';
+import { CompanyRepo, CompanyRow, MANUAL_SOURCE } from './repositories';
+import { Company } from './scraper';
+import { foldText, isNearMatch } from './text';
+
+/**
+ * Company entity resolution
+ *
+ * The same company turns up on several sources (Stripe on Crunchbase, GitHub
+ * Sponsors, Indie Hackers and BuiltWith). Every scraped record is kept as-is in
+ * `company_sources` and attached to one canonical row in `companies`, matched
+ * by website domain, normalized name, profile handle (github.com/sponsors/getsentry)
+ * or a near-identical long name. The canonical row is then rebuilt from all of
+ * its source records using MERGE_RULES, and `provenance` says which source
+ * each merged field came from. Sponsor names that match no company become stub
+ * companies, which turn into regular ones once a source lists them.
+ */
+
+export interface CompanySource {
+  id: number;
+  companyId: number;
+  source: string;
+  name: string;
+  link: string;
+  domain?: string;
+  ycBacked: boolean;
+  fundingInterest: string[];
+  industry?: string;
+  location?: string;
+  description?: string;
+  fundingStage?: string;
+  employees?: string;
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+interface Choice {
+  value: any;
+  source: string | string[];
+}
+
+interface CompanyIndex {
+  byLink: Map<string, number>; // `${source} ${link} ${name}`; an article's link can name several companies
+  byDomain: Map<string, number>;
+  byKey: Map<string, number>; // Normalized names and profile handles
+  domains: Map<number, Set<string>>;
+}
+
+// Sites that list companies rather than being one; their links say nothing about the company's domain
+const DIRECTORY_HOSTS = [
+  'angel.co', 'builtwith.com', 'crunchbase.com', 'devpost.com', 'github.com', 'indiehackers.com', 'linkedin.com',
+  'producthunt.com', 'techcrunch.com', 'twitter.com', 'venturebeat.com', 'wellfound.com', 'x.com', 'ycombinator.com'
+];
+
+// News sites among them: their links are articles, which can name several companies, not one company's profile
+const ARTICLE_HOSTS = ['techcrunch.com', 'venturebeat.com'];
+
+// Most trusted first, for fields where sources disagree
+const SOURCE_PRIORITY = [
+  'Crunchbase', 'Y Combinator', 'AngelList', 'Product Hunt', 'GitHub Sponsors', 'BuiltWith', 'Indie Hackers', 'TechCrunch', 'VentureBeat'
+];
+
+const FUNDING_STAGES = ['pre-seed', 'seed', 'series a', 'series b', 'series c', 'series d', 'series e', 'series f', 'series g', 'series h', 'public'];
+
+const NAME_SUFFIXES = /\b(inc|llc|ltd|limited|corp|corporation|co|company|gmbh|hq)\b\.?/g;
+const HANDLE_AFFIXES = /^(get|try|use)(?=\w{4})|hq$/;
+
+const toCompanySource = (row: any): CompanySource => ({
+  id: row.id,
+  companyId: row.company_id,
+  source: row.source,
+  name: row.name,
+  link: row.link,
+  domain: row.domain || undefined,
+  ycBacked: !!row.yc_backed,
+  fundingInterest: JSON.parse(row.funding_interest || '[]'),
+  industry: row.industry || undefined,
+  location: row.location || undefined,
+  description: row.description || undefined,
+  fundingStage: row.funding_stage || undefined,
+  employees: row.employees || undefined,
+  firstSeenAt: row.first_seen_at,
+  lastSeenAt: row.last_seen_at
+});
+
+const parseUrl = (link: string | undefined): URL | undefined => {
+  try {
+    return link ? new URL(link) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const onHost = (host: string, hosts: string[]) => hosts.some(candidate => host === candidate || host.endsWith(`.${candidate}`));
+const isDirectory = (host: string) => onHost(host, DIRECTORY_HOSTS);
+
+// The company's own domain, when the link points at its website rather than a listing
+const companyDomain = (link: string | undefined): string | undefined => {
+  const host = parseUrl(link)?.hostname.toLowerCase().replace(/^www\./, '');
+  return host && !isDirectory(host) ? host : undefined;
+};
+
+// "Stripe, Inc." and "stripe.com" both become "stripe"
+const nameKey = (name: string): string =>
+  foldText(name)
+    .replace(/\.(com|io|ai|co|dev|app)\b/g, '')
+    .replace(NAME_SUFFIXES, '')
+    .replace(/[^a-z0-9]/g, '');
+
+// The last path segment of a directory listing (github.com/sponsors/getsentry -> sentry); articles have none
+const handleKey = (link: string | undefined): string | undefined => {
+  const url = parseUrl(link);
+  const host = url?.hostname.toLowerCase().replace(/^www\./, '');
+  if (!url || !host || !isDirectory(host) || onHost(host, ARTICLE_HOSTS)) return undefined;
+  const handle = url.pathname.split('/').filter(Boolean).pop();
+  return handle ? nameKey(handle).replace(HANDLE_AFFIXES, '') || undefined : undefined;
+};
+
+// Every company's records, names and handles, less the source records in `skip`
+const loadIndex = async (skip = new Set<number>()): Promise<CompanyIndex> => {
+  const index: CompanyIndex = { byLink: new Map(), byDomain: new Map(), byKey: new Map(), domains: new Map() };
+  for (const row of await dbAll('SELECT id, company_id, source, name, link FROM company_sources')) {
+    if (!skip.has(row.id)) addToIndex(index, row.company_id, row);
+  }
+  for (const row of await dbAll('SELECT id, name FROM companies WHERE stub = 1')) {
+    addToIndex(index, row.id, { source: '', name: row.name, link: '' });
+  }
+  // Companies made by hand, until a scraped record merges into one
+  for (const row of await dbAll('SELECT id, name, link FROM companies WHERE source = ? AND id NOT IN (SELECT company_id FROM company_sources)', [MANUAL_SOURCE])) {
+    addToIndex(index, row.id, { source: '', name: row.name, link: row.link || '' });
+  }
+  return index;
+};
+
+// The identity of a source record, as company_sources keys it
+const listingKey = (record: { source: string; name: string; link: string }) => `${record.source} ${record.link} ${record.name}`;
+
+const addToIndex = (index: CompanyIndex, companyId: number, record: { source: string; name: string; link: string }) => {
+  const domain = companyDomain(record.link);
+  if (record.link) index.byLink.set(listingKey(record), companyId);
+  if (domain) {
+    index.byDomain.set(domain, companyId);
+    index.domains.set(companyId, (index.domains.get(companyId) || new Set()).add(domain));
+  }
+  for (const key of [nameKey(record.name), handleKey(record.link)]) {
+    if (key && !index.byKey.has(key)) index.byKey.set(key, companyId);
+  }
+};
+
+const findMatch = (index: CompanyIndex, record: Company): number | undefined => {
+  const known = index.byLink.get(listingKey(record));
+  if (known !== undefined) return known;
+
+  const domain = companyDomain(record.link);
+  if (domain && index.byDomain.has(domain)) return index.byDomain.get(domain);
+
+  // Two different websites mean two different companies, whatever the names say
+  const compatible = (companyId: number) => !domain || !index.domains.has(companyId);
+
+  const keys = [nameKey(record.name), handleKey(record.link)].filter((key): key is string => !!key);
+  for (const key of keys) {
+    const companyId = index.byKey.get(key);
+    if (companyId !== undefined && compatible(companyId)) return companyId;
+  }
+
+  const name = keys[0];
+  if (!name) return undefined;
+  for (const [key, companyId] of index.byKey) {
+    if (isNearMatch(name, key) && compatible(companyId)) return companyId;
+  }
+  return undefined;
+};
+
+const namesMatch = (a: string, b: string) => {
+  const [x, y] = [nameKey(a), nameKey(b)];
+  return x && y ? x === y || isNearMatch(x, y) : a === b;
+};
+
+const saveCompanySource = async (companyId: number, record: Company, seenAt: string) => {
+  await dbRun(
+    `INSERT INTO company_sources (company_id, source, name, link, domain, yc_backed, funding_interest, industry, location, description, funding_stage, employees, first_seen_at, last_seen_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(source, link, name) DO UPDATE SET
+       company_id = excluded.company_id, domain = excluded.domain, yc_backed = excluded.yc_backed,
+       funding_interest = excluded.funding_interest, industry = excluded.industry, location = excluded.location,
+       description = excluded.description, funding_stage = excluded.funding_stage, employees = excluded.employees,
+       last_seen_at = excluded.last_seen_at`,
+    [
+      companyId, record.source, record.name, record.link, companyDomain(record.link), record.ycBacked ? 1 : 0,
+      JSON.stringify(record.fundingInterest || []), record.industry, record.location, record.description,
+      record.fundingStage, record.employees, seenAt, seenAt
+    ]
+  );
+};
+
+const sourceRank = (source: string) => {
+  const rank = SOURCE_PRIORITY.indexOf(source);
+  return rank < 0 ? SOURCE_PRIORITY.length : rank;
+};
+
+const byPriority = (records: CompanySource[]) => [...records].sort((a, b) => sourceRank(a.source) - sourceRank(b.source) || a.id - b.id);
+
+const firstBy = (field: keyof CompanySource, prefer: (record: CompanySource) => boolean = () => true) =>
+  (records: CompanySource[]): Choice | undefined => {
+    const present = byPriority(records).filter(record => record[field] !== undefined && record[field] !== '');
+    const chosen = present.find(prefer) || present[0];
+    return chosen && { value: chosen[field], source: chosen.source };
+  };
+
+const stageRank = (stage: string | undefined) => FUNDING_STAGES.indexOf((stage || '').trim().toLowerCase());
+
+// How each merged field is chosen when sources disagree
+const MERGE_RULES: Record<string, (records: CompanySource[]) => Choice | undefined> = {
+  // The spelling most sources use, then the most trusted source's
+  name: records => {
+    const counts = new Map<string, number>();
+    records.forEach(record => counts.set(record.name, (counts.get(record.name) || 0) + 1));
+    const chosen = byPriority(records).sort((a, b) => counts.get(b.name)! - counts.get(a.name)!)[0];
+    return { value: chosen.name, source: chosen.source };
+  },
+  // The company's own website over a directory listing
+  link: firstBy('link', record => !!record.domain),
+  industry: firstBy('industry'),
+  // A place the gazetteer knows over "Various"
+  location: firstBy('location', record => !!resolveLocation(record.location)?.city),
+  // Sources lag behind, so the furthest stage anyone reports is the most current
+  funding_stage: records => {
+    const staged = byPriority(records).filter(record => stageRank(record.fundingStage) >= 0);
+    const chosen = staged.sort((a, b) => stageRank(b.fundingStage) - stageRank(a.fundingStage))[0];
+    return chosen ? { value: chosen.fundingStage, source: chosen.source } : firstBy('fundingStage')(records);
+  },
+  employees: firstBy('employees'),
+  description: records => {
+    const chosen = byPriority(records).filter(record => record.description).sort((a, b) => b.description!.length - a.description!.length)[0];
+    return chosen && { value: chosen.description, source: chosen.source };
+  },
+  yc_backed: records => {
+    const backed = records.filter(record => record.ycBacked).map(record => record.source);
+    return { value: backed.length > 0, source: backed };
+  },
+  funding_interest: records => {
+    const interests = new Map<string, string>();
+    byPriority(records).forEach(record => record.fundingInterest.forEach(interest => {
+      if (!interests.has(interest.toLowerCase())) interests.set(interest.toLowerCase(), interest);
+    }));
+    return { value: Array.from(interests.values()), source: records.filter(record => record.fundingInterest.length > 0).map(record => record.source) };
+  }
+};
+
+// Recomputes a canonical company from every source record attached to it
+const rebuildCompany = async (companyId: number, runId?: string) => {
+  const records = (await dbAll('SELECT * FROM company_sources WHERE company_id = ?', [companyId])).map(toCompanySource);
+  if (records.length === 0) return;
+
+  const merged: Record<string, any> = {};
+  const provenance: Record<string, string | string[]> = {};
+  for (const [field, rule] of Object.entries(MERGE_RULES)) {
+    const choice = rule(records);
+    merged[field] = choice?.value;
+    if (choice && (!Array.isArray(choice.source) || choice.source.length > 0)) provenance[field] = choice.source;
+  }
+
+  const place = resolveLocation(merged.location);
+  const domain = byPriority(records).find(record => record.domain)?.domain;
+  const sources = Array.from(new Set(byPriority(records).map(record => record.source)));
+
+  await CompanyRepo.update(companyId, {
+    name: merged.name, link: merged.link, industry: merged.industry, location: merged.location, fundingStage: merged.funding_stage,
+    employees: merged.employees, description: merged.description, ycBacked: merged.yc_backed, fundingInterest: merged.funding_interest,
+    source: provenance.name as string, city: place?.city, region: place?.region, country: place?.country, latitude: place?.latitude,
+    longitude: place?.longitude, domain, sources, provenance, stub: false
+  }, runId);
+};
+
+// Attaches freshly scraped records to their companies, creating companies for new ones
+const mergeCompanies = async (companies: Company[], runId?: string): Promise<number> => {
+  const index = await loadIndex();
+  const seenAt = new Date().toISOString();
+  const touched = new Set<number>();
+
+  for (const record of companies) {
+    let companyId = findMatch(index, record);
+    if (companyId === undefined) {
+      companyId = await CompanyRepo.insert({ name: record.name, link: record.link, source: record.source }, runId);
+    }
+    await saveCompanySource(companyId, record, seenAt);
+    addToIndex(index, companyId, record);
+    touched.add(companyId);
+  }
+
+  for (const companyId of touched) await rebuildCompany(companyId, runId);
+  return touched.size;
+};
+
+// Folds company rows saved before entity resolution (one per source) into merged companies
+const backfillCompanySources = async () => {
+  await dbReady;
+  const legacy = await dbAll<CompanyRow>(
+    'SELECT * FROM companies WHERE stub = 0 AND source IS NOT ? AND id NOT IN (SELECT company_id FROM company_sources) ORDER BY id',
+    [MANUAL_SOURCE]
+  );
+  if (legacy.length === 0) return;
+
+  const index = await loadIndex();
+  const seenAt = new Date().toISOString();
+  const touched = new Set<number>();
+
+  for (const row of legacy) {
+    const { name, link, source, ycBacked, fundingInterest, industry, location, description, fundingStage, employees } = CompanyRepo.fromRow(row);
+    const record: Company = { name, link, source, ycBacked, fundingInterest, industry, location, description, fundingStage, employees };
+    const match = findMatch(index, record);
+    const companyId = match ?? row.id;
+    await saveCompanySource(companyId, record, seenAt);
+    if (match !== undefined) await CompanyRepo.delete(row.id);
+    addToIndex(index, companyId, record);
+    touched.add(companyId);
+  }
+
+  for (const companyId of touched) await rebuildCompany(companyId);
+  console.log(`Merged ${legacy.length} company records into ${touched.size} companies`);
+};
+
+// Moves article records that were filed under another company named in the same article, from before source records
+// were keyed by name as well as link. Articles have no domain or handle, so a record that shares no name with the rest
+// of its company got there by its link alone; it goes to the company its own name matches, or a new one
+const splitArticleRecords = async () => {
+  await dbReady;
+  const records = (await dbAll('SELECT * FROM company_sources ORDER BY id')).map(toCompanySource);
+  const companyNames = new Map((await dbAll('SELECT id, name FROM companies')).map(row => [row.id, row.name as string]));
+  const byCompany = new Map<number, CompanySource[]>();
+  for (const record of records) byCompany.set(record.companyId, [...(byCompany.get(record.companyId) || []), record]);
+
+  const misfiled = records.filter(record => {
+    const host = parseUrl(record.link)?.hostname.toLowerCase().replace(/^www\./, '');
+    if (!host || !onHost(host, ARTICLE_HOSTS)) return false;
+    const others = byCompany.get(record.companyId)!.filter(other => other.id !== record.id);
+    const names = [companyNames.get(record.companyId) || '', ...others.map(other => other.name)];
+    return others.length > 0 && !names.some(name => name && namesMatch(name, record.name));
+  });
+  if (misfiled.length === 0) return;
+
+  await transaction(async () => {
+    const index = await loadIndex(new Set(misfiled.map(record => record.id)));
+    const touched = new Set<number>();
+    for (const record of misfiled) {
+      const company: Company = { name: record.name, link: record.link, source: record.source };
+      const companyId = findMatch(index, company) ?? (await CompanyRepo.insert(company));
+      await dbRun('UPDATE company_sources SET company_id = ? WHERE id = ?', [companyId, record.id]);
+      addToIndex(index, companyId, company);
+      touched.add(record.companyId).add(companyId);
+    }
+    for (const companyId of touched) await rebuildCompany(companyId);
+  });
+  console.log(`Moved ${misfiled.length} article records to the companies they name`);
+};
+
+// The company each name refers to, creating stubs for names no source lists yet
+const findOrCreateCompanies = async (names: string[]): Promise<Map<string, number>> => {
+  const index = await loadIndex();
+  const ids = new Map<string, number>();
+
+  for (const name of names) {
+    if (ids.has(name)) continue;
+    const record: Company = { name, link: '', source: '' };
+    let companyId = findMatch(index, record);
+    if (companyId === undefined) {
+      companyId = await CompanyRepo.insert({ name, stub: true });
+      addToIndex(index, companyId, record);
+    }
+    ids.set(name, companyId);
+  }
+
+  return ids;
+};
+
+// The existing company a record would merge into, if any
+const findCompany = async (record: Company): Promise<number | undefined> => findMatch(await loadIndex(), record);
+
+const listCompanySources = async (companyId: number): Promise<CompanySource[]> =>
+  (await dbAll('SELECT * FROM company_sources WHERE company_id = ? ORDER BY id', [companyId])).map(toCompanySource);
+
+export { mergeCompanies, backfillCompanySources, splitArticleRecords, findOrCreateCompanies, findCompany, listCompanySources };
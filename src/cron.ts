@@ -0,0 +1,110 @@
+/**
+ * Minimal cron expression support for scheduled scrapes
+ *
+ * Standard five fields: minute hour day-of-month month day-of-week.
+ * Each field accepts `*`, numbers, ranges (`1-5`), steps (`*\/15`, `0-30/10`)
+ * and comma lists. Months and weekdays also accept three-letter names, and
+ * weekday 7 means Sunday. As in cron, when both day fields are restricted a
+ * time matches if either one does. Times are evaluated in server local time.
+ */
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const parseValue = (value: string, min: number, names?: string[]): number => {
+  const named = names?.indexOf(value.toLowerCase()) ?? -1;
+  if (named >= 0) return named + min;
+  if (!/^\d+$/.test(value)) throw new Error(`Invalid cron value: ${value}`);
+  return parseInt(value);
+};
+
+const parseField = (field: string, min: number, max: number, names?: string[]): Set<number> => {
+  const values = new Set<number>();
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : parseValue(stepText, 0);
+    if (step < 1) throw new Error(`Invalid cron step: ${part}`);
+
+    let start = min;
+    let end = max;
+    if (range !== '*') {
+      const [from, to] = range.split('-');
+      start = parseValue(from, min, names);
+      end = to === undefined ? (stepText === undefined ? start : max) : parseValue(to, min, names);
+    }
+    if (start < min || end > max || start > end) throw new Error(`Cron value out of range: ${part}`);
+
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+
+  return values;
+};
+
+const parseCron = (expression: string): CronSchedule => {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) throw new Error(`Cron expression needs 5 fields, got ${fields.length}: ${expression}`);
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  const daysOfWeek = parseField(dayOfWeek, 0, 7, DAY_NAMES);
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes: parseField(minute, 0, 59),
+    hours: parseField(hour, 0, 23),
+    daysOfMonth: parseField(dayOfMonth, 1, 31),
+    months: parseField(month, 1, 12, MONTH_NAMES),
+    daysOfWeek,
+    anyDayOfMonth: dayOfMonth === '*',
+    anyDayOfWeek: dayOfWeek === '*'
+  };
+};
+
+const matchesDay = (schedule: CronSchedule, date: Date): boolean => {
+  const dom = schedule.daysOfMonth.has(date.getDate());
+  const dow = schedule.daysOfWeek.has(date.getDay());
+  if (schedule.anyDayOfMonth) return dow;
+  if (schedule.anyDayOfWeek) return dom;
+  return dom || dow;
+};
+
+// The first matching minute strictly after `from`, searching up to five years ahead
+const nextCronRun = (expression: string | CronSchedule, from: Date = new Date()): Date => {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression;
+  const date = new Date(from);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  const limit = new Date(from);
+  limit.setFullYear(limit.getFullYear() + 5);
+
+  while (date <= limit) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0);
+    } else if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0);
+    } else if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1);
+    } else {
+      return date;
+    }
+  }
+
+  throw new Error(`Cron expression never matches: ${typeof expression === 'string' ? expression : 'schedule'}`);
+};
+
+export { parseCron, nextCronRun };
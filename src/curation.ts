@@ -0,0 +1,209 @@
+import { transaction } from './database';
+import { findCompany } from './companies';
+import { parseEventDate } from './dates';
+import { markDuplicateHackathons } from './hackathons';
+import { HistoryEntity } from './history';
+import { resolveLocation } from './locations';
+import { CompanyRepo, HackathonRepo, MANUAL_SOURCE, StoredCompany, StoredHackathon } from './repositories';
+import { linkSponsors } from './sponsors';
+
+/**
+ * Manual curation
+ *
+ * Scraped records can be corrected, hidden or deleted by hand, and records
+ * no source lists can be added (with source "manual"). Every field set by
+ * hand is locked: later scrapes leave it alone until it is unlocked by
+ * editing `lockedFields`. Setting `location` or `date` also sets the place and
+ * event-date fields derived from it, unless those are given too. Deleting is
+ * soft: the record is kept out of every list and can be restored. Each change
+ * is logged to `record_changes` with the actor that made it (./history.ts).
+ */
+
+type FieldType = 'text' | 'date' | 'number' | 'boolean' | 'list';
+
+const HACKATHON_FIELDS: Record<string, FieldType> = {
+  name: 'text',
+  link: 'text',
+  sponsors: 'list',
+  contacts: 'list',
+  ycBacked: 'boolean',
+  fundingInterest: 'list',
+  location: 'text',
+  date: 'text',
+  startDate: 'date',
+  endDate: 'date',
+  timezone: 'text',
+  city: 'text',
+  region: 'text',
+  country: 'text',
+  latitude: 'number',
+  longitude: 'number',
+  online: 'boolean',
+  description: 'text',
+  prizes: 'list',
+  participants: 'number',
+  organizer: 'text'
+};
+
+const COMPANY_FIELDS: Record<string, FieldType> = {
+  name: 'text',
+  link: 'text',
+  ycBacked: 'boolean',
+  fundingInterest: 'list',
+  industry: 'text',
+  location: 'text',
+  city: 'text',
+  region: 'text',
+  country: 'text',
+  latitude: 'number',
+  longitude: 'number',
+  description: 'text',
+  fundingStage: 'text',
+  employees: 'text'
+};
+
+const EDITABLE_FIELDS: Record<HistoryEntity, Record<string, FieldType>> = { hackathon: HACKATHON_FIELDS, company: COMPANY_FIELDS };
+
+const PLACE_FIELDS = ['city', 'region', 'country', 'latitude', 'longitude'] as const;
+const DATE_FIELDS = ['startDate', 'endDate', 'timezone'] as const;
+
+const isValid = (type: FieldType, value: any): boolean => {
+  if (value === null) return true; // Clears the field
+  if (type === 'text') return typeof value === 'string';
+  if (type === 'date') return typeof value === 'string' && !isNaN(Date.parse(value));
+  if (type === 'number') return typeof value === 'number' && Number.isFinite(value);
+  if (type === 'boolean') return typeof value === 'boolean';
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+};
+
+const TYPE_NAMES: Record<FieldType, string> = {
+  text: 'a string',
+  date: 'an ISO 8601 date',
+  number: 'a number',
+  boolean: 'a boolean',
+  list: 'an array of strings'
+};
+
+// Problems with a create (or, when partial, edit) body
+const validateRecord = (entity: HistoryEntity, input: any, partial = false): string[] => {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) return ['Body must be an object'];
+  const fields = EDITABLE_FIELDS[entity];
+  const errors: string[] = [];
+
+  if (!partial || input.name !== undefined) {
+    if (typeof input.name !== 'string' || !input.name.trim()) errors.push('name is required');
+  }
+  for (const [field, value] of Object.entries(input)) {
+    if (field === 'hidden') {
+      if (typeof value !== 'boolean') errors.push('hidden must be a boolean');
+    } else if (field === 'lockedFields') {
+      if (!Array.isArray(value)) errors.push('lockedFields must be an array');
+      else errors.push(...value.filter(name => !(name in fields)).map(name => `Cannot lock field: ${name}`));
+    } else if (!(field in fields)) {
+      errors.push(`Unknown or read-only field: ${field}`);
+    } else if (!isValid(fields[field], value)) {
+      errors.push(`${field} must be ${TYPE_NAMES[fields[field]]}`);
+    }
+  }
+  if (partial && Object.keys(input).length === 0) errors.push('No fields to change');
+
+  return errors;
+};
+
+// The body's editable fields, plus the place and event dates that follow location and date
+const toChanges = (entity: HistoryEntity, input: any): Record<string, any> => {
+  const changes: Record<string, any> = Object.fromEntries(Object.entries(input).filter(([field]) => field in EDITABLE_FIELDS[entity]));
+  const derived: Record<string, any> = {};
+  if ('location' in changes) {
+    const place = resolveLocation(changes.location ?? undefined);
+    for (const field of PLACE_FIELDS) derived[field] = place?.[field];
+    if (entity === 'hackathon' && place) derived.online = place.online;
+  }
+  if (entity === 'hackathon' && 'date' in changes) {
+    const parsed = parseEventDate(changes.date ?? undefined);
+    for (const field of DATE_FIELDS) derived[field] = parsed?.[field];
+  }
+  return { ...derived, ...changes };
+};
+
+// An explicit lockedFields replaces the locks; otherwise the changed fields are added to them
+const lockedAfter = (before: string[], changes: Record<string, any>, lockedFields?: string[]) =>
+  lockedFields ?? Array.from(new Set([...before, ...Object.keys(changes)]));
+
+const curationState = (input: any) => (input.hidden !== undefined ? { hidden: input.hidden } : {});
+
+// Hackathon dedupe and sponsor links depend on the fields edited here
+const refreshHackathons = async () => {
+  await markDuplicateHackathons();
+  await linkSponsors();
+};
+
+// Returns the new hackathon's id, or the id of the manual listing with the same name and link
+const createHackathon = (input: any, actor: string): Promise<{ id: number; created: boolean }> =>
+  transaction(async () => {
+    const existing = await HackathonRepo.findListing(input.name, MANUAL_SOURCE, input.link ?? null);
+    if (existing) return { id: existing.id, created: false };
+
+    const changes = toChanges('hackathon', input);
+    const id = await HackathonRepo.create(
+      { ...changes, ...curationState(input), source: MANUAL_SOURCE, lockedFields: lockedAfter([], changes, input.lockedFields) },
+      actor
+    );
+    await refreshHackathons();
+    return { id, created: true };
+  });
+
+// Undefined when there is no such hackathon or it was deleted
+const updateHackathon = (id: number, input: any, actor: string): Promise<StoredHackathon | undefined> =>
+  transaction(async () => {
+    const before = await HackathonRepo.get(id);
+    if (!before || before.deletedAt) return undefined;
+
+    const changes = toChanges('hackathon', input);
+    await HackathonRepo.edit(id, { ...changes, ...curationState(input), lockedFields: lockedAfter(before.lockedFields, changes, input.lockedFields) }, actor);
+    await refreshHackathons();
+    return HackathonRepo.get(id);
+  });
+
+// Returns the new company's id, or the id of the company it would merge into
+const createCompany = (input: any, actor: string): Promise<{ id: number; created: boolean }> =>
+  transaction(async () => {
+    const existing = await findCompany({ name: input.name, link: input.link || '', source: MANUAL_SOURCE });
+    if (existing !== undefined) return { id: existing, created: false };
+
+    const changes = toChanges('company', input);
+    const id = await CompanyRepo.insert(
+      { ...changes, ...curationState(input), source: MANUAL_SOURCE, lockedFields: lockedAfter([], changes, input.lockedFields) },
+      undefined,
+      actor
+    );
+    return { id, created: true };
+  });
+
+const updateCompany = (id: number, input: any, actor: string): Promise<StoredCompany | undefined> =>
+  transaction(async () => {
+    const before = await CompanyRepo.get(id);
+    if (!before || before.deletedAt) return undefined;
+
+    const changes = toChanges('company', input);
+    await CompanyRepo.edit(id, { ...changes, ...curationState(input), lockedFields: lockedAfter(before.lockedFields, changes, input.lockedFields) }, actor);
+    return CompanyRepo.get(id);
+  });
+
+// A create or edit that would give a record the name, source and link of another one fails on the tables' UNIQUE constraint
+const isDuplicateRecord = (error: unknown): boolean => /UNIQUE constraint failed: (hackathons|companies)\./.test((error as Error).message);
+
+// Soft-deletes or restores a record; false when there is no such record
+const setDeleted = (entity: HistoryEntity, id: number, deleted: boolean, actor: string): Promise<boolean> =>
+  transaction(async () => {
+    const repo = entity === 'hackathon' ? HackathonRepo : CompanyRepo;
+    const before = await repo.get(id);
+    if (!before) return false;
+    if (!!before.deletedAt !== deleted) {
+      await repo.edit(id, { deletedAt: deleted ? new Date().toISOString() : undefined }, actor);
+      if (entity === 'hackathon') await refreshHackathons();
+    }
+    return true;
+  });
+
+export { validateRecord, createHackathon, updateHackathon, createCompany, updateCompany, setDeleted, isDuplicateRecord };
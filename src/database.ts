@@ -1,7 +1,19 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { MIGRATIONS } from './migrations';
+
 const sqlite3 = require('sqlite3');
+const fs = require('fs');
 const path = require('path');
 
-const dbPath = path.join(__dirname, '../data/scrapathon.db');
+// SCRAPATHON_DB points at another database file, or :memory: for a scratch one
+const dbPath = process.env.SCRAPATHON_DB || path.join(__dirname, '../data/scrapathon.db');
+const inMemory = dbPath === ':memory:';
+const backupDir = path.join(path.dirname(dbPath), 'backups');
+
+let markOpened: (err?: any) => void;
+const opened = new Promise<void>((resolve, reject) => {
+  markOpened = err => (err ? reject(err) : resolve());
+});
 
 export const db = new sqlite3.Database(dbPath, (err: any) => {
   if (err) {
@@ -9,45 +21,141 @@ export const db = new sqlite3.Database(dbPath, (err: any) => {
   } else {
     console.log('Connected to SQLite database.');
   }
+  markOpened(err);
 });
 
-// Create tables
-db.serialize(() => {
-  db.run(`
-    CREATE TABLE IF NOT EXISTS hackathons (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT NOT NULL,
-      link TEXT,
-      sponsors TEXT, -- JSON string
-      contacts TEXT, -- JSON string
-      yc_backed BOOLEAN DEFAULT 0,
-      funding_interest TEXT, -- JSON string
-      location TEXT,
-      date TEXT,
-      source TEXT,
-      description TEXT,
-      prizes TEXT, -- JSON string
-      participants INTEGER,
-      UNIQUE(name, source, link) ON CONFLICT REPLACE
-    )
-  `);
-
-  db.run(`
-    CREATE TABLE IF NOT EXISTS companies (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT NOT NULL,
-      link TEXT,
-      yc_backed BOOLEAN DEFAULT 0,
-      funding_interest TEXT, -- JSON string
-      industry TEXT,
-      location TEXT,
-      source TEXT,
-      description TEXT,
-      funding_stage TEXT,
-      employees TEXT,
-      UNIQUE(name, source, link) ON CONFLICT REPLACE
-    )
-  `);
-});
+// Raw query helpers; the exported ones below wait for migrations first
+const run = (sql: string, params: any[] = []): Promise<{ lastID: number; changes: number }> =>
+  new Promise((resolve, reject) => {
+    db.run(sql, params, function (this: any, err: any) {
+      if (err) reject(err);
+      else resolve({ lastID: this.lastID, changes: this.changes });
+    });
+  });
+
+const get = <T = any>(sql: string, params: any[] = []): Promise<T | undefined> =>
+  new Promise((resolve, reject) => {
+    db.get(sql, params, (err: any, row: T) => (err ? reject(err) : resolve(row)));
+  });
+
+const all = <T = any>(sql: string, params: any[] = []): Promise<T[]> =>
+  new Promise((resolve, reject) => {
+    db.all(sql, params, (err: any, rows: T[]) => (err ? reject(err) : resolve(rows)));
+  });
+
+// Adds a column to a table created before the column existed; already-present columns are left alone
+const addColumn = async (table: string, definition: string) => {
+  try {
+    await run(`ALTER TABLE ${table} ADD COLUMN ${definition}`);
+  } catch (err: any) {
+    if (!/duplicate column/i.test(err.message)) throw err;
+  }
+};
+
+const inTransaction = async <T>(fn: () => Promise<T>): Promise<T> => {
+  await run('BEGIN');
+  try {
+    const result = await fn();
+    await run('COMMIT');
+    return result;
+  } catch (error) {
+    await run('ROLLBACK');
+    throw error;
+  }
+};
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt?: string;
+}
+
+// Copies the database to `dest` (default backups/scrapathon-<time>.db next to it) and returns the path
+export const backupDatabase = async (dest?: string): Promise<string> => {
+  if (inMemory && !dest) throw new Error('An in-memory database has no backup directory; give a file');
+  const file = dest || path.join(backupDir, `scrapathon-${new Date().toISOString().replace(/[:.]/g, '-')}.db`);
+  await fs.promises.mkdir(path.dirname(file), { recursive: true });
+  await run('VACUUM INTO ?', [file]);
+  return file;
+};
+
+export const migrationStatus = async (): Promise<MigrationStatus[]> => {
+  await run('CREATE TABLE IF NOT EXISTS schema_migrations (version INTEGER PRIMARY KEY, name TEXT NOT NULL, applied_at TEXT NOT NULL)');
+  const applied = new Map((await all('SELECT * FROM schema_migrations')).map(row => [row.version, row.applied_at]));
+  return MIGRATIONS.map(({ version, name }) => ({ version, name, appliedAt: applied.get(version) }));
+};
+
+/**
+ * Applies pending migrations in version order, each in its own transaction,
+ * and returns the ones it applied. A database file that already has tables
+ * is backed up first.
+ */
+export const migrate = async (): Promise<MigrationStatus[]> => {
+  const applied: MigrationStatus[] = [];
+  const done = new Set((await migrationStatus()).filter(migration => migration.appliedAt).map(migration => migration.version));
+  const pending = MIGRATIONS.filter(migration => !done.has(migration.version));
+  if (pending.length === 0) return applied;
+
+  const existing = await get(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'hackathons'`);
+  if (existing && !inMemory) console.log(`Backed up database to ${await backupDatabase()}`);
+
+  for (const migration of pending) {
+    const appliedAt = new Date().toISOString();
+    try {
+      await inTransaction(async () => {
+        await migration.up({ run: sql => run(sql).then(() => undefined), addColumn });
+        await run('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)', [migration.version, migration.name, appliedAt]);
+      });
+    } catch (error) {
+      throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${(error as Error).message}`);
+    }
+    console.log(`Applied migration ${migration.version} (${migration.name})`);
+    applied.push({ version: migration.version, name: migration.name, appliedAt });
+  }
+  return applied;
+};
+
+// Resolves once the schema is up to date; SCRAPATHON_AUTO_MIGRATE=0 leaves migrating to src/migrate.ts
+export const dbReady: Promise<void> = opened.then(() => (process.env.SCRAPATHON_AUTO_MIGRATE === '0' ? undefined : migrate().then(() => undefined)));
+dbReady.catch((error: any) => console.error('Error migrating database:', error.message));
+
+// Whether the caller runs inside a transaction that is still open; callbacks it left behind can outlive it
+const transactionScope = new AsyncLocalStorage<{ open: boolean }>();
+const inOpenTransaction = () => transactionScope.getStore()?.open === true;
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+// Runs `fn` once every write queued before it has finished
+const enqueue = <T>(fn: () => Promise<T>): Promise<T> => {
+  const result = writeQueue.then(async () => {
+    await dbReady;
+    return fn();
+  });
+  writeQueue = result.catch(() => undefined);
+  return result;
+};
+
+// Promise wrappers for code that needs to await a query. Queries outside a
+// transaction queue behind the open one: writes can't run between its BEGIN
+// and COMMIT and be rolled back with it, and reads don't see its uncommitted rows
+export const dbRun = (sql: string, params: any[] = []) => (inOpenTransaction() ? run(sql, params) : enqueue(() => run(sql, params)));
+
+export const dbGet = <T = any>(sql: string, params: any[] = []): Promise<T | undefined> =>
+  inOpenTransaction() ? get<T>(sql, params) : enqueue(() => get<T>(sql, params));
+
+export const dbAll = <T = any>(sql: string, params: any[] = []): Promise<T[]> =>
+  inOpenTransaction() ? all<T>(sql, params) : enqueue(() => all<T>(sql, params));
+
+/**
+ * Runs `fn` in a transaction that rolls back if it throws. There is one
+ * connection, so transactions wait for each other and for queued writes; one
+ * started inside `fn` joins the outer transaction.
+ */
+export const transaction = <T>(fn: () => Promise<T>): Promise<T> =>
+  inOpenTransaction()
+    ? fn()
+    : enqueue(() => {
+        const scope = { open: true };
+        return transactionScope.run(scope, () => inTransaction(fn)).finally(() => (scope.open = false));
+      });
 
 export default db;
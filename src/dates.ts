@@ -0,0 +1,218 @@
+import { dbAll, dbReady, dbRun } from './database';
+
+/**
+ * Event date normalization
+ *
+ * Scrapers keep whatever date text the page had ("Jun 20, 2025 UTC (UTC)",
+ * "Oct 10 - Nov 15, 2025", "Sat, Oct 18 · 10:00 AM PDT", "October 2025").
+ * parseEventDate turns that into ISO 8601 start/end timestamps carrying the
+ * page's UTC offset, plus the timezone label it found. Text without a
+ * timezone is read as UTC, a missing year is the one closest to the reference
+ * date, a day without a time spans the whole day and a bare month spans the
+ * whole month. The raw text is always kept alongside.
+ */
+
+export interface ParsedDate {
+  startDate: string;
+  endDate: string;
+  timezone?: string; // As written on the page (e.g. "PDT", "UTC+05:30"); absent means assumed UTC
+}
+
+interface DatePart {
+  year?: number;
+  month?: number; // 0-11
+  day?: number;
+  hour?: number;
+  minute?: number;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Offsets in minutes for abbreviations seen on the scraped sites
+const TIMEZONES: Record<string, number> = {
+  UTC: 0, GMT: 0, Z: 0,
+  EST: -300, EDT: -240, CST: -360, CDT: -300, MST: -420, MDT: -360, PST: -480, PDT: -420,
+  BST: 60, CET: 60, CEST: 120, EET: 120, EEST: 180, WET: 0, WEST: 60,
+  IST: 330, SGT: 480, HKT: 480, JST: 540, KST: 540, AEST: 600, AEDT: 660, NZST: 720, NZDT: 780
+};
+
+const MONTH_PATTERN = /\b(jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\.?/i;
+const TIME_PATTERN = /\b(\d{1,2})(?::(\d{2}))?\s*(am|pm)\b|\b(\d{1,2}):(\d{2})\b/i;
+const YEAR_PATTERN = /\b((?:19|20)\d{2})\b/;
+const ISO_PATTERN = /(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?)?\s*(Z|[+-]\d{2}:?\d{2})?/g;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const formatOffset = (minutes: number) =>
+  minutes === 0 ? 'Z' : `${minutes < 0 ? '-' : '+'}${pad(Math.floor(Math.abs(minutes) / 60))}:${pad(Math.abs(minutes) % 60)}`;
+
+// Local wall-clock fields in the given offset, written as ISO 8601 with that offset
+const formatLocal = (year: number, month: number, day: number, hour: number, minute: number, second: number, offset: number) => {
+  const normalized = new Date(Date.UTC(year, month, day, hour, minute, second));
+  return `${normalized.getUTCFullYear()}-${pad(normalized.getUTCMonth() + 1)}-${pad(normalized.getUTCDate())}` +
+    `T${pad(normalized.getUTCHours())}:${pad(normalized.getUTCMinutes())}:${pad(normalized.getUTCSeconds())}${formatOffset(offset)}`;
+};
+
+const parseOffset = (text: string): number => {
+  const match = text.match(/([+-])(\d{1,2}):?(\d{2})?/);
+  if (!match) return 0;
+  const minutes = parseInt(match[2]) * 60 + parseInt(match[3] || '0');
+  return match[1] === '-' ? -minutes : minutes;
+};
+
+const extractTimezone = (text: string): { text: string; label?: string; offset: number } => {
+  const explicit = text.match(/\b(?:UTC|GMT)\s*([+-]\d{1,2}(?::?\d{2})?)\b/i);
+  if (explicit) {
+    return { text: text.replace(explicit[0], ' '), label: explicit[0].replace(/\s+/g, '').toUpperCase(), offset: parseOffset(explicit[1]) };
+  }
+
+  const abbreviation = text.match(new RegExp(`\\b(${Object.keys(TIMEZONES).filter(tz => tz !== 'Z').join('|')})\\b`));
+  if (abbreviation) {
+    return { text: text.split(abbreviation[0]).join(' '), label: abbreviation[1], offset: TIMEZONES[abbreviation[1]] };
+  }
+
+  return { text, offset: 0 };
+};
+
+const parsePart = (text: string): DatePart => {
+  const part: DatePart = {};
+  let rest = text;
+
+  const month = rest.match(MONTH_PATTERN);
+  if (month) {
+    part.month = MONTHS.indexOf(month[1].slice(0, 3).toLowerCase());
+    rest = rest.replace(month[0], ' ');
+  }
+
+  const time = rest.match(TIME_PATTERN);
+  if (time) {
+    let hour = parseInt(time[1] ?? time[4]);
+    const meridiem = time[3]?.toLowerCase();
+    if (meridiem === 'pm' && hour < 12) hour += 12;
+    if (meridiem === 'am' && hour === 12) hour = 0;
+    part.hour = hour;
+    part.minute = parseInt(time[2] ?? time[5] ?? '0');
+    rest = rest.replace(time[0], ' ');
+  }
+
+  const year = rest.match(YEAR_PATTERN);
+  if (year) {
+    part.year = parseInt(year[1]);
+    rest = rest.replace(year[0], ' ');
+  }
+
+  const slashed = rest.match(/\b(\d{1,2})\/(\d{1,2})(?:\/(\d{2,4}))?\b/); // US style M/D[/Y]
+  if (slashed && part.month === undefined) {
+    part.month = parseInt(slashed[1]) - 1;
+    part.day = parseInt(slashed[2]);
+    if (slashed[3]) part.year = parseInt(slashed[3].length === 2 ? `20${slashed[3]}` : slashed[3]);
+    return part;
+  }
+
+  const day = rest.match(/\b(\d{1,2})\b/);
+  if (day && parseInt(day[1]) >= 1 && parseInt(day[1]) <= 31) part.day = parseInt(day[1]);
+
+  return part;
+};
+
+// The year that puts month/day closest to the reference date
+const closestYear = (month: number, day: number, reference: Date): number => {
+  const year = reference.getUTCFullYear();
+  return [year - 1, year, year + 1].reduce((best, candidate) =>
+    Math.abs(Date.UTC(candidate, month, day) - reference.getTime()) < Math.abs(Date.UTC(best, month, day) - reference.getTime()) ? candidate : best
+  );
+};
+
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+const parseIso = (text: string): ParsedDate | undefined => {
+  const matches = Array.from(text.matchAll(ISO_PATTERN));
+  if (matches.length === 0) return undefined;
+
+  const toIso = (match: RegExpMatchArray, endOfDay: boolean) => {
+    const [, year, month, day, hour, minute, second, zone] = match;
+    const offset = zone && zone !== 'Z' ? parseOffset(zone) : 0;
+    if (hour === undefined) {
+      return formatLocal(+year, +month - 1, +day, endOfDay ? 23 : 0, endOfDay ? 59 : 0, endOfDay ? 59 : 0, offset);
+    }
+    return formatLocal(+year, +month - 1, +day, +hour, +minute, +(second || 0), offset);
+  };
+
+  const zone = matches[0][7];
+  return {
+    startDate: toIso(matches[0], false),
+    endDate: toIso(matches[matches.length > 1 ? 1 : 0], true),
+    timezone: zone ? (zone === 'Z' ? 'UTC' : zone) : undefined
+  };
+};
+
+const parseEventDate = (raw: string | undefined, reference: Date = new Date()): ParsedDate | undefined => {
+  if (!raw || !raw.trim()) return undefined;
+
+  const iso = parseIso(raw);
+  if (iso) return iso;
+
+  const cleaned = raw
+    .replace(/[–—]/g, '-')
+    .replace(/[·•|@()]/g, ' ')
+    .replace(/\b(\d{1,2})(st|nd|rd|th)\b/gi, '$1')
+    .replace(/\b(mon|tue|tues|wed|thu|thur|thurs|fri|sat|sun)(day|nesday|sday|urday)?\b\.?,?/gi, ' ')
+    .replace(/\s+/g, ' ');
+  const { text, label, offset } = extractTimezone(cleaned);
+
+  const halves = text.split(/\s+-\s+|\s+to\s+|(?<=\d)-(?=\d)|(?<=[a-z.])-(?=\d)|(?<=\d)-(?=[a-z])/i);
+  const start = parsePart(halves[0]);
+  const end = halves.length > 1 ? parsePart(halves[halves.length - 1]) : undefined;
+
+  // Each side borrows what it left out from the other ("Oct 10 - 12, 2025", "18 - 20 October 2025"). A start
+  // month later than the end's is in the year before ("Dec 30 - Jan 2, 2025")
+  if (end) {
+    start.month ??= end.month;
+    if (start.year === undefined && end.year !== undefined) {
+      start.year = start.month !== undefined && end.month !== undefined && start.month > end.month ? end.year - 1 : end.year;
+    }
+    end.month ??= start.month;
+    end.year ??= start.year;
+    if (end.day === undefined && end.month === start.month) end.day = start.day;
+  }
+
+  if (start.month === undefined) return undefined;
+  const monthOnly = start.day === undefined;
+  start.year ??= closestYear(start.month, start.day ?? 1, reference);
+
+  const startDate = formatLocal(start.year, start.month, start.day ?? 1, start.hour ?? 0, start.minute ?? 0, 0, offset);
+
+  let endDate: string;
+  if (end && end.month !== undefined && (end.day !== undefined || end.month !== start.month)) {
+    let endYear = end.year ?? start.year;
+    if (Date.UTC(endYear, end.month, end.day ?? 1) < Date.UTC(start.year, start.month, start.day ?? 1)) endYear += 1; // "Dec 30 - Jan 2"
+    const endDay = end.day ?? daysInMonth(endYear, end.month);
+    endDate = end.hour !== undefined
+      ? formatLocal(endYear, end.month, endDay, end.hour, end.minute ?? 0, 0, offset)
+      : formatLocal(endYear, end.month, endDay, 23, 59, 59, offset);
+  } else if (monthOnly) {
+    endDate = formatLocal(start.year, start.month, daysInMonth(start.year, start.month), 23, 59, 59, offset);
+  } else {
+    endDate = formatLocal(start.year, start.month, start.day!, 23, 59, 59, offset);
+  }
+
+  return { startDate, endDate, timezone: label };
+};
+
+// Fills start/end dates for rows saved before normalization existed
+const backfillEventDates = async () => {
+  await dbReady;
+  const rows = await dbAll(`SELECT id, date FROM hackathons WHERE start_date IS NULL AND date IS NOT NULL AND date != ''`);
+  let updated = 0;
+
+  for (const row of rows) {
+    const parsed = parseEventDate(row.date);
+    if (!parsed) continue;
+    await dbRun('UPDATE hackathons SET start_date = ?, end_date = ?, timezone = ? WHERE id = ?', [parsed.startDate, parsed.endDate, parsed.timezone, row.id]);
+    updated++;
+  }
+
+  if (updated > 0) console.log(`Normalized dates for ${updated} hackathons`);
+};
+
+export { parseEventDate, backfillEventDates };
@@ -0,0 +1,29 @@
+import { EventEmitter } from 'events';
+
+/**
+ * Scrape pipeline events
+ *
+ * The source runner, the fetch helpers and the job runner report what they are
+ * doing through an EventEmitter carried on the source context. Every event is
+ * emitted as `'event'` with one of the shapes below; the job runner buffers
+ * them and `GET /api/scrape/:id/events` streams them to the dashboard.
+ */
+
+export type ScrapeEvent =
+  | { type: 'source:started'; source: string }
+  | { type: 'source:completed'; source: string; count: number }
+  | { type: 'source:failed'; source: string; error: string }
+  | { type: 'source:cancelled'; source: string }
+  | { type: 'source:alert'; source: string; metric: string; message: string }
+  | { type: 'item:parsed'; source: string; name: string; link?: string }
+  | { type: 'item:skipped'; source: string; name: string; reason: string }
+  | { type: 'retry'; source?: string; url: string; retriesLeft: number; error: string }
+  | { type: 'run:completed'; status: string; hackathonCount: number; companyCount: number; error?: string };
+
+export type ScrapeEventRecord = ScrapeEvent & { id: number; at: string };
+
+export const createScrapeEvents = () => new EventEmitter();
+
+export const emitScrapeEvent = (events: EventEmitter | undefined, event: ScrapeEvent) => {
+  events?.emit('event', event);
+};
@@ -0,0 +1,193 @@
+import axios from 'axios';
+import * as fs from 'fs';
+import * as path from 'path';
+import puppeteer from 'puppeteer';
+import { dbGet, dbReady, dbRun } from './database';
+import { politeRequest } from './politeness';
+import { SourceContext } from './sources';
+
+/**
+ * Fetch layer
+ *
+ * Scrapers load pages through fetchHtml (plain HTTP) or renderPage (headless
+ * browser). The mode comes from SCRAPE_FETCH_MODE:
+ *
+ *   live    fetch from the site (default)
+ *   record  fetch from the site and save each page under fixtures/http
+ *   replay  serve pages from fixtures/http only; nothing touches the network
+ *
+ * Live requests are spaced out per host by ./politeness.ts. HTTP responses are
+ * cached in `http_cache` by URL. A cached page is revalidated with its ETag /
+ * Last-Modified, so an unchanged page comes back as a 304, and a page fetched
+ * less than `maxAge` ago isn't requested at all.
+ */
+
+export type FetchMode = 'live' | 'record' | 'replay';
+
+export interface FetchOptions {
+  maxAge?: number; // Milliseconds a cached copy is used without asking the site
+}
+
+export interface RenderOptions {
+  // Infinite scroll: scroll to the bottom (or click loadMore) until no more items appear
+  scroll?: {
+    item: string; // Selector counted to tell whether more items loaded
+    loadMore?: string; // Button clicked instead of scrolling
+    maxRounds: number;
+    maxItems?: number;
+  };
+}
+
+interface CachedResponse {
+  url: string;
+  etag: string | null;
+  last_modified: string | null;
+  body: string;
+  fetched_at: string;
+}
+
+const FETCH_MODES: FetchMode[] = ['live', 'record', 'replay'];
+const FIXTURES_DIR = process.env.SCRAPE_FIXTURES_DIR || path.join(__dirname, '../fixtures/http');
+const REQUEST_TIMEOUT = 10000;
+const SCROLL_TIMEOUT = 5000; // How long a scroll round waits for new items
+const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36';
+
+const parseFetchMode = (value: string | undefined): FetchMode => {
+  if (!value) return 'live';
+  if (FETCH_MODES.includes(value as FetchMode)) return value as FetchMode;
+  console.error(`Unknown SCRAPE_FETCH_MODE "${value}", using live`);
+  return 'live';
+};
+
+let fetchMode = parseFetchMode(process.env.SCRAPE_FETCH_MODE);
+
+const getFetchMode = () => fetchMode;
+
+const setFetchMode = (mode: FetchMode) => {
+  fetchMode = mode;
+};
+
+// https://devpost.com/hackathons?page=2 -> <fixtures>/devpost.com/hackathons_page_2.html
+const fixturePath = (url: string): string => {
+  const { hostname, pathname, search } = new URL(url);
+  const page = (pathname.replace(/\/+$/, '') || '/index') + (search ? `_${search.slice(1)}` : '');
+  return path.join(FIXTURES_DIR, hostname, `${page.replace(/[^\w/.-]/g, '_')}.html`);
+};
+
+const readFixture = async (url: string): Promise<string> => {
+  const file = fixturePath(url);
+  try {
+    return await fs.promises.readFile(file, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new Error(`No fixture recorded for ${url} (expected ${path.relative(process.cwd(), file)})`);
+    }
+    throw error;
+  }
+};
+
+const writeFixture = async (url: string, body: string) => {
+  const file = fixturePath(url);
+  await fs.promises.mkdir(path.dirname(file), { recursive: true });
+  await fs.promises.writeFile(file, body);
+};
+
+const fetchLive = async (url: string, context: SourceContext, { maxAge }: FetchOptions): Promise<string> => {
+  await dbReady;
+  const cached = await dbGet<CachedResponse>('SELECT * FROM http_cache WHERE url = ?', [url]);
+  if (cached && maxAge && Date.now() - Date.parse(cached.fetched_at) < maxAge) return cached.body;
+
+  const headers: Record<string, string> = {};
+  if (cached?.etag) headers['If-None-Match'] = cached.etag;
+  if (cached?.last_modified) headers['If-Modified-Since'] = cached.last_modified;
+
+  const response = await politeRequest(url, () => axios.get(url, {
+    timeout: REQUEST_TIMEOUT,
+    signal: context.signal,
+    headers,
+    responseType: 'text',
+    validateStatus: status => (status >= 200 && status < 300) || (status === 304 && !!cached)
+  }), context);
+  const now = new Date().toISOString();
+
+  if (response.status === 304) {
+    await dbRun('UPDATE http_cache SET fetched_at = ? WHERE url = ?', [now, url]);
+    return cached!.body;
+  }
+
+  const etag = response.headers.etag || null;
+  const lastModified = response.headers['last-modified'] || null;
+  if (etag || lastModified || maxAge) {
+    await dbRun(
+      'INSERT OR REPLACE INTO http_cache (url, etag, last_modified, body, fetched_at) VALUES (?, ?, ?, ?, ?)',
+      [url, etag, lastModified, response.data, now]
+    );
+  }
+  return response.data;
+};
+
+// Page HTML over plain HTTP
+const fetchHtml = async (url: string, context: SourceContext = {}, options: FetchOptions = {}): Promise<string> => {
+  if (fetchMode === 'replay') return readFixture(url);
+  const body = await fetchLive(url, context, options);
+  if (fetchMode === 'record') await writeFixture(url, body);
+  return body;
+};
+
+// Scrolls or clicks "load more" until the item count stops growing or a limit is hit
+const loadAll = async (page: any, { item, loadMore, maxRounds, maxItems = Infinity }: NonNullable<RenderOptions['scroll']>, signal?: AbortSignal) => {
+  const countItems = (): Promise<number> => page.$$eval(item, (elements: Element[]) => elements.length);
+  let count = await countItems();
+  for (let round = 0; round < maxRounds && count < maxItems; round++) {
+    signal?.throwIfAborted();
+    if (loadMore) {
+      const button = await page.$(loadMore);
+      if (!button) break;
+      await button.click();
+    } else {
+      await page.evaluate(() => window.scrollTo(0, document.body.scrollHeight));
+    }
+    try {
+      await page.waitForFunction(
+        (selector: string, previous: number) => document.querySelectorAll(selector).length > previous,
+        { timeout: SCROLL_TIMEOUT },
+        item,
+        count
+      );
+    } catch {
+      break; // Nothing more loaded
+    }
+    count = await countItems();
+  }
+};
+
+const renderLive = async (url: string, { signal }: SourceContext, options: RenderOptions): Promise<string> => {
+  signal?.throwIfAborted();
+  const browser = await puppeteer.launch({
+    headless: true,
+    args: ['--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage']
+  });
+  const closeOnAbort = () => browser.close();
+  signal?.addEventListener('abort', closeOnAbort);
+
+  try {
+    const page = await browser.newPage();
+    await page.setUserAgent(USER_AGENT);
+    await page.goto(url, { waitUntil: 'networkidle2', timeout: 30000 });
+    if (options.scroll) await loadAll(page, options.scroll, signal);
+    const html = await page.content();
+    if (fetchMode === 'record') await writeFixture(url, html);
+    return html;
+  } finally {
+    signal?.removeEventListener('abort', closeOnAbort);
+    if (!signal?.aborted) await browser.close();
+  }
+};
+
+// Page HTML after a headless browser has run its scripts
+const renderPage = async (url: string, context: SourceContext = {}, options: RenderOptions = {}): Promise<string> => {
+  if (fetchMode === 'replay') return readFixture(url);
+  return politeRequest(url, () => renderLive(url, context, options), context);
+};
+
+export { getFetchMode, setFetchMode, fetchHtml, renderPage };
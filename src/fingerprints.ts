@@ -0,0 +1,138 @@
+import { createHash } from 'crypto';
+import { dbAll, dbGet, dbReady, dbRun } from './database';
+import { recordListingChange } from './history';
+import { ScrapeFilters, SourceStats } from './sources';
+
+/**
+ * Incremental scraping
+ *
+ * Every listing a source emits gets a row in `fingerprints`, keyed by source
+ * and URL (the listing's link, or its name when it has none). Records that
+ * share a listing, like the companies one article names, share its row:
+ * - listing_hash: the listing card's fields. While it is unchanged and the
+ *   detail page was read within the source's refresh TTL, the detail fields
+ *   stored with it are reused instead of fetching the page again
+ * - detail_hash: the detail page body when it was last read. ETag and
+ *   Last-Modified revalidation of a page that is due is left to the HTTP
+ *   cache (./fetcher.ts)
+ * - record_hash: the whole record as saved, which tells new, updated and
+ *   unchanged listings apart
+ * - first_seen_at / last_seen_at / disappeared_at
+ *
+ * A listing not seen again is counted as disappeared only when its source ran
+ * unfiltered and without errors, since a partial run misses listings that are
+ * still there. Disappearing and reappearing are logged to the record's
+ * history (./history.ts).
+ */
+
+export interface ChangeSummary {
+  new: number;
+  updated: number;
+  unchanged: number;
+  disappeared: number;
+}
+
+interface FingerprintRow {
+  source: string;
+  url: string;
+  listing_hash: string | null;
+  record_hash: string | null;
+  detail: string | null;
+  detail_hash: string | null;
+  detail_checked_at: string | null;
+  disappeared_at: string | null;
+}
+
+// Stable across runs: object keys are sorted before hashing
+const hashOf = (value: any): string => {
+  const stable = (v: any): any =>
+    Array.isArray(v) ? v.map(stable) : v && typeof v === 'object' ? Object.fromEntries(Object.keys(v).sort().map(key => [key, stable(v[key])])) : v;
+  return createHash('sha1').update(JSON.stringify(stable(value)) ?? '').digest('hex');
+};
+
+const listingKey = (record: any): string => record.link || record.name;
+
+const emptySummary = (): ChangeSummary => ({ new: 0, updated: 0, unchanged: 0, disappeared: 0 });
+
+// The detail fields stored for a listing, when its card is unchanged and they were read within `refresh` ms
+const knownDetail = async (source: string, url: string, listing: Record<string, any>, refresh: number): Promise<Record<string, any> | undefined> => {
+  await dbReady;
+  const row = await dbGet<FingerprintRow>('SELECT * FROM fingerprints WHERE source = ? AND url = ?', [source, url]);
+  if (!row?.detail || !row.detail_checked_at || row.listing_hash !== hashOf(listing)) return undefined;
+  if (Date.now() - new Date(row.detail_checked_at).getTime() > refresh) return undefined;
+  return JSON.parse(row.detail);
+};
+
+const rememberDetail = async (source: string, url: string, listing: Record<string, any>, detail: Record<string, any>, body: string) => {
+  await dbReady;
+  await dbRun(
+    `INSERT INTO fingerprints (source, url, listing_hash, detail, detail_hash, detail_checked_at) VALUES (?, ?, ?, ?, ?, ?)
+     ON CONFLICT(source, url) DO UPDATE SET listing_hash = excluded.listing_hash, detail = excluded.detail,
+       detail_hash = excluded.detail_hash, detail_checked_at = excluded.detail_checked_at`,
+    [source, url, hashOf(listing), JSON.stringify(detail), hashOf(body), new Date().toISOString()]
+  );
+};
+
+/**
+ * Compares a run's saved records with their fingerprints and updates them.
+ * Returns new/updated/unchanged/disappeared counts per source.
+ */
+const trackChanges = async (
+  records: any[],
+  stats: Map<string, SourceStats>,
+  { filters = {}, startedAt = new Date().toISOString(), runId }: { filters?: ScrapeFilters; startedAt?: string; runId?: string } = {}
+): Promise<Record<string, ChangeSummary>> => {
+  await dbReady;
+  const now = new Date().toISOString();
+  const summaries: Record<string, ChangeSummary> = Object.fromEntries(Array.from(stats.keys(), source => [source, emptySummary()]));
+
+  // Records from one listing (an article naming two companies) share its fingerprint and count once
+  const listings = new Map<string, { source: string; url: string; saved: any[] }>();
+  for (const record of records) {
+    const url = listingKey(record);
+    if (!url) continue;
+    const { sourceLinks, ...saved } = record;
+    const key = `${record.source} ${url}`;
+    if (!listings.has(key)) listings.set(key, { source: record.source, url, saved: [] });
+    listings.get(key)!.saved.push(saved);
+  }
+
+  for (const { source, url, saved } of listings.values()) {
+    const summary = (summaries[source] ??= emptySummary());
+    const recordHash = saved.length === 1 ? hashOf(saved[0]) : hashOf(saved.map(hashOf).sort());
+    const row = await dbGet<FingerprintRow>('SELECT * FROM fingerprints WHERE source = ? AND url = ?', [source, url]);
+
+    if (row?.disappeared_at) await recordListingChange(source, url, 'reappeared', runId);
+    if (!row?.record_hash || row.disappeared_at) summary.new++;
+    else if (row.record_hash !== recordHash) summary.updated++;
+    else summary.unchanged++;
+
+    await dbRun(
+      `INSERT INTO fingerprints (source, url, record_hash, first_seen_at, last_seen_at) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(source, url) DO UPDATE SET record_hash = excluded.record_hash, last_seen_at = excluded.last_seen_at,
+         first_seen_at = COALESCE(first_seen_at, excluded.first_seen_at), disappeared_at = NULL`,
+      [source, url, recordHash, now, now]
+    );
+  }
+
+  const unfiltered = Object.values(filters).every(value => !value);
+  for (const [source, sourceStats] of stats) {
+    if (!unfiltered || sourceStats.failed || sourceStats.errors.length > 0) continue;
+    const gone = await dbAll<{ url: string }>(
+      'SELECT url FROM fingerprints WHERE source = ? AND last_seen_at < ? AND disappeared_at IS NULL',
+      [source, startedAt]
+    );
+    for (const { url } of gone) {
+      await dbRun('UPDATE fingerprints SET disappeared_at = ? WHERE source = ? AND url = ?', [now, source, url]);
+      await recordListingChange(source, url, 'disappeared', runId);
+    }
+    summaries[source].disappeared = gone.length;
+  }
+
+  for (const [source, summary] of Object.entries(summaries)) {
+    console.log(`Changes on ${source}: ${summary.new} new, ${summary.updated} updated, ${summary.unchanged} unchanged, ${summary.disappeared} disappeared`);
+  }
+  return summaries;
+};
+
+export { knownDetail, rememberDetail, trackChanges };
@@ -0,0 +1,178 @@
+/**
+ * Offline gazetteer used by ./locations.ts
+ *
+ * Cities and countries that show up in the scraped sources and the seeded
+ * company lists. Coordinates are city centres. Aliases cover slugs,
+ * abbreviations and local spellings; matching ignores case and accents.
+ */
+
+export interface GazetteerCity {
+  city: string;
+  region?: string;
+  country: string; // ISO 3166-1 alpha-2
+  lat: number;
+  lon: number;
+  aliases?: string[];
+}
+
+export interface GazetteerCountry {
+  code: string; // ISO 3166-1 alpha-2
+  name: string;
+  aliases?: string[];
+}
+
+export const COUNTRIES: GazetteerCountry[] = [
+  { code: 'US', name: 'United States', aliases: ['usa', 'u.s.', 'u.s.a.', 'united states of america'] },
+  { code: 'CA', name: 'Canada' },
+  { code: 'GB', name: 'United Kingdom', aliases: ['uk', 'u.k.', 'england', 'scotland', 'wales', 'great britain', 'britain'] },
+  { code: 'IE', name: 'Ireland' },
+  { code: 'DE', name: 'Germany', aliases: ['deutschland'] },
+  { code: 'FR', name: 'France' },
+  { code: 'NL', name: 'Netherlands', aliases: ['the netherlands', 'holland'] },
+  { code: 'BE', name: 'Belgium' },
+  { code: 'PT', name: 'Portugal' },
+  { code: 'ES', name: 'Spain', aliases: ['españa'] },
+  { code: 'IT', name: 'Italy', aliases: ['italia'] },
+  { code: 'CH', name: 'Switzerland' },
+  { code: 'AT', name: 'Austria' },
+  { code: 'PL', name: 'Poland' },
+  { code: 'CZ', name: 'Czechia', aliases: ['czech republic'] },
+  { code: 'FI', name: 'Finland' },
+  { code: 'SE', name: 'Sweden' },
+  { code: 'DK', name: 'Denmark' },
+  { code: 'NO', name: 'Norway' },
+  { code: 'EE', name: 'Estonia' },
+  { code: 'JP', name: 'Japan' },
+  { code: 'KR', name: 'South Korea', aliases: ['korea', 'republic of korea'] },
+  { code: 'CN', name: 'China' },
+  { code: 'HK', name: 'Hong Kong' },
+  { code: 'TW', name: 'Taiwan' },
+  { code: 'SG', name: 'Singapore' },
+  { code: 'MY', name: 'Malaysia' },
+  { code: 'ID', name: 'Indonesia' },
+  { code: 'PH', name: 'Philippines' },
+  { code: 'TH', name: 'Thailand' },
+  { code: 'VN', name: 'Vietnam', aliases: ['viet nam'] },
+  { code: 'IN', name: 'India' },
+  { code: 'IL', name: 'Israel' },
+  { code: 'AE', name: 'United Arab Emirates', aliases: ['uae'] },
+  { code: 'AU', name: 'Australia' },
+  { code: 'NZ', name: 'New Zealand' },
+  { code: 'BR', name: 'Brazil', aliases: ['brasil'] },
+  { code: 'MX', name: 'Mexico', aliases: ['méxico'] },
+  { code: 'AR', name: 'Argentina' },
+  { code: 'CO', name: 'Colombia' },
+  { code: 'CL', name: 'Chile' },
+  { code: 'NG', name: 'Nigeria' },
+  { code: 'KE', name: 'Kenya' },
+  { code: 'ZA', name: 'South Africa' },
+  { code: 'EG', name: 'Egypt' }
+];
+
+export const CITIES: GazetteerCity[] = [
+  // United States
+  { city: 'San Francisco', region: 'California', country: 'US', lat: 37.7749, lon: -122.4194, aliases: ['sf', 'san fran', 'bay area', 'sf bay area'] },
+  { city: 'Mountain View', region: 'California', country: 'US', lat: 37.3861, lon: -122.0839 },
+  { city: 'Menlo Park', region: 'California', country: 'US', lat: 37.4530, lon: -122.1817 },
+  { city: 'Palo Alto', region: 'California', country: 'US', lat: 37.4419, lon: -122.1430 },
+  { city: 'San Jose', region: 'California', country: 'US', lat: 37.3382, lon: -121.8863 },
+  { city: 'Oakland', region: 'California', country: 'US', lat: 37.8044, lon: -122.2712 },
+  { city: 'Berkeley', region: 'California', country: 'US', lat: 37.8716, lon: -122.2727 },
+  { city: 'Los Angeles', region: 'California', country: 'US', lat: 34.0522, lon: -118.2437 },
+  { city: 'San Diego', region: 'California', country: 'US', lat: 32.7157, lon: -117.1611 },
+  { city: 'Seattle', region: 'Washington', country: 'US', lat: 47.6062, lon: -122.3321 },
+  { city: 'Redmond', region: 'Washington', country: 'US', lat: 47.6740, lon: -122.1215 },
+  { city: 'Portland', region: 'Oregon', country: 'US', lat: 45.5152, lon: -122.6784 },
+  { city: 'New York', region: 'New York', country: 'US', lat: 40.7128, lon: -74.0060, aliases: ['nyc', 'new york city', 'manhattan', 'brooklyn'] },
+  { city: 'Boston', region: 'Massachusetts', country: 'US', lat: 42.3601, lon: -71.0589 },
+  { city: 'Philadelphia', region: 'Pennsylvania', country: 'US', lat: 39.9526, lon: -75.1652 },
+  { city: 'Pittsburgh', region: 'Pennsylvania', country: 'US', lat: 40.4406, lon: -79.9959 },
+  { city: 'Washington, D.C.', region: 'District of Columbia', country: 'US', lat: 38.9072, lon: -77.0369, aliases: ['washington dc'] },
+  { city: 'Atlanta', region: 'Georgia', country: 'US', lat: 33.7490, lon: -84.3880 },
+  { city: 'Miami', region: 'Florida', country: 'US', lat: 25.7617, lon: -80.1918 },
+  { city: 'Chicago', region: 'Illinois', country: 'US', lat: 41.8781, lon: -87.6298 },
+  { city: 'Ann Arbor', region: 'Michigan', country: 'US', lat: 42.2808, lon: -83.7430 },
+  { city: 'Minneapolis', region: 'Minnesota', country: 'US', lat: 44.9778, lon: -93.2650 },
+  { city: 'Austin', region: 'Texas', country: 'US', lat: 30.2672, lon: -97.7431 },
+  { city: 'Dallas', region: 'Texas', country: 'US', lat: 32.7767, lon: -96.7970 },
+  { city: 'Houston', region: 'Texas', country: 'US', lat: 29.7604, lon: -95.3698 },
+  { city: 'Denver', region: 'Colorado', country: 'US', lat: 39.7392, lon: -104.9903 },
+  { city: 'Salt Lake City', region: 'Utah', country: 'US', lat: 40.7608, lon: -111.8910 },
+  { city: 'Phoenix', region: 'Arizona', country: 'US', lat: 33.4484, lon: -112.0740 },
+  { city: 'Las Vegas', region: 'Nevada', country: 'US', lat: 36.1699, lon: -115.1398 },
+
+  // Canada
+  { city: 'Toronto', region: 'Ontario', country: 'CA', lat: 43.6532, lon: -79.3832 },
+  { city: 'Ottawa', region: 'Ontario', country: 'CA', lat: 45.4215, lon: -75.6972 },
+  { city: 'Waterloo', region: 'Ontario', country: 'CA', lat: 43.4643, lon: -80.5204 },
+  { city: 'Montreal', region: 'Quebec', country: 'CA', lat: 45.5017, lon: -73.5673 },
+  { city: 'Vancouver', region: 'British Columbia', country: 'CA', lat: 49.2827, lon: -123.1207 },
+
+  // Europe
+  { city: 'London', region: 'England', country: 'GB', lat: 51.5074, lon: -0.1278 },
+  { city: 'Manchester', region: 'England', country: 'GB', lat: 53.4808, lon: -2.2426 },
+  { city: 'Oxford', region: 'England', country: 'GB', lat: 51.7520, lon: -1.2577 },
+  { city: 'Edinburgh', region: 'Scotland', country: 'GB', lat: 55.9533, lon: -3.1883 },
+  { city: 'Dublin', country: 'IE', lat: 53.3498, lon: -6.2603 },
+  { city: 'Berlin', country: 'DE', lat: 52.5200, lon: 13.4050 },
+  { city: 'Munich', region: 'Bavaria', country: 'DE', lat: 48.1351, lon: 11.5820, aliases: ['münchen'] },
+  { city: 'Hamburg', country: 'DE', lat: 53.5511, lon: 9.9937 },
+  { city: 'Paris', region: 'Île-de-France', country: 'FR', lat: 48.8566, lon: 2.3522 },
+  { city: 'Amsterdam', region: 'North Holland', country: 'NL', lat: 52.3676, lon: 4.9041 },
+  { city: 'Brussels', country: 'BE', lat: 50.8503, lon: 4.3517, aliases: ['bruxelles'] },
+  { city: 'Lisbon', country: 'PT', lat: 38.7223, lon: -9.1393, aliases: ['lisboa'] },
+  { city: 'Madrid', country: 'ES', lat: 40.4168, lon: -3.7038 },
+  { city: 'Barcelona', region: 'Catalonia', country: 'ES', lat: 41.3851, lon: 2.1734 },
+  { city: 'Milan', region: 'Lombardy', country: 'IT', lat: 45.4642, lon: 9.1900, aliases: ['milano'] },
+  { city: 'Rome', region: 'Lazio', country: 'IT', lat: 41.9028, lon: 12.4964, aliases: ['roma'] },
+  { city: 'Zurich', country: 'CH', lat: 47.3769, lon: 8.5417, aliases: ['zürich'] },
+  { city: 'Vienna', country: 'AT', lat: 48.2082, lon: 16.3738, aliases: ['wien'] },
+  { city: 'Warsaw', country: 'PL', lat: 52.2297, lon: 21.0122, aliases: ['warszawa'] },
+  { city: 'Prague', country: 'CZ', lat: 50.0755, lon: 14.4378, aliases: ['praha'] },
+  { city: 'Helsinki', country: 'FI', lat: 60.1699, lon: 24.9384 },
+  { city: 'Stockholm', country: 'SE', lat: 59.3293, lon: 18.0686 },
+  { city: 'Copenhagen', country: 'DK', lat: 55.6761, lon: 12.5683, aliases: ['københavn'] },
+  { city: 'Oslo', country: 'NO', lat: 59.9139, lon: 10.7522 },
+  { city: 'Tallinn', country: 'EE', lat: 59.4370, lon: 24.7536 },
+
+  // Asia and the Middle East
+  { city: 'Tokyo', country: 'JP', lat: 35.6762, lon: 139.6503 },
+  { city: 'Seoul', country: 'KR', lat: 37.5665, lon: 126.9780 },
+  { city: 'Beijing', country: 'CN', lat: 39.9042, lon: 116.4074 },
+  { city: 'Shanghai', country: 'CN', lat: 31.2304, lon: 121.4737 },
+  { city: 'Shenzhen', region: 'Guangdong', country: 'CN', lat: 22.5431, lon: 114.0579 },
+  { city: 'Hong Kong', country: 'HK', lat: 22.3193, lon: 114.1694 },
+  { city: 'Taipei', country: 'TW', lat: 25.0330, lon: 121.5654 },
+  { city: 'Singapore', country: 'SG', lat: 1.3521, lon: 103.8198 },
+  { city: 'Kuala Lumpur', country: 'MY', lat: 3.1390, lon: 101.6869, aliases: ['kl'] },
+  { city: 'Jakarta', country: 'ID', lat: -6.2088, lon: 106.8456 },
+  { city: 'Manila', country: 'PH', lat: 14.5995, lon: 120.9842 },
+  { city: 'Bangkok', country: 'TH', lat: 13.7563, lon: 100.5018 },
+  { city: 'Ho Chi Minh City', country: 'VN', lat: 10.8231, lon: 106.6297, aliases: ['saigon'] },
+  { city: 'Bangalore', region: 'Karnataka', country: 'IN', lat: 12.9716, lon: 77.5946, aliases: ['bengaluru'] },
+  { city: 'Mumbai', region: 'Maharashtra', country: 'IN', lat: 19.0760, lon: 72.8777, aliases: ['bombay'] },
+  { city: 'Pune', region: 'Maharashtra', country: 'IN', lat: 18.5204, lon: 73.8567 },
+  { city: 'Delhi', country: 'IN', lat: 28.7041, lon: 77.1025, aliases: ['new delhi'] },
+  { city: 'Hyderabad', region: 'Telangana', country: 'IN', lat: 17.3850, lon: 78.4867 },
+  { city: 'Chennai', region: 'Tamil Nadu', country: 'IN', lat: 13.0827, lon: 80.2707 },
+  { city: 'Tel Aviv', country: 'IL', lat: 32.0853, lon: 34.7818, aliases: ['tel aviv-yafo'] },
+  { city: 'Dubai', country: 'AE', lat: 25.2048, lon: 55.2708 },
+
+  // Oceania
+  { city: 'Sydney', region: 'New South Wales', country: 'AU', lat: -33.8688, lon: 151.2093 },
+  { city: 'Melbourne', region: 'Victoria', country: 'AU', lat: -37.8136, lon: 144.9631 },
+  { city: 'Auckland', country: 'NZ', lat: -36.8485, lon: 174.7633 },
+
+  // Latin America
+  { city: 'Sao Paulo', country: 'BR', lat: -23.5505, lon: -46.6333, aliases: ['são paulo'] },
+  { city: 'Mexico City', country: 'MX', lat: 19.4326, lon: -99.1332, aliases: ['cdmx', 'ciudad de mexico'] },
+  { city: 'Buenos Aires', country: 'AR', lat: -34.6037, lon: -58.3816 },
+  { city: 'Bogota', country: 'CO', lat: 4.7110, lon: -74.0721, aliases: ['bogotá'] },
+  { city: 'Santiago', country: 'CL', lat: -33.4489, lon: -70.6693 },
+
+  // Africa
+  { city: 'Lagos', country: 'NG', lat: 6.5244, lon: 3.3792 },
+  { city: 'Nairobi', country: 'KE', lat: -1.2921, lon: 36.8219 },
+  { city: 'Cape Town', country: 'ZA', lat: -33.9249, lon: 18.4241 },
+  { city: 'Cairo', country: 'EG', lat: 30.0444, lon: 31.2357 }
+];
@@ -0,0 +1,120 @@
+import { dbAll } from './database';
+import { distanceKm } from './locations';
+import { HackathonRepo, HackathonRow, StoredHackathon } from './repositories';
+import { Hackathon, SourceLink } from './scraper';
+import { foldText, isNearMatch } from './text';
+
+/**
+ * Hackathon deduplication
+ *
+ * The same event is often listed on Devpost, MLH, Eventbrite and Meetup. Two
+ * listings are the same event when their names match once years and filler
+ * words are dropped, their dates overlap and they aren't in different places
+ * (more than SAME_PLACE_KM apart, different countries, or online vs in person).
+ * Each group keeps its most complete listing as the canonical record, with
+ * every listing's source link; the other rows point at it via `duplicate_of`.
+ * Listings without a name or dates are never grouped.
+ */
+
+const SAME_PLACE_KM = 50;
+
+// Preferred when two listings are equally complete
+const SOURCE_PRIORITY = ['Devpost', 'MLH', 'Eventbrite', 'Meetup', 'Hack Club', 'HackerEarth', 'LinkedIn Events'];
+
+const FILLER_WORDS = new Set(['the', 'a', 'an', 'annual', 'hackathon', 'hackathons', 'edition', 'event', 'presents']);
+
+const nameTokens = (name: string): string[] =>
+  foldText(name)
+    .split(/[^a-z0-9]+/)
+    .filter(token => token && !FILLER_WORDS.has(token) && !/^(19|20)\d{2}$/.test(token) && !/^\d+(st|nd|rd|th)$/.test(token));
+
+// Same name give or take a typo, or one name's words all inside the other's ("HackMIT" vs "HackMIT 2025: Fall")
+const sameName = (a: string[], b: string[]): boolean => {
+  const keyA = a.join('');
+  const keyB = b.join('');
+  if (!keyA || !keyB) return false;
+  if (keyA === keyB || isNearMatch(keyA, keyB)) return true;
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  return shorter.length >= 2 && shorter.every(token => longer.includes(token));
+};
+
+const datesOverlap = (a: Hackathon, b: Hackathon): boolean => {
+  if (!a.startDate || !a.endDate || !b.startDate || !b.endDate) return false;
+  return Date.parse(a.startDate) <= Date.parse(b.endDate) && Date.parse(b.startDate) <= Date.parse(a.endDate);
+};
+
+// Unknown places don't rule a match out; known, different ones do
+const samePlace = (a: Hackathon, b: Hackathon): boolean => {
+  if (a.latitude != null && a.longitude != null && b.latitude != null && b.longitude != null) {
+    return distanceKm(a.latitude, a.longitude, b.latitude, b.longitude) <= SAME_PLACE_KM;
+  }
+  if (a.country && b.country && a.country !== b.country) return false;
+  const onlineOnly = (h: Hackathon) => h.online === true && !h.city && !h.country;
+  const inPersonOnly = (h: Hackathon) => h.online === false;
+  return !((onlineOnly(a) && inPersonOnly(b)) || (onlineOnly(b) && inPersonOnly(a)));
+};
+
+const completeness = (h: Hackathon) =>
+  [h.description, h.location, h.startDate, h.participants, h.sponsors?.length, h.prizes?.length].filter(Boolean).length;
+
+const sourceRank = (source: string) => {
+  const rank = SOURCE_PRIORITY.indexOf(source);
+  return rank < 0 ? SOURCE_PRIORITY.length : rank;
+};
+
+// Groups listings of the same event, canonical listing first; input order breaks ties
+const groupDuplicates = <T extends Hackathon>(hackathons: T[]): T[][] => {
+  const tokens = hackathons.map(h => nameTokens(h.name || ''));
+  const parent = hackathons.map((_, i) => i);
+  const root = (i: number): number => (parent[i] === i ? i : (parent[i] = root(parent[i])));
+
+  for (let i = 0; i < hackathons.length; i++) {
+    for (let j = i + 1; j < hackathons.length; j++) {
+      if (root(i) !== root(j) && sameName(tokens[i], tokens[j]) && datesOverlap(hackathons[i], hackathons[j]) && samePlace(hackathons[i], hackathons[j])) {
+        parent[root(j)] = root(i);
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  hackathons.forEach((_, i) => groups.set(root(i), [...(groups.get(root(i)) || []), i]));
+
+  return Array.from(groups.values()).map(members =>
+    members
+      .sort((a, b) => completeness(hackathons[b]) - completeness(hackathons[a]) || sourceRank(hackathons[a].source) - sourceRank(hackathons[b].source) || a - b)
+      .map(i => hackathons[i])
+  );
+};
+
+const sourceLinks = (group: Hackathon[]): SourceLink[] => group.map(h => ({ source: h.source, link: h.link }));
+
+// One record per event, each carrying the links of every listing it was found on
+const dedupeHackathons = (hackathons: Hackathon[]): Hackathon[] =>
+  groupDuplicates(hackathons).map(group => (group.length > 1 ? { ...group[0], sourceLinks: sourceLinks(group) } : group[0]));
+
+// Marks duplicate rows across everything saved so far; deleted rows take no part
+const markDuplicateHackathons = async () => {
+  const rows = await dbAll<HackathonRow>('SELECT * FROM hackathons WHERE deleted_at IS NULL ORDER BY id');
+  const current = new Map(rows.map(row => [row.id, row]));
+  const groups = groupDuplicates(rows.map(HackathonRepo.fromRow));
+  let changed = 0;
+
+  for (const [canonical, ...duplicates] of groups) {
+    const updates: [number, Partial<StoredHackathon>][] = [
+      [canonical.id, { duplicateOf: undefined, sourceLinks: duplicates.length > 0 ? sourceLinks([canonical, ...duplicates]) : undefined }],
+      ...duplicates.map((h): [number, Partial<StoredHackathon>] => [h.id, { duplicateOf: canonical.id, sourceLinks: undefined }])
+    ];
+
+    for (const [id, changes] of updates) {
+      const row = current.get(id)!;
+      const values = HackathonRepo.toRow(changes);
+      if (row.duplicate_of === values.duplicate_of && row.source_links === values.source_links) continue;
+      await HackathonRepo.update(id, changes);
+      changed++;
+    }
+  }
+
+  if (changed > 0) console.log(`Deduplicated ${rows.length} hackathon listings into ${groups.length} events`);
+};
+
+export { dedupeHackathons, markDuplicateHackathons };
@@ -0,0 +1,189 @@
+import { dbAll, dbRun } from './database';
+import { getSource, HealthField, SourceStats } from './sources';
+
+/**
+ * Scraper health
+ *
+ * After every scrape each source's SourceStats (elements its selectors
+ * matched, records emitted, how many had a name/date/location, errors) are
+ * stored in `source_health`. They are compared with the average of the
+ * source's last BASELINE_RUNS runs that raised no alerts, so a selector that
+ * stops matching keeps alerting until it is fixed. An alert is raised when:
+ * - the source failed outright
+ * - matched elements or emitted records fall below DROP_RATIO of the baseline
+ * - a field's fill rate falls by FILL_DROP or more
+ * - errors exceed ERROR_ALLOWANCE and twice the baseline
+ */
+
+export interface HealthAlert {
+  source: string;
+  metric: string;
+  message: string;
+}
+
+export interface SourceHealthRecord {
+  id: number;
+  runId?: string;
+  source: string;
+  recordedAt: string;
+  pages: number;
+  matched: number;
+  parsed: number;
+  items: number;
+  fillRates: Record<HealthField, number | null>;
+  errorCount: number;
+  errors: string[];
+  failed?: string;
+  alerts: HealthAlert[];
+}
+
+interface Baseline {
+  runs: number;
+  matched: number;
+  items: number;
+  errorCount: number;
+  fillRates: Record<HealthField, number | null>;
+}
+
+const BASELINE_RUNS = 5;
+const DROP_RATIO = 0.5;
+const FILL_DROP = 0.3;
+const ERROR_ALLOWANCE = 2;
+const MAX_STORED_ERRORS = 20;
+const HEALTH_FIELDS: HealthField[] = ['name', 'date', 'location'];
+
+const toRecord = (row: any): SourceHealthRecord => ({
+  id: row.id,
+  runId: row.run_id || undefined,
+  source: row.source,
+  recordedAt: row.recorded_at,
+  pages: row.pages,
+  matched: row.matched,
+  parsed: row.parsed,
+  items: row.items,
+  fillRates: { name: row.name_fill, date: row.date_fill, location: row.location_fill },
+  errorCount: row.error_count,
+  errors: JSON.parse(row.errors || '[]'),
+  failed: row.failed || undefined,
+  alerts: JSON.parse(row.alerts || '[]')
+});
+
+const average = (values: (number | null)[]): number | null => {
+  const known = values.filter((value): value is number => value !== null);
+  return known.length > 0 ? known.reduce((sum, value) => sum + value, 0) / known.length : null;
+};
+
+const baselineOf = (records: SourceHealthRecord[]): Baseline => ({
+  runs: records.length,
+  matched: average(records.map(r => r.matched)) ?? 0,
+  items: average(records.map(r => r.items)) ?? 0,
+  errorCount: average(records.map(r => r.errorCount)) ?? 0,
+  fillRates: {
+    name: average(records.map(r => r.fillRates.name)),
+    date: average(records.map(r => r.fillRates.date)),
+    location: average(records.map(r => r.fillRates.location))
+  }
+});
+
+// The source's recent runs without alerts, newest first
+const healthyRuns = async (source: string, beforeId = Number.MAX_SAFE_INTEGER) =>
+  (await dbAll(
+    `SELECT * FROM source_health WHERE source = ? AND id < ? AND alerts = '[]' ORDER BY id DESC LIMIT ?`,
+    [source, beforeId, BASELINE_RUNS]
+  )).map(toRecord);
+
+const fillRate = (stats: SourceStats, field: HealthField): number | null =>
+  stats.parsed > 0 ? Math.round((stats.filled[field] / stats.parsed) * 100) / 100 : null;
+
+const percent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+const detectAlerts = (source: string, record: Omit<SourceHealthRecord, 'id' | 'alerts'>, baseline: Baseline): HealthAlert[] => {
+  const alerts: HealthAlert[] = [];
+  const alert = (metric: string, message: string) => alerts.push({ source, metric, message });
+
+  if (record.failed) alert('failed', `Source failed: ${record.failed}`);
+  if (baseline.runs === 0) return alerts;
+
+  if (baseline.matched > 0 && record.matched === 0) {
+    alert('matched', `Selectors matched no elements (baseline ${Math.round(baseline.matched)})`);
+  } else if (record.matched < baseline.matched * DROP_RATIO) {
+    alert('matched', `Matched elements fell to ${record.matched} from a baseline of ${Math.round(baseline.matched)}`);
+  }
+  if (record.items < baseline.items * DROP_RATIO) {
+    alert('items', `Records emitted fell to ${record.items} from a baseline of ${Math.round(baseline.items)}`);
+  }
+  for (const field of HEALTH_FIELDS) {
+    const rate = record.fillRates[field];
+    const usual = baseline.fillRates[field];
+    if (rate !== null && usual !== null && usual - rate >= FILL_DROP) {
+      alert(`${field}_fill`, `${field} filled on ${percent(rate)} of records, down from ${percent(usual)}`);
+    }
+  }
+  if (record.errorCount > Math.max(ERROR_ALLOWANCE, baseline.errorCount * 2)) {
+    alert('errors', `${record.errorCount} errors, against a baseline of ${Math.round(baseline.errorCount)}`);
+  }
+  return alerts;
+};
+
+// Stores one run's stats per source and returns the alerts they raised
+const recordSourceHealth = async (stats: Map<string, SourceStats>, runId?: string): Promise<HealthAlert[]> => {
+  const raised: HealthAlert[] = [];
+
+  for (const [source, sourceStats] of stats) {
+    const record = {
+      runId,
+      source,
+      recordedAt: new Date().toISOString(),
+      pages: sourceStats.pages,
+      matched: sourceStats.matched,
+      parsed: sourceStats.parsed,
+      items: sourceStats.items,
+      fillRates: {
+        name: fillRate(sourceStats, 'name'),
+        date: getSource(source).kind === 'hackathon' ? fillRate(sourceStats, 'date') : null,
+        location: fillRate(sourceStats, 'location')
+      },
+      errorCount: sourceStats.errors.length,
+      errors: sourceStats.errors.slice(0, MAX_STORED_ERRORS),
+      failed: sourceStats.failed
+    };
+    const alerts = detectAlerts(source, record, baselineOf(await healthyRuns(source)));
+
+    await dbRun(
+      `INSERT INTO source_health (run_id, source, pages, matched, parsed, items, name_fill, date_fill, location_fill, error_count, errors, failed, alerts, recorded_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        runId, source, record.pages, record.matched, record.parsed, record.items,
+        record.fillRates.name, record.fillRates.date, record.fillRates.location,
+        record.errorCount, JSON.stringify(record.errors), record.failed, JSON.stringify(alerts), record.recordedAt
+      ]
+    );
+
+    for (const alert of alerts) console.error(`Health alert for ${source}: ${alert.message}`);
+    raised.push(...alerts);
+  }
+
+  return raised;
+};
+
+// Latest run, baseline and recent history per source
+const getSourcesHealth = async ({ source, runs = 10 }: { source?: string; runs?: number } = {}) => {
+  const sources: string[] = source
+    ? [source]
+    : (await dbAll('SELECT DISTINCT source FROM source_health ORDER BY source')).map(row => row.source);
+
+  return Promise.all(sources.map(async name => {
+    const history = (await dbAll('SELECT * FROM source_health WHERE source = ? ORDER BY id DESC LIMIT ?', [name, runs])).map(toRecord);
+    const latest = history[0];
+    const baseline = latest ? baselineOf(await healthyRuns(name, latest.id)) : undefined;
+    return {
+      source: name,
+      status: !latest ? 'unknown' : latest.alerts.length > 0 ? 'alert' : 'ok',
+      latest,
+      baseline,
+      history
+    };
+  }));
+};
+
+export { recordSourceHealth, getSourcesHealth };
@@ -0,0 +1,142 @@
+import { dbAll, dbReady, dbRun } from './database';
+
+/**
+ * Record history
+ *
+ * Rescrapes update hackathon and company rows in place, so ids stay put, and
+ * every tracked field that changed is logged to `record_changes` with the
+ * scrape run and time. A change is one of:
+ * - created: the row was first saved
+ * - updated: `field` went from old_value to new_value
+ * - disappeared / reappeared: a listing of the record dropped off its source
+ *   or came back (./fingerprints.ts decides which); `field` holds the source
+ * Values are stored as JSON, so list fields come back as lists. Manual edits
+ * (./curation.ts) are logged the same way with the `actor` who made them, and
+ * log every column they change; those rows make up the audit log.
+ */
+
+export type HistoryEntity = 'hackathon' | 'company';
+export type ChangeKind = 'created' | 'updated' | 'disappeared' | 'reappeared';
+
+export interface RecordChange {
+  id: number;
+  entity: HistoryEntity;
+  entityId: number;
+  name?: string;
+  runId?: string;
+  actor?: string;
+  change: ChangeKind;
+  field?: string;
+  oldValue?: any;
+  newValue?: any;
+  changedAt: string;
+}
+
+// Compared on every save; the place columns follow location, and duplicate links are rebuilt each run
+const TRACKED_COLUMNS: Record<HistoryEntity, string[]> = {
+  hackathon: [
+    'sponsors', 'contacts', 'yc_backed', 'funding_interest', 'location', 'date', 'start_date', 'end_date', 'timezone',
+    'description', 'prizes', 'participants', 'is_online', 'organizer'
+  ],
+  company: ['name', 'link', 'industry', 'location', 'funding_stage', 'employees', 'description', 'yc_backed', 'funding_interest', 'domain', 'sources']
+};
+// Already stored as JSON strings
+const JSON_COLUMNS = ['sponsors', 'contacts', 'funding_interest', 'prizes', 'sources', 'locked_fields'];
+const MAX_CHANGES = 1000;
+
+const encode = (column: string, value: any): string | null =>
+  value === null || value === undefined ? null : JSON_COLUMNS.includes(column) ? String(value) : JSON.stringify(value);
+
+const decode = (value: string | null) => (value === null ? undefined : JSON.parse(value));
+
+const toChange = (row: any): RecordChange => ({
+  id: row.id,
+  entity: row.entity,
+  entityId: row.entity_id,
+  name: row.name ?? undefined,
+  runId: row.run_id || undefined,
+  actor: row.actor || undefined,
+  change: row.change,
+  field: row.field || undefined,
+  oldValue: decode(row.old_value),
+  newValue: decode(row.new_value),
+  changedAt: row.changed_at
+});
+
+const insertChange = (
+  entity: HistoryEntity,
+  entityId: number,
+  change: ChangeKind,
+  runId?: string,
+  field?: string,
+  oldValue: string | null = null,
+  newValue: string | null = null,
+  actor?: string
+) =>
+  dbRun(
+    'INSERT INTO record_changes (entity, entity_id, run_id, actor, change, field, old_value, new_value, changed_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+    [entity, entityId, runId, actor, change, field, oldValue, newValue, new Date().toISOString()]
+  );
+
+const recordCreated = (entity: HistoryEntity, entityId: number, runId?: string, actor?: string) =>
+  insertChange(entity, entityId, 'created', runId, undefined, null, null, actor);
+
+// Logs each tracked column (any column, for a manual edit) whose value in `after` differs from the stored row; returns the changed columns
+const recordUpdates = async (entity: HistoryEntity, entityId: number, before: Record<string, any>, after: Record<string, any>, runId?: string, actor?: string) => {
+  const columns = actor ? Object.keys(after) : TRACKED_COLUMNS[entity];
+  const changed = columns.filter(column => column in after && encode(column, before[column]) !== encode(column, after[column]));
+  for (const column of changed) {
+    await insertChange(entity, entityId, 'updated', runId, column, encode(column, before[column]), encode(column, after[column]), actor);
+  }
+  return changed;
+};
+
+// A listing (source + link, or name when it has none) dropped off its source or came back
+const recordListingChange = async (source: string, url: string, change: 'disappeared' | 'reappeared', runId?: string) => {
+  const hackathons = await dbAll(`SELECT id FROM hackathons WHERE source = ? AND (link = ? OR (COALESCE(link, '') = '' AND name = ?))`, [source, url, url]);
+  const companies = await dbAll('SELECT DISTINCT company_id AS id FROM company_sources WHERE source = ? AND link = ?', [source, url]);
+  for (const row of hackathons) await insertChange('hackathon', row.id, change, runId, source);
+  for (const row of companies) await insertChange('company', row.id, change, runId, source);
+};
+
+const getRecordHistory = async (entity: HistoryEntity, entityId: number): Promise<RecordChange[]> =>
+  (await dbAll('SELECT * FROM record_changes WHERE entity = ? AND entity_id = ? ORDER BY id', [entity, entityId])).map(toChange);
+
+interface ChangeQuery {
+  since?: string;
+  entity?: HistoryEntity;
+  manual?: boolean; // Only changes made by hand
+  actor?: string;
+  limit?: number;
+}
+
+// Changes at or after `since`, oldest first, with the record's current name
+const getChanges = async ({ since, entity, manual, actor, limit = 100 }: ChangeQuery): Promise<RecordChange[]> => {
+  await dbReady;
+  const where: string[] = [];
+  const params: any[] = [];
+  if (since) {
+    where.push('c.changed_at >= ?');
+    params.push(since);
+  }
+  if (entity) {
+    where.push('c.entity = ?');
+    params.push(entity);
+  }
+  if (manual) where.push('c.actor IS NOT NULL');
+  if (actor) {
+    where.push('c.actor = ?');
+    params.push(actor);
+  }
+  const rows = await dbAll(
+    `SELECT c.*, COALESCE(h.name, co.name) AS name FROM record_changes c
+     LEFT JOIN hackathons h ON c.entity = 'hackathon' AND h.id = c.entity_id
+     LEFT JOIN companies co ON c.entity = 'company' AND co.id = c.entity_id
+     ${where.length > 0 ? `WHERE ${where.join(' AND ')}` : ''}
+     ORDER BY c.id LIMIT ?`,
+    [...params, Math.min(limit, MAX_CHANGES)]
+  );
+  return rows.map(toChange);
+};
+
+export { recordCreated, recordUpdates, recordListingChange, getRecordHistory, getChanges };
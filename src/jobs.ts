@@ -0,0 +1,242 @@
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { dbAll, dbGet, dbRun } from './database';
+import { createScrapeEvents, emitScrapeEvent, ScrapeEvent, ScrapeEventRecord } from './events';
+import { scrapeAllSources } from './scraper';
+import { resolveSources, ScrapeFilters, SourceProgress } from './sources';
+
+/**
+ * Background scrape jobs
+ *
+ * `POST /api/scrape` starts a job and returns straight away. The job runs
+ * `scrapeAllSources` in the background, tracking per-source status, and every
+ * change is written to the `scrape_runs` table so history survives restarts.
+ * Cancelling a job aborts its in-flight requests; a cancelled run saves nothing,
+ * as its results are saved in one transaction that rolls back on cancel. A
+ * cancel that arrives once that transaction has committed is too late, and the
+ * run is reported as completed.
+ *
+ * While a job runs, its pipeline events are kept in memory (the most recent
+ * MAX_BUFFERED_EVENTS) so a subscriber that connects late can catch up.
+ */
+
+const MAX_BUFFERED_EVENTS = 1000;
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface ScrapeJob {
+  id: string;
+  status: JobStatus;
+  filters: ScrapeFilters;
+  sources: Record<string, SourceProgress>;
+  hackathonCount: number;
+  companyCount: number;
+  error?: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+type EventListener = (event: ScrapeEventRecord) => void;
+
+interface ActiveJob {
+  job: ScrapeJob;
+  controller: AbortController;
+  saving: Promise<void>;
+  events: EventEmitter;
+  buffer: ScrapeEventRecord[];
+  listeners: Set<EventListener>;
+  nextEventId: number;
+}
+
+const active = new Map<string, ActiveJob>();
+
+const toJob = (row: any): ScrapeJob => ({
+  id: row.id,
+  status: row.status,
+  filters: JSON.parse(row.filters || '{}'),
+  sources: JSON.parse(row.sources || '{}'),
+  hackathonCount: row.hackathon_count,
+  companyCount: row.company_count,
+  error: row.error || undefined,
+  createdAt: row.created_at,
+  startedAt: row.started_at || undefined,
+  finishedAt: row.finished_at || undefined
+});
+
+const writeJob = (job: ScrapeJob) =>
+  dbRun(
+    `INSERT OR REPLACE INTO scrape_runs (id, status, filters, sources, hackathon_count, company_count, error, created_at, started_at, finished_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [job.id, job.status, JSON.stringify(job.filters), JSON.stringify(job.sources), job.hackathonCount, job.companyCount, job.error, job.createdAt, job.startedAt, job.finishedAt]
+  );
+
+// Writes are chained per job so a slow write can't overwrite a newer state
+const persist = (entry: ActiveJob) => {
+  const snapshot = { ...entry.job, sources: { ...entry.job.sources } };
+  entry.saving = entry.saving
+    .then(() => writeJob(snapshot))
+    .then(() => undefined)
+    .catch(error => console.error(`Error saving scrape run ${snapshot.id}:`, error));
+  return entry.saving;
+};
+
+const progressOf = (job: ScrapeJob) => {
+  const statuses = Object.values(job.sources);
+  return {
+    total: statuses.length,
+    finished: statuses.filter(s => s.status !== 'pending' && s.status !== 'running').length
+  };
+};
+
+const serializeJob = (job: ScrapeJob) => ({ ...job, progress: progressOf(job) });
+
+const SOURCE_STATUSES: Partial<Record<ScrapeEvent['type'], SourceProgress['status']>> = {
+  'source:started': 'running',
+  'source:completed': 'completed',
+  'source:failed': 'failed',
+  'source:cancelled': 'cancelled'
+};
+
+const recordEvent = (entry: ActiveJob, event: ScrapeEvent) => {
+  const record: ScrapeEventRecord = { ...event, id: entry.nextEventId++, at: new Date().toISOString() };
+  entry.buffer.push(record);
+  if (entry.buffer.length > MAX_BUFFERED_EVENTS) entry.buffer.shift();
+  for (const listener of entry.listeners) listener(record);
+
+  const status = SOURCE_STATUSES[event.type];
+  if (status && 'source' in event && event.source && entry.job.status === 'running') {
+    entry.job.sources[event.source] = {
+      status,
+      count: 'count' in event ? event.count : undefined,
+      error: 'error' in event ? event.error : undefined
+    };
+    persist(entry);
+  }
+};
+
+const execute = async (entry: ActiveJob, sourceNames?: string[]) => {
+  const { job, controller } = entry;
+  job.status = 'running';
+  job.startedAt = new Date().toISOString();
+  persist(entry);
+
+  try {
+    const result = await scrapeAllSources(job.filters, sourceNames, { signal: controller.signal, events: entry.events, runId: job.id });
+    for (const [name, changes] of Object.entries(result.changes)) {
+      if (job.sources[name]) job.sources[name] = { ...job.sources[name], changes };
+    }
+    job.status = 'completed';
+    job.hackathonCount = result.hackathons.length;
+    job.companyCount = result.companies.length;
+  } catch (error) {
+    if (controller.signal.aborted) {
+      job.status = 'cancelled';
+    } else {
+      job.status = 'failed';
+      job.error = (error as Error).message;
+      console.error(`Scrape job ${job.id} failed:`, error);
+    }
+  }
+
+  job.finishedAt = new Date().toISOString();
+  await persist(entry);
+  emitScrapeEvent(entry.events, {
+    type: 'run:completed',
+    status: job.status,
+    hackathonCount: job.hackathonCount,
+    companyCount: job.companyCount,
+    error: job.error
+  });
+  active.delete(job.id);
+  entry.listeners.clear();
+};
+
+const startScrapeJob = async (filters: ScrapeFilters, sourceNames?: string[]): Promise<ScrapeJob> => {
+  const job: ScrapeJob = {
+    id: randomUUID(),
+    status: 'queued',
+    filters,
+    sources: Object.fromEntries(resolveSources(undefined, sourceNames).map(name => [name, { status: 'pending' }])),
+    hackathonCount: 0,
+    companyCount: 0,
+    createdAt: new Date().toISOString()
+  };
+
+  const entry: ActiveJob = {
+    job,
+    controller: new AbortController(),
+    saving: Promise.resolve(),
+    events: createScrapeEvents(),
+    buffer: [],
+    listeners: new Set(),
+    nextEventId: 1
+  };
+  entry.events.on('event', (event: ScrapeEvent) => recordEvent(entry, event));
+  active.set(job.id, entry);
+  await persist(entry);
+
+  execute(entry, sourceNames).catch(error => console.error(`Scrape job ${job.id} crashed:`, error));
+  return job;
+};
+
+const getScrapeJob = async (id: string) => {
+  const running = active.get(id);
+  if (running) return serializeJob(running.job);
+
+  const row = await dbGet('SELECT * FROM scrape_runs WHERE id = ?', [id]);
+  return row ? serializeJob(toJob(row)) : undefined;
+};
+
+const listScrapeJobs = async (limit = 20) => {
+  const rows = await dbAll('SELECT * FROM scrape_runs ORDER BY created_at DESC LIMIT ?', [limit]);
+  return rows.map(row => serializeJob(active.get(row.id)?.job || toJob(row)));
+};
+
+const isJobActive = (id: string) => active.has(id);
+
+/**
+ * Replays buffered events newer than `afterId`, then calls `listener` for each
+ * new event until the run completes. Returns an unsubscribe function, or
+ * undefined when the job isn't running in this process.
+ */
+const subscribeToScrapeJob = (id: string, afterId: number, listener: EventListener): (() => void) | undefined => {
+  const entry = active.get(id);
+  if (!entry) return undefined;
+
+  for (const record of entry.buffer) {
+    if (record.id > afterId) listener(record);
+  }
+  entry.listeners.add(listener);
+  return () => entry.listeners.delete(listener);
+};
+
+// Returns false when the job isn't running in this process
+const cancelScrapeJob = (id: string): boolean => {
+  const entry = active.get(id);
+  if (!entry) return false;
+
+  entry.controller.abort();
+  entry.job.status = 'cancelled';
+  for (const [name, progress] of Object.entries(entry.job.sources)) {
+    if (progress.status === 'pending' || progress.status === 'running') entry.job.sources[name] = { status: 'cancelled' };
+  }
+  persist(entry);
+  return true;
+};
+
+// Runs left unfinished by a previous process can never complete
+const recoverInterruptedJobs = () =>
+  dbRun(
+    `UPDATE scrape_runs SET status = 'failed', error = 'Interrupted by server restart', finished_at = ? WHERE status IN ('queued', 'running')`,
+    [new Date().toISOString()]
+  );
+
+export {
+  startScrapeJob,
+  getScrapeJob,
+  listScrapeJobs,
+  isJobActive,
+  subscribeToScrapeJob,
+  cancelScrapeJob,
+  recoverInterruptedJobs
+};
@@ -0,0 +1,111 @@
+import { dbAll, dbReady, dbRun } from './database';
+import { CITIES, COUNTRIES, GazetteerCity, GazetteerCountry } from './gazetteer';
+import { foldText } from './text';
+
+/**
+ * Location normalization
+ *
+ * Resolves free-form location text (Eventbrite slugs, Devpost venue lines,
+ * "Various", seeded city names) against the bundled gazetteer into a
+ * canonical city, region, country and coordinates. Online and virtual events
+ * are flagged explicitly; a hybrid event ("Berlin + Online") gets both.
+ * Text that names no known place resolves to nothing rather than a guess.
+ */
+
+export interface ResolvedLocation {
+  city?: string;
+  region?: string;
+  country?: string; // ISO 3166-1 alpha-2
+  latitude?: number;
+  longitude?: number;
+  online: boolean;
+}
+
+const ONLINE_PATTERN = /\b(online|virtual|remote|worldwide|anywhere|livestream|zoom)\b/i;
+const EARTH_RADIUS_KM = 6371;
+
+// Lowercase, no accents, punctuation and slug dashes as spaces, padded for whole-word matching
+const normalize = (text: string) =>
+  ` ${foldText(text).replace(/[^a-z0-9]+/g, ' ').trim()} `;
+
+const cityKeys = CITIES.flatMap(city => [city.city, ...(city.aliases || [])].map(key => ({ key: normalize(key), value: city })));
+const countryKeys = COUNTRIES.flatMap(country => [country.name, ...(country.aliases || [])].map(key => ({ key: normalize(key), value: country })));
+
+// The earliest mention in the text wins ("Seattle, Washington"), then the longest ("New York City")
+const findEarliest = <T>(text: string, keys: { key: string; value: T }[]): T | undefined => {
+  let best: { index: number; length: number; value: T } | undefined;
+  for (const { key, value } of keys) {
+    const index = text.indexOf(key);
+    if (index < 0) continue;
+    if (!best || index < best.index || (index === best.index && key.length > best.length)) {
+      best = { index, length: key.length, value };
+    }
+  }
+  return best?.value;
+};
+
+const findCity = (text: string): GazetteerCity | undefined => findEarliest(text, cityKeys);
+
+const findCountry = (text: string): GazetteerCountry | undefined => findEarliest(text, countryKeys);
+
+// Accepts an ISO code or a country name/alias
+const resolveCountry = (value: string): string | undefined => {
+  const code = COUNTRIES.find(country => country.code === value.trim().toUpperCase());
+  return code?.code ?? findCountry(normalize(value))?.code;
+};
+
+const resolveLocation = (raw: string | undefined): ResolvedLocation | undefined => {
+  if (!raw || !raw.trim()) return undefined;
+
+  const text = normalize(raw);
+  const online = ONLINE_PATTERN.test(raw);
+  const city = findCity(text);
+
+  if (city) {
+    return { city: city.city, region: city.region, country: city.country, latitude: city.lat, longitude: city.lon, online };
+  }
+
+  const country = findCountry(text);
+  if (country) return { country: country.code, online };
+
+  return online ? { online } : undefined;
+};
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+const distanceKm = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+// A lat/lon box enclosing the circle, for narrowing SQL queries before the exact distance check
+const boundingBox = (lat: number, lon: number, radiusKm: number) => {
+  const dLat = (radiusKm / EARTH_RADIUS_KM) * (180 / Math.PI);
+  const dLon = dLat / Math.max(Math.cos(toRadians(lat)), 0.01);
+  return { minLat: lat - dLat, maxLat: lat + dLat, minLon: lon - dLon, maxLon: lon + dLon };
+};
+
+// Fills location columns for rows saved before normalization existed
+const backfillLocations = async () => {
+  await dbReady;
+  let updated = 0;
+
+  for (const table of ['hackathons', 'companies']) {
+    const rows = await dbAll(`SELECT id, location FROM ${table} WHERE city IS NULL AND country IS NULL AND location IS NOT NULL AND location != ''`);
+    for (const row of rows) {
+      const resolved = resolveLocation(row.location);
+      if (!resolved) continue;
+      const onlineColumn = table === 'hackathons' ? ', is_online = ?' : '';
+      const params: any[] = [resolved.city, resolved.region, resolved.country, resolved.latitude, resolved.longitude];
+      if (onlineColumn) params.push(resolved.online ? 1 : 0);
+      await dbRun(`UPDATE ${table} SET city = ?, region = ?, country = ?, latitude = ?, longitude = ?${onlineColumn} WHERE id = ?`, [...params, row.id]);
+      updated++;
+    }
+  }
+
+  if (updated > 0) console.log(`Normalized locations for ${updated} records`);
+};
+
+export { resolveLocation, resolveCountry, distanceKm, boundingBox, backfillLocations };
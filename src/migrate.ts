@@ -0,0 +1,37 @@
+/**
+ * Migration CLI
+ *
+ *   npx ts-node src/migrate.ts status         list migrations and when each was applied
+ *   npx ts-node src/migrate.ts up             apply pending migrations
+ *   npx ts-node src/migrate.ts backup [file]  copy the database (default backups/ next to it)
+ */
+
+// Opening the database would otherwise migrate it before the command runs
+process.env.SCRAPATHON_AUTO_MIGRATE = '0';
+const { db, migrate, migrationStatus, backupDatabase } = require('./database');
+
+const main = async () => {
+  const [command = 'status', arg] = process.argv.slice(2);
+
+  if (command === 'status') {
+    for (const { version, name, appliedAt } of await migrationStatus()) {
+      console.log(`${String(version).padStart(4)}  ${name.padEnd(24)}  ${appliedAt || 'pending'}`);
+    }
+  } else if (command === 'up') {
+    const applied = await migrate();
+    console.log(applied.length > 0 ? `Applied ${applied.length} migration(s)` : 'Database is up to date');
+  } else if (command === 'backup') {
+    console.log(`Backed up database to ${await backupDatabase(arg)}`);
+  } else {
+    throw new Error(`Unknown command "${command}" (expected status, up or backup)`);
+  }
+};
+
+main()
+  .catch(error => {
+    console.error(error.message);
+    process.exitCode = 1;
+  })
+  .finally(() => db.close());
+
+export { main };
@@ -0,0 +1,505 @@
+/**
+ * Schema migrations
+ *
+ * The database schema is the ordered list below. ./database.ts applies every
+ * migration newer than the last one recorded in `schema_migrations` at
+ * startup, each in its own transaction; `npx ts-node src/migrate.ts` runs them
+ * by hand, shows their status and backs the database up.
+ *
+ * To change the schema, append a migration with the next version; never edit
+ * one that has shipped. Migrations up to 6 also describe databases created
+ * before migrations existed, so their tables use IF NOT EXISTS and their
+ * columns go through addColumn, which skips columns that are already there.
+ */
+
+export interface MigrationContext {
+  run: (sql: string) => Promise<void>;
+  addColumn: (table: string, definition: string) => Promise<void>; // No-op when the column exists
+}
+
+// Plain text of a JSON list column, for the search index
+const listText = (column: string) =>
+  `(SELECT group_concat(value, ', ') FROM json_each(CASE WHEN json_valid(${column}) THEN ${column} ELSE '[]' END))`;
+
+// An FTS5 table over `table`'s text columns, keyed by its ids and kept in step by triggers
+const searchIndex = async (run: MigrationContext['run'], table: string, index: string, columns: string[], lists: string[]) => {
+  const values = (row: string) => columns.map(column => (lists.includes(column) ? listText(`${row}.${column}`) : `${row}.${column}`)).join(', ');
+  await run(`CREATE VIRTUAL TABLE IF NOT EXISTS ${index} USING fts5(${columns.join(', ')}, tokenize = 'porter unicode61 remove_diacritics 2')`);
+  await run(`DELETE FROM ${index}`);
+  await run(`INSERT INTO ${index} (rowid, ${columns.join(', ')}) SELECT id, ${values(table)} FROM ${table}`);
+  await run(`
+    CREATE TRIGGER IF NOT EXISTS ${index}_insert AFTER INSERT ON ${table} BEGIN
+      INSERT INTO ${index} (rowid, ${columns.join(', ')}) VALUES (new.id, ${values('new')});
+    END
+  `);
+  await run(`
+    CREATE TRIGGER IF NOT EXISTS ${index}_update AFTER UPDATE OF ${columns.join(', ')} ON ${table} BEGIN
+      DELETE FROM ${index} WHERE rowid = old.id;
+      INSERT INTO ${index} (rowid, ${columns.join(', ')}) VALUES (new.id, ${values('new')});
+    END
+  `);
+  await run(`
+    CREATE TRIGGER IF NOT EXISTS ${index}_delete AFTER DELETE ON ${table} BEGIN
+      DELETE FROM ${index} WHERE rowid = old.id;
+    END
+  `);
+};
+
+// Recreates `table` with new columns and constraints, as SQLite can't change constraints in place. Rows keep their ids
+// and deleted ids stay unused; the caller recreates the table's indexes and triggers
+const rebuildTable = async (run: MigrationContext['run'], table: string, definition: string, columns: string[]) => {
+  await run(`CREATE TABLE ${table}_new (${definition})`);
+  await run(`INSERT INTO ${table}_new (${columns.join(', ')}) SELECT ${columns.join(', ')} FROM ${table}`);
+  await run(`DELETE FROM sqlite_sequence WHERE name = '${table}_new'`);
+  await run(`INSERT INTO sqlite_sequence (name, seq) SELECT '${table}_new', seq FROM sqlite_sequence WHERE name = '${table}'`);
+  await run(`DROP TABLE ${table}`);
+  await run(`ALTER TABLE ${table}_new RENAME TO ${table}`);
+};
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: (context: MigrationContext) => Promise<void>;
+}
+
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'baseline',
+    up: async ({ run, addColumn }) => {
+      await run(`
+        CREATE TABLE IF NOT EXISTS hackathons (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          link TEXT,
+          sponsors TEXT, -- JSON string
+          contacts TEXT, -- JSON string
+          yc_backed BOOLEAN DEFAULT 0,
+          funding_interest TEXT, -- JSON string
+          location TEXT,
+          date TEXT,
+          source TEXT,
+          description TEXT,
+          prizes TEXT, -- JSON string
+          participants INTEGER,
+          start_date TEXT, -- ISO 8601 with UTC offset, parsed from date
+          end_date TEXT, -- ISO 8601 with UTC offset, parsed from date
+          timezone TEXT, -- Timezone as written on the page; NULL when assumed UTC
+          city TEXT, -- Canonical place resolved from location
+          region TEXT,
+          country TEXT, -- ISO 3166-1 alpha-2
+          latitude REAL,
+          longitude REAL,
+          is_online BOOLEAN, -- NULL when location couldn't be resolved
+          duplicate_of INTEGER, -- Canonical hackathons.id when another listing of the same event is kept instead
+          source_links TEXT, -- JSON string on canonical rows: source and link of every listing of the event
+          UNIQUE(name, source, link) ON CONFLICT REPLACE
+        )
+      `);
+
+      await addColumn('hackathons', 'start_date TEXT');
+      await addColumn('hackathons', 'end_date TEXT');
+      await addColumn('hackathons', 'timezone TEXT');
+      await run('CREATE INDEX IF NOT EXISTS idx_hackathons_start_date ON hackathons(start_date)');
+
+      await run(`
+        CREATE TABLE IF NOT EXISTS companies (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          link TEXT,
+          yc_backed BOOLEAN DEFAULT 0,
+          funding_interest TEXT, -- JSON string
+          industry TEXT,
+          location TEXT,
+          source TEXT,
+          description TEXT,
+          funding_stage TEXT,
+          employees TEXT,
+          city TEXT, -- Canonical place resolved from location
+          region TEXT,
+          country TEXT, -- ISO 3166-1 alpha-2
+          latitude REAL,
+          longitude REAL,
+          domain TEXT, -- Company website domain, when any source links to it
+          sources TEXT, -- JSON string: every source that lists this company
+          provenance TEXT, -- JSON string: field -> source the merged value came from
+          stub BOOLEAN DEFAULT 0, -- Created from a sponsor name no source lists yet
+          UNIQUE(name, source, link) ON CONFLICT REPLACE
+        )
+      `);
+
+      for (const column of ['domain TEXT', 'sources TEXT', 'provenance TEXT', 'stub BOOLEAN DEFAULT 0']) await addColumn('companies', column);
+      await run('CREATE INDEX IF NOT EXISTS idx_companies_domain ON companies(domain)');
+
+      // One row per company per source, as scraped; companies holds the merged entity
+      await run(`
+        CREATE TABLE IF NOT EXISTS company_sources (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          company_id INTEGER NOT NULL, -- companies.id
+          source TEXT NOT NULL,
+          name TEXT NOT NULL,
+          link TEXT NOT NULL,
+          domain TEXT,
+          yc_backed BOOLEAN DEFAULT 0,
+          funding_interest TEXT, -- JSON string
+          industry TEXT,
+          location TEXT,
+          description TEXT,
+          funding_stage TEXT,
+          employees TEXT,
+          first_seen_at TEXT NOT NULL,
+          last_seen_at TEXT NOT NULL,
+          UNIQUE(source, link)
+        )
+      `);
+      await run('CREATE INDEX IF NOT EXISTS idx_company_sources_company ON company_sources(company_id)');
+
+      // Which companies sponsor which hackathon listings, matched from the scraped sponsor names
+      await run(`
+        CREATE TABLE IF NOT EXISTS hackathon_sponsors (
+          hackathon_id INTEGER NOT NULL, -- hackathons.id
+          company_id INTEGER NOT NULL, -- companies.id
+          sponsor_name TEXT NOT NULL, -- As written on the listing
+          PRIMARY KEY (hackathon_id, company_id)
+        )
+      `);
+      await run('CREATE INDEX IF NOT EXISTS idx_hackathon_sponsors_company ON hackathon_sponsors(company_id)');
+
+      for (const table of ['hackathons', 'companies']) {
+        for (const column of ['city TEXT', 'region TEXT', 'country TEXT', 'latitude REAL', 'longitude REAL']) await addColumn(table, column);
+        await run(`CREATE INDEX IF NOT EXISTS idx_${table}_country ON ${table}(country)`);
+        await run(`CREATE INDEX IF NOT EXISTS idx_${table}_coordinates ON ${table}(latitude, longitude)`);
+      }
+      await addColumn('hackathons', 'is_online BOOLEAN');
+      await addColumn('hackathons', 'duplicate_of INTEGER');
+      await addColumn('hackathons', 'source_links TEXT');
+      await run('CREATE INDEX IF NOT EXISTS idx_hackathons_duplicate_of ON hackathons(duplicate_of)');
+
+      await run(`
+        CREATE TABLE IF NOT EXISTS scrape_runs (
+          id TEXT PRIMARY KEY,
+          status TEXT NOT NULL, -- queued, running, completed, failed, cancelled
+          filters TEXT, -- JSON string
+          sources TEXT, -- JSON string: per-source status, count and error
+          hackathon_count INTEGER DEFAULT 0,
+          company_count INTEGER DEFAULT 0,
+          error TEXT,
+          created_at TEXT NOT NULL,
+          started_at TEXT,
+          finished_at TEXT
+        )
+      `);
+
+      await run(`
+        CREATE TABLE IF NOT EXISTS schedules (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          cron TEXT NOT NULL,
+          filters TEXT, -- JSON string: location, date, industry, fundingStage
+          sources TEXT, -- JSON string, NULL runs every enabled source
+          enabled BOOLEAN DEFAULT 1,
+          last_run_id TEXT, -- scrape_runs.id
+          last_run_at TEXT,
+          next_run_at TEXT,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        )
+      `);
+    }
+  },
+  {
+    version: 2,
+    name: 'http_cache',
+    up: async ({ run, addColumn }) => {
+      await run(`
+        CREATE TABLE IF NOT EXISTS http_cache (
+          url TEXT PRIMARY KEY,
+          etag TEXT,
+          last_modified TEXT,
+          body TEXT NOT NULL,
+          fetched_at TEXT NOT NULL
+        )
+      `);
+    }
+  },
+  {
+    version: 3,
+    name: 'source_health',
+    up: async ({ run, addColumn }) => {
+      await run(`
+        CREATE TABLE IF NOT EXISTS source_health (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          run_id TEXT, -- scrape_runs.id, NULL for runs outside the job queue
+          source TEXT NOT NULL,
+          pages INTEGER DEFAULT 0,
+          matched INTEGER DEFAULT 0,
+          parsed INTEGER DEFAULT 0,
+          items INTEGER DEFAULT 0,
+          name_fill REAL, -- Share of parsed records with the field; NULL when nothing parsed
+          date_fill REAL,
+          location_fill REAL,
+          error_count INTEGER DEFAULT 0,
+          errors TEXT, -- JSON string
+          failed TEXT,
+          alerts TEXT, -- JSON string
+          recorded_at TEXT NOT NULL
+        )
+      `);
+      await run('CREATE INDEX IF NOT EXISTS idx_source_health_source ON source_health(source, id)');
+    }
+  },
+  {
+    version: 4,
+    name: 'hackathon_organizer',
+    up: async ({ run, addColumn }) => {
+      await addColumn('hackathons', 'organizer TEXT'); // From schema.org data on the listing or detail page
+    }
+  },
+  {
+    version: 5,
+    name: 'fingerprints',
+    up: async ({ run, addColumn }) => {
+      // One row per listing per source, see ./fingerprints.ts
+      await run(`
+        CREATE TABLE IF NOT EXISTS fingerprints (
+          source TEXT NOT NULL,
+          url TEXT NOT NULL, -- Listing link, or its name when it has none
+          listing_hash TEXT, -- SHA-1 of the listing card's fields when the detail page was last read
+          detail TEXT, -- JSON string: fields read from the detail page
+          detail_hash TEXT, -- SHA-1 of the detail page body
+          detail_checked_at TEXT,
+          record_hash TEXT, -- SHA-1 of the record as last saved
+          first_seen_at TEXT,
+          last_seen_at TEXT,
+          disappeared_at TEXT, -- Set when an unfiltered, error-free run no longer lists it
+          PRIMARY KEY (source, url)
+        )
+      `);
+    }
+  },
+  {
+    version: 6,
+    name: 'record_changes',
+    up: async ({ run, addColumn }) => {
+      // Field-level history of hackathons and companies, see ./history.ts
+      await run(`
+        CREATE TABLE IF NOT EXISTS record_changes (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          entity TEXT NOT NULL, -- hackathon or company
+          entity_id INTEGER NOT NULL, -- hackathons.id or companies.id
+          run_id TEXT, -- scrape_runs.id, NULL outside the job queue
+          change TEXT NOT NULL, -- created, updated, disappeared, reappeared
+          field TEXT, -- Column for updates, source for disappeared/reappeared
+          old_value TEXT, -- JSON
+          new_value TEXT, -- JSON
+          changed_at TEXT NOT NULL
+        )
+      `);
+      await run('CREATE INDEX IF NOT EXISTS idx_record_changes_entity ON record_changes(entity, entity_id)');
+      await run('CREATE INDEX IF NOT EXISTS idx_record_changes_changed_at ON record_changes(changed_at)');
+    }
+  },
+  {
+    version: 7,
+    name: 'search_index',
+    up: async ({ run }) => {
+      // Full-text search, see ./search.ts; list columns are indexed as comma-separated text
+      await searchIndex(run, 'hackathons', 'hackathon_search', ['name', 'description', 'sponsors', 'prizes', 'location', 'organizer'], ['sponsors', 'prizes']);
+      await searchIndex(run, 'companies', 'company_search', ['name', 'description', 'industry', 'location', 'funding_interest'], ['funding_interest']);
+    }
+  },
+  {
+    version: 8,
+    name: 'curation',
+    up: async ({ run, addColumn }) => {
+      // Manual edits, see ./curation.ts; scrapes leave these columns and the locked fields alone
+      for (const table of ['hackathons', 'companies']) {
+        await addColumn(table, 'hidden BOOLEAN DEFAULT 0'); // Kept out of lists and search
+        await addColumn(table, 'deleted_at TEXT'); // Soft delete
+        await addColumn(table, 'locked_fields TEXT'); // JSON string: record fields scrapes must not overwrite
+      }
+      await addColumn('record_changes', 'actor TEXT'); // Who made a manual change; NULL for scrapes
+      await run('CREATE INDEX IF NOT EXISTS idx_record_changes_actor ON record_changes(actor)');
+    }
+  },
+  {
+    version: 9,
+    name: 'outreach',
+    up: async ({ run }) => {
+      // Sponsor outreach, see ./outreach.ts
+      await run(`
+        CREATE TABLE IF NOT EXISTS outreach_campaigns (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL,
+          hackathon_id INTEGER NOT NULL, -- The event sponsors are sought for
+          owner TEXT, -- Default owner of companies added to the campaign
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL
+        )
+      `);
+      await run(`
+        CREATE TABLE IF NOT EXISTS outreach (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          campaign_id INTEGER NOT NULL, -- outreach_campaigns.id
+          company_id INTEGER NOT NULL, -- companies.id
+          stage TEXT NOT NULL, -- identified, contacted, replied, committed, declined
+          owner TEXT,
+          follow_up_at TEXT,
+          stage_changed_at TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          updated_at TEXT NOT NULL,
+          UNIQUE(campaign_id, company_id)
+        )
+      `);
+      await run('CREATE INDEX IF NOT EXISTS idx_outreach_company ON outreach(company_id)');
+      await run('CREATE INDEX IF NOT EXISTS idx_outreach_follow_up ON outreach(follow_up_at)');
+      await run(`
+        CREATE TABLE IF NOT EXISTS outreach_notes (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          outreach_id INTEGER NOT NULL, -- outreach.id
+          author TEXT NOT NULL,
+          body TEXT NOT NULL,
+          created_at TEXT NOT NULL
+        )
+      `);
+      await run(`
+        CREATE TABLE IF NOT EXISTS outreach_stage_changes (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          outreach_id INTEGER NOT NULL, -- outreach.id
+          from_stage TEXT, -- NULL when the company was added
+          to_stage TEXT NOT NULL,
+          actor TEXT NOT NULL,
+          changed_at TEXT NOT NULL
+        )
+      `);
+      await run('CREATE INDEX IF NOT EXISTS idx_outreach_notes_outreach ON outreach_notes(outreach_id)');
+      await run('CREATE INDEX IF NOT EXISTS idx_outreach_stage_changes_outreach ON outreach_stage_changes(outreach_id)');
+    }
+  },
+  {
+    version: 10,
+    name: 'schedule_errors',
+    up: async ({ addColumn }) => {
+      await addColumn('schedules', 'last_error TEXT'); // Why the last run couldn't start; NULL once one does
+    }
+  },
+  {
+    version: 11,
+    name: 'company_source_names',
+    up: async ({ run }) => {
+      // An article can name several companies under one link, so a source record is its source, link and name.
+      // SQLite can't change a table's constraints in place
+      await run(`
+        CREATE TABLE company_sources_new (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          company_id INTEGER NOT NULL, -- companies.id
+          source TEXT NOT NULL,
+          name TEXT NOT NULL,
+          link TEXT NOT NULL,
+          domain TEXT,
+          yc_backed BOOLEAN DEFAULT 0,
+          funding_interest TEXT, -- JSON string
+          industry TEXT,
+          location TEXT,
+          description TEXT,
+          funding_stage TEXT,
+          employees TEXT,
+          first_seen_at TEXT NOT NULL,
+          last_seen_at TEXT NOT NULL,
+          UNIQUE(source, link, name)
+        )
+      `);
+      const columns = 'id, company_id, source, name, link, domain, yc_backed, funding_interest, industry, location, description, funding_stage, employees, first_seen_at, last_seen_at';
+      await run(`INSERT INTO company_sources_new (${columns}) SELECT ${columns} FROM company_sources`);
+      await run('DROP TABLE company_sources');
+      await run('ALTER TABLE company_sources_new RENAME TO company_sources');
+      await run('CREATE INDEX IF NOT EXISTS idx_company_sources_company ON company_sources(company_id)');
+      // Article records already filed under another company are moved by splitArticleRecords in ./companies.ts
+    }
+  },
+  {
+    version: 12,
+    name: 'no_replace_on_conflict',
+    up: async ({ run }) => {
+      // ON CONFLICT REPLACE made a rename onto another record's name, source and link delete that record; now the
+      // rename fails instead (a 409 from curation)
+      await rebuildTable(run, 'hackathons', `
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        link TEXT,
+        sponsors TEXT, -- JSON string
+        contacts TEXT, -- JSON string
+        yc_backed BOOLEAN DEFAULT 0,
+        funding_interest TEXT, -- JSON string
+        location TEXT,
+        date TEXT,
+        source TEXT,
+        description TEXT,
+        prizes TEXT, -- JSON string
+        participants INTEGER,
+        start_date TEXT, -- ISO 8601 with UTC offset, parsed from date
+        end_date TEXT, -- ISO 8601 with UTC offset, parsed from date
+        timezone TEXT, -- Timezone as written on the page; NULL when assumed UTC
+        city TEXT, -- Canonical place resolved from location
+        region TEXT,
+        country TEXT, -- ISO 3166-1 alpha-2
+        latitude REAL,
+        longitude REAL,
+        is_online BOOLEAN, -- NULL when location couldn't be resolved
+        duplicate_of INTEGER, -- Canonical hackathons.id when another listing of the same event is kept instead
+        source_links TEXT, -- JSON string on canonical rows: source and link of every listing of the event
+        organizer TEXT, -- From schema.org data on the listing or detail page
+        hidden BOOLEAN DEFAULT 0, -- Kept out of lists and search
+        deleted_at TEXT, -- Soft delete
+        locked_fields TEXT, -- JSON string: record fields scrapes must not overwrite
+        UNIQUE(name, source, link)
+      `, [
+        'id', 'name', 'link', 'sponsors', 'contacts', 'yc_backed', 'funding_interest', 'location', 'date', 'source', 'description', 'prizes',
+        'participants', 'start_date', 'end_date', 'timezone', 'city', 'region', 'country', 'latitude', 'longitude', 'is_online', 'duplicate_of',
+        'source_links', 'organizer', 'hidden', 'deleted_at', 'locked_fields'
+      ]);
+      await rebuildTable(run, 'companies', `
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL,
+        link TEXT,
+        yc_backed BOOLEAN DEFAULT 0,
+        funding_interest TEXT, -- JSON string
+        industry TEXT,
+        location TEXT,
+        source TEXT,
+        description TEXT,
+        funding_stage TEXT,
+        employees TEXT,
+        city TEXT, -- Canonical place resolved from location
+        region TEXT,
+        country TEXT, -- ISO 3166-1 alpha-2
+        latitude REAL,
+        longitude REAL,
+        domain TEXT, -- Company website domain, when any source links to it
+        sources TEXT, -- JSON string: every source that lists this company
+        provenance TEXT, -- JSON string: field -> source the merged value came from
+        stub BOOLEAN DEFAULT 0, -- Created from a sponsor name no source lists yet
+        hidden BOOLEAN DEFAULT 0, -- Kept out of lists and search
+        deleted_at TEXT, -- Soft delete
+        locked_fields TEXT, -- JSON string: record fields scrapes must not overwrite
+        UNIQUE(name, source, link)
+      `, [
+        'id', 'name', 'link', 'yc_backed', 'funding_interest', 'industry', 'location', 'source', 'description', 'funding_stage', 'employees',
+        'city', 'region', 'country', 'latitude', 'longitude', 'domain', 'sources', 'provenance', 'stub', 'hidden', 'deleted_at', 'locked_fields'
+      ]);
+
+      // Dropping the old tables dropped their indexes and search triggers
+      await run('CREATE INDEX IF NOT EXISTS idx_hackathons_start_date ON hackathons(start_date)');
+      await run('CREATE INDEX IF NOT EXISTS idx_hackathons_duplicate_of ON hackathons(duplicate_of)');
+      await run('CREATE INDEX IF NOT EXISTS idx_companies_domain ON companies(domain)');
+      for (const table of ['hackathons', 'companies']) {
+        await run(`CREATE INDEX IF NOT EXISTS idx_${table}_country ON ${table}(country)`);
+        await run(`CREATE INDEX IF NOT EXISTS idx_${table}_coordinates ON ${table}(latitude, longitude)`);
+      }
+      await searchIndex(run, 'hackathons', 'hackathon_search', ['name', 'description', 'sponsors', 'prizes', 'location', 'organizer'], ['sponsors', 'prizes']);
+      await searchIndex(run, 'companies', 'company_search', ['name', 'description', 'industry', 'location', 'funding_interest'], ['funding_interest']);
+    }
+  }
+];
+
+export { MIGRATIONS };
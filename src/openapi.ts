@@ -0,0 +1,809 @@
+/**
+ * OpenAPI document
+ *
+ * Describes every /api endpoint of ./server.ts, served at /api/openapi.json.
+ * Schemas follow the interfaces the responses are built from (Hackathon and
+ * Company in ./scraper.ts, ScrapeJob in ./jobs.ts and so on), so a change to
+ * an endpoint or one of those shapes should be made here too.
+ */
+
+import { OUTREACH_STAGES } from './outreach';
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+const arrayOf = (items: any) => ({ type: 'array', items });
+const json = (description: string, schema: any) => ({ description, content: { 'application/json': { schema } } });
+
+const string = { type: 'string' };
+const integer = { type: 'integer' };
+const number = { type: 'number' };
+const boolean = { type: 'boolean' };
+const dateTime = { type: 'string', format: 'date-time' };
+const strings = arrayOf(string);
+
+const query = (name: string, schema: any, description?: string) => ({ name, in: 'query', schema, ...(description && { description }) });
+const idParam = (description: string) => ({ name: 'id', in: 'path', required: true, schema: integer, description });
+
+const response = (name: string) => ({ $ref: `#/components/responses/${name}` });
+const badRequest = { 400: response('BadRequest') };
+const notFound = { 404: response('NotFound') };
+const failed = { 500: response('ServerError') };
+
+// Shared by the list endpoints; see parseListParams in ./server.ts
+const outreachStage = { type: 'string', enum: OUTREACH_STAGES };
+
+const LIST_PARAMETERS = [
+  query('limit', { type: 'integer', minimum: 1, maximum: 500, default: 50 }),
+  query('cursor', string, 'nextCursor of the previous page'),
+  query('sort', string, 'A field of the items, or -field for descending'),
+  query('fields', string, 'Comma-separated fields to return'),
+  query('country', string, 'ISO codes or country names, comma-separated'),
+  query('near', string, 'lat,lon; adds distanceKm to each item'),
+  query('radius_km', { type: 'number', default: 50 }),
+  query('location', string, 'Substrings of location, comma-separated'),
+  query('source', string, 'Source names, comma-separated'),
+  query('include_hidden', boolean, 'Also list hidden records'),
+  query('deleted', boolean, 'List only deleted records')
+];
+
+const RANGE_DESCRIPTION = 'Numeric fields also take <field>_min and <field>_max, e.g. participants_min=100.';
+
+const curatedFields = {
+  hidden: boolean,
+  deletedAt: dateTime,
+  lockedFields: { ...strings, description: 'Fields set by hand, which scrapes leave alone' }
+};
+
+const hackathonFields = {
+  id: integer,
+  name: string,
+  link: string,
+  sponsors: strings,
+  contacts: strings,
+  ycBacked: boolean,
+  fundingInterest: strings,
+  location: string,
+  date: { type: 'string', description: 'Raw text from the listing' },
+  startDate: dateTime,
+  endDate: dateTime,
+  timezone: string,
+  city: string,
+  region: string,
+  country: { type: 'string', description: 'ISO 3166-1 alpha-2 code' },
+  latitude: number,
+  longitude: number,
+  online: boolean,
+  source: string,
+  description: string,
+  prizes: strings,
+  participants: integer,
+  organizer: string,
+  sourceLinks: { ...arrayOf(ref('SourceLink')), description: 'Every listing of the same event' },
+  duplicateOf: { type: 'integer', description: 'The listing kept for the same event' },
+  ...curatedFields
+};
+
+const companyFields = {
+  id: integer,
+  name: string,
+  link: string,
+  ycBacked: boolean,
+  fundingInterest: strings,
+  industry: string,
+  location: string,
+  city: string,
+  region: string,
+  country: string,
+  latitude: number,
+  longitude: number,
+  source: string,
+  description: string,
+  fundingStage: string,
+  employees: string,
+  domain: string,
+  sources: strings,
+  provenance: { type: 'object', additionalProperties: { oneOf: [string, strings] }, description: 'Field -> source of the merged value' },
+  stub: { type: 'boolean', description: 'Known only as a sponsor name' },
+  ...curatedFields
+};
+
+// Editable fields of a manual create or edit; null clears one
+const editable = (fields: Record<string, any>, readOnly: string[]) => ({
+  type: 'object',
+  properties: {
+    ...Object.fromEntries(Object.entries(fields).filter(([field]) => !readOnly.includes(field)).map(([field, schema]) => [field, { ...schema, nullable: true }])),
+    hidden: boolean,
+    lockedFields: { ...strings, description: 'Replaces the locks; by default the fields set are locked' }
+  }
+});
+
+const page = (item: string) => ({
+  type: 'object',
+  required: ['items', 'total', 'nextCursor'],
+  properties: { items: arrayOf(ref(item)), total: integer, nextCursor: { type: 'string', nullable: true } }
+});
+
+const schemas = {
+  Error: { type: 'object', required: ['error'], properties: { error: string, details: {} } },
+  SourceLink: { type: 'object', properties: { source: string, link: string } },
+  Hackathon: {
+    type: 'object',
+    required: ['id', 'name', 'link', 'sponsors', 'contacts', 'source'],
+    properties: { ...hackathonFields, distanceKm: { type: 'number', description: 'With near=' } }
+  },
+  Company: {
+    type: 'object',
+    required: ['id', 'name', 'link', 'source'],
+    properties: {
+      ...companyFields,
+      distanceKm: { type: 'number', description: 'With near=' },
+      score: { type: 'number', description: 'When sorted or selected by score' }
+    }
+  },
+  HackathonSponsor: {
+    allOf: [ref('Company'), { type: 'object', properties: { sponsorNames: { ...strings, description: 'Names the listings used' } } }]
+  },
+  TopSponsor: { allOf: [ref('Company'), { type: 'object', properties: { hackathonCount: integer } }] },
+  HackathonInput: editable(hackathonFields, ['id', 'source', 'sourceLinks', 'duplicateOf', ...Object.keys(curatedFields)]),
+  CompanyInput: editable(companyFields, ['id', 'source', 'domain', 'sources', 'provenance', 'stub', ...Object.keys(curatedFields)]),
+  HackathonPage: page('Hackathon'),
+  CompanyPage: page('Company'),
+  CompanyScore: {
+    type: 'object',
+    properties: {
+      companyId: integer,
+      score: { type: 'number', minimum: 0, maximum: 100 },
+      event: { type: 'object', properties: { id: integer, name: string } },
+      factors: arrayOf({
+        type: 'object',
+        properties: { factor: string, weight: number, value: number, points: number, explanation: string }
+      })
+    }
+  },
+  CompanySource: {
+    type: 'object',
+    properties: {
+      id: integer,
+      companyId: integer,
+      source: string,
+      name: string,
+      link: string,
+      domain: string,
+      ycBacked: boolean,
+      fundingInterest: strings,
+      industry: string,
+      location: string,
+      description: string,
+      fundingStage: string,
+      employees: string,
+      firstSeenAt: dateTime,
+      lastSeenAt: dateTime
+    }
+  },
+  RecordChange: {
+    type: 'object',
+    properties: {
+      id: integer,
+      entity: { type: 'string', enum: ['hackathon', 'company'] },
+      entityId: integer,
+      name: string,
+      runId: string,
+      actor: { type: 'string', description: 'Who made a manual change' },
+      change: { type: 'string', enum: ['created', 'updated', 'disappeared', 'reappeared'] },
+      field: string,
+      oldValue: {},
+      newValue: {},
+      changedAt: dateTime
+    }
+  },
+  SearchResult: {
+    type: 'object',
+    properties: {
+      type: { type: 'string', enum: ['hackathon', 'company'] },
+      id: integer,
+      name: string,
+      score: number,
+      highlight: { type: 'string', description: 'The name as HTML, with matching terms in <mark>' },
+      snippet: { type: 'string', description: 'The best-matching passage as HTML' }
+    }
+  },
+  ScrapeFilters: { type: 'object', properties: { location: string, date: string, industry: string, fundingStage: string } },
+  ChangeSummary: { type: 'object', properties: { new: integer, updated: integer, unchanged: integer, disappeared: integer } },
+  ScrapeJob: {
+    type: 'object',
+    properties: {
+      id: string,
+      status: { type: 'string', enum: ['queued', 'running', 'completed', 'failed', 'cancelled'] },
+      filters: ref('ScrapeFilters'),
+      sources: {
+        type: 'object',
+        additionalProperties: {
+          type: 'object',
+          properties: {
+            status: { type: 'string', enum: ['pending', 'running', 'completed', 'failed', 'cancelled'] },
+            count: integer,
+            error: string,
+            changes: ref('ChangeSummary')
+          }
+        }
+      },
+      hackathonCount: integer,
+      companyCount: integer,
+      error: string,
+      createdAt: dateTime,
+      startedAt: dateTime,
+      finishedAt: dateTime
+    }
+  },
+  ScheduleInput: {
+    type: 'object',
+    properties: {
+      name: string,
+      cron: { type: 'string', description: 'Five-field cron expression' },
+      filters: ref('ScrapeFilters'),
+      sources: { ...strings, nullable: true },
+      enabled: boolean
+    }
+  },
+  Schedule: {
+    allOf: [
+      ref('ScheduleInput'),
+      {
+        type: 'object',
+        properties: {
+          id: integer,
+          lastRunId: string,
+          lastRunAt: dateTime,
+          lastError: { type: 'string', description: "Why the last run couldn't start" },
+          nextRunAt: dateTime,
+          createdAt: dateTime,
+          updatedAt: dateTime
+        }
+      }
+    ]
+  },
+  Source: {
+    type: 'object',
+    properties: {
+      name: string,
+      kind: { type: 'string', enum: ['hackathon', 'company'] },
+      enabled: boolean,
+      capabilities: {
+        type: 'object',
+        properties: { filters: strings, network: boolean, detailPages: boolean, browser: boolean }
+      },
+      politeness: {
+        type: 'object',
+        properties: { concurrency: integer, minDelay: integer, maxRetries: integer, retryDelay: integer, maxRetryAfter: integer, respectRobots: boolean }
+      }
+    }
+  },
+  SourceHealthRecord: {
+    type: 'object',
+    properties: {
+      id: integer,
+      runId: string,
+      source: string,
+      recordedAt: dateTime,
+      pages: integer,
+      matched: integer,
+      parsed: integer,
+      items: integer,
+      fillRates: { type: 'object', additionalProperties: { type: 'number', nullable: true } },
+      errorCount: integer,
+      errors: strings,
+      failed: string,
+      alerts: arrayOf({ type: 'object', properties: { source: string, metric: string, message: string } })
+    }
+  },
+  SourceHealth: {
+    type: 'object',
+    properties: {
+      source: string,
+      status: { type: 'string', enum: ['ok', 'alert', 'unknown'] },
+      latest: ref('SourceHealthRecord'),
+      baseline: { type: 'object', properties: { runs: integer, matched: number, items: number, errorCount: number, fillRates: {} } },
+      history: arrayOf(ref('SourceHealthRecord'))
+    }
+  },
+  CampaignInput: {
+    type: 'object',
+    properties: {
+      name: string,
+      hackathonId: { type: 'integer', description: 'The hackathon sponsors are sought for' },
+      owner: { type: 'string', nullable: true, description: 'Default owner of companies added to the campaign' }
+    }
+  },
+  Campaign: {
+    allOf: [
+      ref('CampaignInput'),
+      {
+        type: 'object',
+        properties: {
+          id: integer,
+          hackathonName: string,
+          counts: { type: 'object', description: 'Companies at each stage now', additionalProperties: integer },
+          createdAt: dateTime,
+          updatedAt: dateTime
+        }
+      }
+    ]
+  },
+  OutreachInput: {
+    type: 'object',
+    properties: {
+      companyId: { type: 'integer', description: 'Required when adding a company; cannot be changed' },
+      stage: outreachStage,
+      owner: { type: 'string', nullable: true },
+      followUpAt: { ...dateTime, nullable: true },
+      note: { type: 'string', description: "Added to the company's notes" }
+    }
+  },
+  Outreach: {
+    type: 'object',
+    properties: {
+      id: integer,
+      campaignId: integer,
+      campaignName: string,
+      companyId: integer,
+      companyName: string,
+      stage: outreachStage,
+      owner: string,
+      followUpAt: dateTime,
+      stageChangedAt: dateTime,
+      createdAt: dateTime,
+      updatedAt: dateTime
+    }
+  },
+  OutreachNote: {
+    type: 'object',
+    properties: { id: integer, author: string, body: string, createdAt: dateTime }
+  },
+  OutreachDetail: {
+    allOf: [
+      ref('Outreach'),
+      {
+        type: 'object',
+        properties: {
+          notes: arrayOf(ref('OutreachNote')),
+          history: arrayOf({ type: 'object', properties: { fromStage: outreachStage, toStage: outreachStage, actor: string, changedAt: dateTime } })
+        }
+      }
+    ]
+  },
+  Funnel: {
+    type: 'object',
+    properties: {
+      campaignId: integer,
+      total: integer,
+      stages: arrayOf({
+        type: 'object',
+        properties: {
+          stage: outreachStage,
+          current: { type: 'integer', description: 'Companies at this stage now' },
+          reached: { type: 'integer', description: 'Companies that got this far, including those that moved on or declined' },
+          conversion: { type: 'number', nullable: true, description: "reached / the previous stage's reached" }
+        }
+      }),
+      declined: integer,
+      dueFollowUps: integer
+    }
+  }
+};
+
+const responses = {
+  BadRequest: json('Invalid parameters', ref('Error')),
+  NotFound: json('No such record', ref('Error')),
+  ServerError: json('Unexpected error', ref('Error'))
+};
+
+const actorParameter = { name: 'X-Actor', in: 'header', required: true, schema: string, description: 'Who is making the change, for the audit log' };
+
+// POST, PATCH, DELETE and restore for a curated collection; see ./curation.ts
+const curationPaths = (collection: string, schema: string, label: string) => ({
+  [`/api/${collection}`]: {
+    post: {
+      summary: `Create a ${label} by hand`,
+      parameters: [actorParameter],
+      requestBody: { required: true, content: { 'application/json': { schema: ref(`${schema}Input`) } } },
+      responses: {
+        201: json(`The ${label}`, ref(schema)),
+        ...badRequest,
+        409: json(`The ${label} already exists; its id is in the body when it is the one the input would merge into`, { allOf: [ref('Error'), { type: 'object', properties: { id: integer } }] }),
+        ...failed
+      }
+    }
+  },
+  [`/api/${collection}/{id}`]: {
+    patch: {
+      summary: `Edit, hide or lock fields of a ${label}`,
+      parameters: [idParam(`${label} id`), actorParameter],
+      requestBody: { required: true, content: { 'application/json': { schema: ref(`${schema}Input`) } } },
+      responses: {
+        200: json(`The ${label}`, ref(schema)),
+        ...badRequest,
+        ...notFound,
+        409: json(`Another ${label} has the same name, source and link`, ref('Error')),
+        ...failed
+      }
+    },
+    delete: {
+      summary: `Soft-delete a ${label}`,
+      parameters: [idParam(`${label} id`), actorParameter],
+      responses: { 204: { description: 'Deleted' }, ...badRequest, ...notFound, ...failed }
+    }
+  },
+  [`/api/${collection}/{id}/restore`]: {
+    post: {
+      summary: `Restore a deleted ${label}`,
+      parameters: [idParam(`${label} id`), actorParameter],
+      responses: { 200: json(`The ${label}`, ref(schema)), ...badRequest, ...notFound, ...failed }
+    }
+  }
+});
+
+// Combines path items that share a path
+const mergePaths = (...groups: Record<string, any>[]) =>
+  groups.reduce((merged, group) => {
+    for (const [path, item] of Object.entries(group)) merged[path] = { ...merged[path], ...item };
+    return merged;
+  }, {});
+
+// Stage, note and company writes on a campaign name who made them
+const outreachActor = { ...actorParameter, description: 'Who is making the change, kept with stage changes and notes' };
+const campaignCompany = [idParam('Campaign id'), { name: 'companyId', in: 'path', required: true, schema: integer, description: 'Company id' }];
+const outreachFilters = [
+  query('stage', string, 'Comma-separated stages'),
+  query('owner', string),
+  query('due_by', dateTime, 'Open companies with a follow-up at or before this time; a bare date covers the day')
+];
+
+const scoreParameters = [
+  query('event', integer, 'Hackathon id to score against'),
+  query('weights', string, 'factor:n,... overriding the configured weights')
+];
+
+const paths = {
+  '/api/hackathons': {
+    get: {
+      summary: 'List hackathons',
+      description: `Newest first; closest first with near=, soonest first with a date range. ${RANGE_DESCRIPTION}`,
+      parameters: [
+        ...LIST_PARAMETERS,
+        query('from', dateTime, 'Events still running at this time or later'),
+        query('to', string, 'Events starting by this time; a bare date covers the whole day'),
+        query('upcoming', boolean),
+        query('days', integer, 'Events starting within the next N days'),
+        query('date', string, 'Substring of the raw date text'),
+        query('online', boolean),
+        query('include_duplicates', boolean)
+      ],
+      responses: { 200: json('A page of hackathons', ref('HackathonPage')), ...badRequest, ...failed }
+    }
+  },
+  '/api/hackathons/{id}': {
+    get: {
+      summary: 'Get a hackathon',
+      parameters: [idParam('Hackathon id')],
+      responses: { 200: json('The hackathon', ref('Hackathon')), ...notFound, ...failed }
+    }
+  },
+  '/api/hackathons/{id}/sponsors': {
+    get: {
+      summary: "Companies sponsoring a hackathon, across all of its listings",
+      parameters: [idParam('Hackathon id')],
+      responses: { 200: json('Sponsors by name', arrayOf(ref('HackathonSponsor'))), ...notFound, ...failed }
+    }
+  },
+  '/api/hackathons/{id}/history': {
+    get: {
+      summary: 'Field-level changes to a hackathon, oldest first',
+      parameters: [idParam('Hackathon id')],
+      responses: { 200: json('Changes', arrayOf(ref('RecordChange'))), ...notFound, ...failed }
+    }
+  },
+  '/api/companies': {
+    get: {
+      summary: 'List companies',
+      description: `Newest first; closest first with near=. sort=score ranks by sponsor fit, best first. ${RANGE_DESCRIPTION}`,
+      parameters: [...LIST_PARAMETERS, query('industry', string, 'Substrings of industry, comma-separated'), query('yc_backed', boolean), ...scoreParameters],
+      responses: { 200: json('A page of companies', ref('CompanyPage')), ...badRequest, ...notFound, ...failed }
+    }
+  },
+  '/api/companies/{id}': {
+    get: {
+      summary: 'Get a company',
+      parameters: [idParam('Company id')],
+      responses: { 200: json('The company', ref('Company')), ...notFound, ...failed }
+    }
+  },
+  '/api/companies/{id}/score': {
+    get: {
+      summary: "Score a company's fit as a sponsor",
+      parameters: [idParam('Company id'), ...scoreParameters],
+      responses: { 200: json('The score and its factors', ref('CompanyScore')), ...badRequest, ...notFound, ...failed }
+    }
+  },
+  '/api/companies/{id}/hackathons': {
+    get: {
+      summary: 'Hackathons a company sponsored, latest first',
+      parameters: [idParam('Company id')],
+      responses: { 200: json('Hackathons', arrayOf(ref('Hackathon'))), ...notFound, ...failed }
+    }
+  },
+  '/api/companies/{id}/sources': {
+    get: {
+      summary: 'The per-source records a company was merged from',
+      parameters: [idParam('Company id')],
+      responses: { 200: json('Source records', arrayOf(ref('CompanySource'))), ...notFound, ...failed }
+    }
+  },
+  '/api/companies/{id}/history': {
+    get: {
+      summary: 'Field-level changes to a company, oldest first',
+      parameters: [idParam('Company id')],
+      responses: { 200: json('Changes', arrayOf(ref('RecordChange'))), ...notFound, ...failed }
+    }
+  },
+  '/api/sponsors': {
+    get: {
+      summary: 'Companies by number of hackathons sponsored',
+      parameters: [
+        query('min_hackathons', { type: 'integer', minimum: 1, default: 1 }),
+        query('year', string, 'Only events starting in this year'),
+        query('from', dateTime),
+        query('to', dateTime),
+        query('limit', { type: 'integer', minimum: 1, maximum: 500, default: 50 })
+      ],
+      responses: { 200: json('Sponsors, most hackathons first', arrayOf(ref('TopSponsor'))), ...badRequest, ...failed }
+    }
+  },
+  '/api/audit': {
+    get: {
+      summary: 'Manual changes, oldest first',
+      parameters: [
+        query('since', dateTime),
+        query('actor', string),
+        query('entity', { type: 'string', enum: ['hackathon', 'company'] }),
+        query('limit', { type: 'integer', default: 100 })
+      ],
+      responses: { 200: json('Changes', arrayOf(ref('RecordChange'))), ...badRequest, ...failed }
+    }
+  },
+  '/api/changes': {
+    get: {
+      summary: 'Every change since a time, oldest first',
+      parameters: [
+        { ...query('since', dateTime), required: true },
+        query('entity', { type: 'string', enum: ['hackathon', 'company'] }),
+        query('limit', { type: 'integer', default: 100 })
+      ],
+      responses: { 200: json('Changes', arrayOf(ref('RecordChange'))), ...badRequest, ...failed }
+    }
+  },
+  '/api/search': {
+    get: {
+      summary: 'Full-text search over hackathons and companies',
+      parameters: [
+        { ...query('q', string, 'Terms that must all match; "quoted phrases" and prefix* work'), required: true },
+        query('type', { type: 'string', enum: ['hackathon', 'company'] }),
+        query('boost', string, 'field:n,... reweighting fields'),
+        query('limit', { type: 'integer', default: 20 }, 'At most 100 are returned')
+      ],
+      responses: { 200: json('Best matches first', arrayOf(ref('SearchResult'))), ...badRequest, ...failed }
+    }
+  },
+  '/api/sources': {
+    get: {
+      summary: 'Registered sources',
+      parameters: [query('kind', { type: 'string', enum: ['hackathon', 'company'] })],
+      responses: { 200: json('Sources', arrayOf(ref('Source'))) }
+    }
+  },
+  '/api/sources/health': {
+    get: {
+      summary: "Each source's latest scrape health, baseline and history",
+      parameters: [query('source', string), query('runs', { type: 'integer', default: 10 }, 'Recent runs per source, at most 100')],
+      responses: { 200: json('Health by source', arrayOf(ref('SourceHealth'))), ...badRequest, ...notFound, ...failed }
+    }
+  },
+  '/api/sources/{name}/enable': {
+    post: {
+      summary: 'Enable a source for default runs',
+      parameters: [{ name: 'name', in: 'path', required: true, schema: string }],
+      responses: { 200: json('The source', ref('Source')), ...notFound }
+    }
+  },
+  '/api/sources/{name}/disable': {
+    post: {
+      summary: 'Disable a source for default runs',
+      parameters: [{ name: 'name', in: 'path', required: true, schema: string }],
+      responses: { 200: json('The source', ref('Source')), ...notFound }
+    }
+  },
+  '/api/scrape': {
+    get: {
+      summary: 'Recent scrape runs, newest first',
+      parameters: [query('limit', { type: 'integer', default: 20 })],
+      responses: { 200: json('Runs', arrayOf(ref('ScrapeJob'))), ...failed }
+    },
+    post: {
+      summary: 'Start a scrape run',
+      requestBody: {
+        content: { 'application/json': { schema: { allOf: [ref('ScrapeFilters'), { type: 'object', properties: { sources: { ...strings, minItems: 1 } } }] } } }
+      },
+      responses: {
+        202: json('The queued run', { type: 'object', properties: { id: string, status: string, url: string } }),
+        ...badRequest,
+        ...failed
+      }
+    }
+  },
+  '/api/scrape/{id}': {
+    get: {
+      summary: 'A scrape run and its per-source progress',
+      parameters: [{ name: 'id', in: 'path', required: true, schema: string }],
+      responses: { 200: json('The run', ref('ScrapeJob')), ...notFound, ...failed }
+    },
+    delete: {
+      summary: 'Cancel a scrape run',
+      parameters: [{ name: 'id', in: 'path', required: true, schema: string }],
+      responses: { 200: json('The cancelled run', ref('ScrapeJob')), ...notFound, 409: json('The run already finished', ref('Error')), ...failed }
+    }
+  },
+  '/api/scrape/{id}/events': {
+    get: {
+      summary: "Server-Sent Events stream of a run's pipeline events",
+      parameters: [
+        { name: 'id', in: 'path', required: true, schema: string },
+        query('after', integer, 'Resume after this event id (or send Last-Event-ID)')
+      ],
+      responses: { 200: { description: 'Events until run:completed', content: { 'text/event-stream': { schema: string } } }, ...notFound, ...failed }
+    }
+  },
+  '/api/schedules': {
+    get: {
+      summary: 'Scrape schedules',
+      responses: { 200: json('Schedules', arrayOf(ref('Schedule'))), ...failed }
+    },
+    post: {
+      summary: 'Create a schedule',
+      requestBody: { required: true, content: { 'application/json': { schema: ref('ScheduleInput') } } },
+      responses: { 201: json('The schedule', ref('Schedule')), ...badRequest, ...failed }
+    }
+  },
+  '/api/schedules/{id}': {
+    get: {
+      summary: 'Get a schedule',
+      parameters: [idParam('Schedule id')],
+      responses: { 200: json('The schedule', ref('Schedule')), ...notFound, ...failed }
+    },
+    patch: {
+      summary: 'Update a schedule',
+      parameters: [idParam('Schedule id')],
+      requestBody: { required: true, content: { 'application/json': { schema: ref('ScheduleInput') } } },
+      responses: { 200: json('The schedule', ref('Schedule')), ...badRequest, ...notFound, ...failed }
+    },
+    delete: {
+      summary: 'Delete a schedule',
+      parameters: [idParam('Schedule id')],
+      responses: { 204: { description: 'Deleted' }, ...notFound, ...failed }
+    }
+  },
+  '/api/campaigns': {
+    get: {
+      summary: 'Sponsor outreach campaigns',
+      responses: { 200: json('Campaigns', arrayOf(ref('Campaign'))), ...failed }
+    },
+    post: {
+      summary: 'Create a campaign for a hackathon',
+      requestBody: { required: true, content: { 'application/json': { schema: ref('CampaignInput') } } },
+      responses: { 201: json('The campaign', ref('Campaign')), ...badRequest, ...failed }
+    }
+  },
+  '/api/campaigns/{id}': {
+    get: {
+      summary: 'Get a campaign',
+      parameters: [idParam('Campaign id')],
+      responses: { 200: json('The campaign', ref('Campaign')), ...notFound, ...failed }
+    },
+    patch: {
+      summary: 'Update a campaign',
+      parameters: [idParam('Campaign id')],
+      requestBody: { required: true, content: { 'application/json': { schema: ref('CampaignInput') } } },
+      responses: { 200: json('The campaign', ref('Campaign')), ...badRequest, ...notFound, ...failed }
+    },
+    delete: {
+      summary: "Delete a campaign with its companies' stages, notes and history",
+      parameters: [idParam('Campaign id')],
+      responses: { 204: { description: 'Deleted' }, ...notFound, ...failed }
+    }
+  },
+  '/api/campaigns/{id}/funnel': {
+    get: {
+      summary: "How far the campaign's companies got, stage by stage",
+      parameters: [idParam('Campaign id')],
+      responses: { 200: json('The funnel', ref('Funnel')), ...notFound, ...failed }
+    }
+  },
+  '/api/campaigns/{id}/companies': {
+    get: {
+      summary: "A campaign's companies, by stage then name",
+      parameters: [idParam('Campaign id'), ...outreachFilters],
+      responses: { 200: json('Companies', arrayOf(ref('Outreach'))), ...badRequest, ...notFound, ...failed }
+    },
+    post: {
+      summary: 'Add a company to a campaign, at identified unless a stage is given',
+      parameters: [idParam('Campaign id'), outreachActor],
+      requestBody: { required: true, content: { 'application/json': { schema: ref('OutreachInput') } } },
+      responses: {
+        201: json('The company in the campaign', ref('OutreachDetail')),
+        ...badRequest,
+        ...notFound,
+        409: json('The company is already in the campaign', ref('Error')),
+        ...failed
+      }
+    }
+  },
+  '/api/campaigns/{id}/companies/{companyId}': {
+    get: {
+      summary: 'A company in a campaign, with its notes and stage history',
+      parameters: campaignCompany,
+      responses: { 200: json('The company in the campaign', ref('OutreachDetail')), ...notFound, ...failed }
+    },
+    patch: {
+      summary: 'Move a company to another stage, reassign it or set its follow-up',
+      parameters: [...campaignCompany, outreachActor],
+      requestBody: { required: true, content: { 'application/json': { schema: ref('OutreachInput') } } },
+      responses: { 200: json('The company in the campaign', ref('OutreachDetail')), ...badRequest, ...notFound, ...failed }
+    },
+    delete: {
+      summary: 'Remove a company from a campaign',
+      parameters: campaignCompany,
+      responses: { 204: { description: 'Removed' }, ...notFound, ...failed }
+    }
+  },
+  '/api/campaigns/{id}/companies/{companyId}/notes': {
+    post: {
+      summary: 'Add a note on a company in a campaign',
+      parameters: [...campaignCompany, outreachActor],
+      requestBody: {
+        required: true,
+        content: { 'application/json': { schema: { type: 'object', required: ['body'], properties: { body: string } } } }
+      },
+      responses: { 201: json('The note', ref('OutreachNote')), ...badRequest, ...notFound, ...failed }
+    }
+  },
+  '/api/follow-ups': {
+    get: {
+      summary: 'Open companies due a follow-up across campaigns, soonest first',
+      parameters: [query('owner', string), query('stage', string, 'Comma-separated stages'), query('due_by', dateTime, 'Defaults to now')],
+      responses: { 200: json('Companies', arrayOf(ref('Outreach'))), ...badRequest, ...failed }
+    }
+  },
+  '/api/companies/{id}/outreach': {
+    get: {
+      summary: 'Every campaign a company is in',
+      parameters: [idParam('Company id')],
+      responses: { 200: json('The company in each campaign', arrayOf(ref('Outreach'))), ...notFound, ...failed }
+    }
+  },
+  '/api/openapi.json': {
+    get: {
+      summary: 'This document',
+      responses: { 200: json('OpenAPI 3.0 document', { type: 'object' }) }
+    }
+  }
+};
+
+const OPENAPI_DOCUMENT = {
+  openapi: '3.0.3',
+  info: {
+    title: 'Scrapathon API',
+    version: '1.0.0',
+    description: 'Hackathons, their sponsors and companies interested in sponsoring, scraped from public sources.'
+  },
+  paths: mergePaths(paths, curationPaths('hackathons', 'Hackathon', 'hackathon'), curationPaths('companies', 'Company', 'company')),
+  components: { schemas, responses }
+};
+
+export { OPENAPI_DOCUMENT };
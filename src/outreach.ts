@@ -0,0 +1,402 @@
+import { dbAll, dbGet, dbRun, transaction } from './database';
+import { CompanyRepo, HackathonRepo } from './repositories';
+
+/**
+ * Sponsor outreach
+ *
+ * A campaign looks for sponsors for one hackathon. Companies added to it move
+ * through the outreach stages, each with an owner, notes and an optional
+ * follow-up date. Every stage change is kept with who made it, and the funnel
+ * counts a company as having reached every pipeline stage up to the furthest
+ * one it got to, so one moved straight from identified to replied still
+ * counts as contacted, and one that declined after replying still counts as
+ * replied. Deleted companies are left out of campaigns until restored.
+ */
+
+export type OutreachStage = 'identified' | 'contacted' | 'replied' | 'committed' | 'declined';
+
+// In order; declined can follow any of them
+const PIPELINE: OutreachStage[] = ['identified', 'contacted', 'replied', 'committed'];
+const OUTREACH_STAGES: OutreachStage[] = [...PIPELINE, 'declined'];
+// Companies still being worked on, whose follow-ups count
+const OPEN_STAGES: OutreachStage[] = ['identified', 'contacted', 'replied'];
+
+export interface Campaign {
+  id: number;
+  name: string;
+  hackathonId: number;
+  hackathonName?: string;
+  owner?: string;
+  counts: Record<OutreachStage, number>; // Companies at each stage now
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CampaignInput {
+  name?: string;
+  hackathonId?: number;
+  owner?: string | null;
+}
+
+export interface OutreachEntry {
+  id: number;
+  campaignId: number;
+  campaignName: string;
+  companyId: number;
+  companyName: string;
+  stage: OutreachStage;
+  owner?: string;
+  followUpAt?: string;
+  stageChangedAt: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface OutreachNote {
+  id: number;
+  author: string;
+  body: string;
+  createdAt: string;
+}
+
+export interface StageChange {
+  fromStage?: OutreachStage;
+  toStage: OutreachStage;
+  actor: string;
+  changedAt: string;
+}
+
+export interface OutreachDetail extends OutreachEntry {
+  notes: OutreachNote[];
+  history: StageChange[];
+}
+
+export interface OutreachInput {
+  companyId?: number; // When adding a company
+  stage?: OutreachStage;
+  owner?: string | null;
+  followUpAt?: string | null;
+  note?: string; // Added to the company's notes
+}
+
+export interface OutreachQuery {
+  stages?: OutreachStage[];
+  owner?: string;
+  dueBy?: string; // Open companies with a follow-up at or before this time
+}
+
+export interface Funnel {
+  campaignId: number;
+  total: number;
+  stages: { stage: OutreachStage; current: number; reached: number; conversion: number | null }[]; // conversion: reached / the previous stage's reached
+  declined: number;
+  dueFollowUps: number;
+}
+
+const CAMPAIGN_SQL = `SELECT oc.*, h.name AS hackathon_name FROM outreach_campaigns oc LEFT JOIN hackathons h ON h.id = oc.hackathon_id`;
+
+// Outreach of companies that aren't deleted
+const LISTED_OUTREACH = 'outreach o JOIN companies c ON c.id = o.company_id AND c.deleted_at IS NULL';
+
+const ENTRY_SQL = `SELECT o.*, oc.name AS campaign_name, c.name AS company_name
+  FROM ${LISTED_OUTREACH} JOIN outreach_campaigns oc ON oc.id = o.campaign_id`;
+
+const toTimestamp = (value: string | null | undefined) => (value ? new Date(value).toISOString() : null);
+
+const emptyCounts = () => Object.fromEntries(OUTREACH_STAGES.map(stage => [stage, 0])) as Record<OutreachStage, number>;
+
+const toCampaign = (row: any, counts = emptyCounts()): Campaign => ({
+  id: row.id,
+  name: row.name,
+  hackathonId: row.hackathon_id,
+  hackathonName: row.hackathon_name || undefined,
+  owner: row.owner || undefined,
+  counts,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+const toEntry = (row: any): OutreachEntry => ({
+  id: row.id,
+  campaignId: row.campaign_id,
+  campaignName: row.campaign_name,
+  companyId: row.company_id,
+  companyName: row.company_name,
+  stage: row.stage,
+  owner: row.owner || undefined,
+  followUpAt: row.follow_up_at || undefined,
+  stageChangedAt: row.stage_changed_at,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+const toNote = (row: any): OutreachNote => ({ id: row.id, author: row.author, body: row.body, createdAt: row.created_at });
+
+const toStageChange = (row: any): StageChange => ({
+  fromStage: row.from_stage || undefined,
+  toStage: row.to_stage,
+  actor: row.actor,
+  changedAt: row.changed_at
+});
+
+const isOwner = (value: any) => value === null || (typeof value === 'string' && value.trim() !== '');
+
+// Returns a list of problems; empty when the input is usable
+const validateCampaign = async (input: CampaignInput, partial = false): Promise<string[]> => {
+  const errors: string[] = [];
+
+  if (!partial || input.name !== undefined) {
+    if (typeof input.name !== 'string' || !input.name.trim()) errors.push('name is required');
+  }
+  if (!partial || input.hackathonId !== undefined) {
+    const hackathon = Number.isInteger(input.hackathonId) ? await HackathonRepo.get(input.hackathonId!) : undefined;
+    if (!Number.isInteger(input.hackathonId)) errors.push('hackathonId must be a hackathon id');
+    else if (!hackathon || hackathon.deletedAt) errors.push(`Hackathon ${input.hackathonId} not found`);
+  }
+  if (input.owner !== undefined && !isOwner(input.owner)) errors.push('owner must be a non-empty string');
+  if (partial && input.name === undefined && input.hackathonId === undefined && input.owner === undefined) errors.push('No fields to change');
+
+  return errors;
+};
+
+// Adding a company needs companyId; edits can't change it
+const validateOutreach = async (input: OutreachInput, adding = false): Promise<string[]> => {
+  const errors: string[] = [];
+
+  if (adding) {
+    const company = Number.isInteger(input.companyId) ? await CompanyRepo.get(input.companyId!) : undefined;
+    if (!Number.isInteger(input.companyId)) errors.push('companyId must be a company id');
+    else if (!company || company.deletedAt) errors.push(`Company ${input.companyId} not found`);
+  } else if (input.companyId !== undefined) {
+    errors.push('companyId cannot be changed');
+  }
+  if (input.stage !== undefined && !OUTREACH_STAGES.includes(input.stage)) {
+    errors.push(`stage must be one of ${OUTREACH_STAGES.join(', ')}`);
+  }
+  if (input.owner !== undefined && !isOwner(input.owner)) errors.push('owner must be a non-empty string');
+  if (input.followUpAt !== undefined && input.followUpAt !== null && (typeof input.followUpAt !== 'string' || isNaN(Date.parse(input.followUpAt)))) {
+    errors.push('followUpAt must be an ISO 8601 date');
+  }
+  if (input.note !== undefined && (typeof input.note !== 'string' || !input.note.trim())) errors.push('note must be a non-empty string');
+  if (!adding && Object.keys(input).length === 0) errors.push('No changes given');
+
+  return errors;
+};
+
+// Companies at each stage, by campaign
+const stageCounts = async (campaignId?: number): Promise<Map<number, Record<OutreachStage, number>>> => {
+  const rows = await dbAll(
+    `SELECT o.campaign_id, o.stage, COUNT(*) AS count FROM ${LISTED_OUTREACH}${campaignId !== undefined ? ' WHERE o.campaign_id = ?' : ''}
+     GROUP BY o.campaign_id, o.stage`,
+    campaignId !== undefined ? [campaignId] : []
+  );
+  const counts = new Map<number, Record<OutreachStage, number>>();
+  for (const row of rows) {
+    if (!counts.has(row.campaign_id)) counts.set(row.campaign_id, emptyCounts());
+    counts.get(row.campaign_id)![row.stage as OutreachStage] = row.count;
+  }
+  return counts;
+};
+
+const listCampaigns = async (): Promise<Campaign[]> => {
+  const counts = await stageCounts();
+  return (await dbAll(`${CAMPAIGN_SQL} ORDER BY oc.id`)).map(row => toCampaign(row, counts.get(row.id)));
+};
+
+const getCampaign = async (id: number): Promise<Campaign | undefined> => {
+  const row = await dbGet(`${CAMPAIGN_SQL} WHERE oc.id = ?`, [id]);
+  return row ? toCampaign(row, (await stageCounts(id)).get(id)) : undefined;
+};
+
+const createCampaign = async (input: CampaignInput): Promise<Campaign> => {
+  const now = new Date().toISOString();
+  const { lastID } = await dbRun(
+    'INSERT INTO outreach_campaigns (name, hackathon_id, owner, created_at, updated_at) VALUES (?, ?, ?, ?, ?)',
+    [input.name!.trim(), input.hackathonId, input.owner?.trim() || null, now, now]
+  );
+  return (await getCampaign(lastID))!;
+};
+
+const updateCampaign = async (id: number, input: CampaignInput): Promise<Campaign | undefined> => {
+  const existing = await getCampaign(id);
+  if (!existing) return undefined;
+
+  await dbRun('UPDATE outreach_campaigns SET name = ?, hackathon_id = ?, owner = ?, updated_at = ? WHERE id = ?', [
+    input.name?.trim() ?? existing.name,
+    input.hackathonId ?? existing.hackathonId,
+    input.owner === undefined ? existing.owner ?? null : input.owner?.trim() || null,
+    new Date().toISOString(),
+    id
+  ]);
+  return getCampaign(id);
+};
+
+// Deletes the campaign with its companies' stages, notes and history
+const deleteCampaign = (id: number): Promise<boolean> =>
+  transaction(async () => {
+    const outreach = 'SELECT id FROM outreach WHERE campaign_id = ?';
+    await dbRun(`DELETE FROM outreach_notes WHERE outreach_id IN (${outreach})`, [id]);
+    await dbRun(`DELETE FROM outreach_stage_changes WHERE outreach_id IN (${outreach})`, [id]);
+    await dbRun('DELETE FROM outreach WHERE campaign_id = ?', [id]);
+    return (await dbRun('DELETE FROM outreach_campaigns WHERE id = ?', [id])).changes > 0;
+  });
+
+const filterSql = ({ stages, owner, dueBy }: OutreachQuery, where: string[], params: any[]) => {
+  if (stages?.length) {
+    where.push(`o.stage IN (${stages.map(() => '?').join(', ')})`);
+    params.push(...stages);
+  }
+  if (owner) {
+    where.push('o.owner = ?');
+    params.push(owner);
+  }
+  if (dueBy) {
+    where.push(`o.follow_up_at IS NOT NULL AND datetime(o.follow_up_at) <= datetime(?) AND o.stage IN (${OPEN_STAGES.map(() => '?').join(', ')})`);
+    params.push(dueBy, ...OPEN_STAGES);
+  }
+};
+
+// A campaign's companies, by stage then name
+const listOutreach = async (campaignId: number, query: OutreachQuery = {}): Promise<OutreachEntry[]> => {
+  const where = ['o.campaign_id = ?'];
+  const params: any[] = [campaignId];
+  filterSql(query, where, params);
+  const entries = (await dbAll(`${ENTRY_SQL} WHERE ${where.join(' AND ')} ORDER BY c.name, o.id`, params)).map(toEntry);
+  return entries.sort((a, b) => OUTREACH_STAGES.indexOf(a.stage) - OUTREACH_STAGES.indexOf(b.stage));
+};
+
+// Follow-ups due across every campaign, soonest first
+const listFollowUps = async (query: OutreachQuery & { dueBy: string }): Promise<OutreachEntry[]> => {
+  const where: string[] = [];
+  const params: any[] = [];
+  filterSql(query, where, params);
+  return (await dbAll(`${ENTRY_SQL} WHERE ${where.join(' AND ')} ORDER BY datetime(o.follow_up_at), o.id`, params)).map(toEntry);
+};
+
+// Every campaign a company is part of
+const listCompanyOutreach = async (companyId: number): Promise<OutreachEntry[]> =>
+  (await dbAll(`${ENTRY_SQL} WHERE o.company_id = ? ORDER BY o.campaign_id`, [companyId])).map(toEntry);
+
+const getOutreach = async (campaignId: number, companyId: number): Promise<OutreachDetail | undefined> => {
+  const row = await dbGet(`${ENTRY_SQL} WHERE o.campaign_id = ? AND o.company_id = ?`, [campaignId, companyId]);
+  if (!row) return undefined;
+  const [notes, history] = await Promise.all([
+    dbAll('SELECT * FROM outreach_notes WHERE outreach_id = ? ORDER BY id', [row.id]),
+    dbAll('SELECT * FROM outreach_stage_changes WHERE outreach_id = ? ORDER BY id', [row.id])
+  ]);
+  return { ...toEntry(row), notes: notes.map(toNote), history: history.map(toStageChange) };
+};
+
+const insertNote = (outreachId: number, body: string, author: string) =>
+  dbRun('INSERT INTO outreach_notes (outreach_id, author, body, created_at) VALUES (?, ?, ?, ?)', [outreachId, author, body.trim(), new Date().toISOString()]);
+
+const insertStageChange = (outreachId: number, fromStage: OutreachStage | null, toStage: OutreachStage, actor: string, changedAt: string) =>
+  dbRun('INSERT INTO outreach_stage_changes (outreach_id, from_stage, to_stage, actor, changed_at) VALUES (?, ?, ?, ?, ?)', [
+    outreachId, fromStage, toStage, actor, changedAt
+  ]);
+
+// Adds a company at `identified` (or the given stage), owned by the campaign's owner unless one is given; undefined if it is already there
+const addCompany = (campaign: Campaign, input: OutreachInput, actor: string): Promise<OutreachDetail | undefined> =>
+  transaction(async () => {
+    if (await getOutreach(campaign.id, input.companyId!)) return undefined;
+
+    const now = new Date().toISOString();
+    const stage = input.stage ?? 'identified';
+    const { lastID } = await dbRun(
+      `INSERT INTO outreach (campaign_id, company_id, stage, owner, follow_up_at, stage_changed_at, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [campaign.id, input.companyId, stage, input.owner === undefined ? campaign.owner ?? null : input.owner?.trim() || null, toTimestamp(input.followUpAt), now, now, now]
+    );
+    await insertStageChange(lastID, null, stage, actor, now);
+    if (input.note) await insertNote(lastID, input.note, actor);
+    return getOutreach(campaign.id, input.companyId!);
+  });
+
+// Moves a company to a stage and sets its owner or follow-up; undefined if it isn't in the campaign
+const updateOutreach = (campaignId: number, companyId: number, input: OutreachInput, actor: string): Promise<OutreachDetail | undefined> =>
+  transaction(async () => {
+    const existing = await getOutreach(campaignId, companyId);
+    if (!existing) return undefined;
+
+    const now = new Date().toISOString();
+    const stage = input.stage ?? existing.stage;
+    await dbRun('UPDATE outreach SET stage = ?, owner = ?, follow_up_at = ?, stage_changed_at = ?, updated_at = ? WHERE id = ?', [
+      stage,
+      input.owner === undefined ? existing.owner ?? null : input.owner?.trim() || null,
+      input.followUpAt === undefined ? existing.followUpAt ?? null : toTimestamp(input.followUpAt),
+      stage !== existing.stage ? now : existing.stageChangedAt,
+      now,
+      existing.id
+    ]);
+    if (stage !== existing.stage) await insertStageChange(existing.id, existing.stage, stage, actor, now);
+    if (input.note) await insertNote(existing.id, input.note, actor);
+    return getOutreach(campaignId, companyId);
+  });
+
+const removeCompany = (campaignId: number, companyId: number): Promise<boolean> =>
+  transaction(async () => {
+    const row = await dbGet('SELECT id FROM outreach WHERE campaign_id = ? AND company_id = ?', [campaignId, companyId]);
+    if (!row) return false;
+    await dbRun('DELETE FROM outreach_notes WHERE outreach_id = ?', [row.id]);
+    await dbRun('DELETE FROM outreach_stage_changes WHERE outreach_id = ?', [row.id]);
+    await dbRun('DELETE FROM outreach WHERE id = ?', [row.id]);
+    return true;
+  });
+
+const addNote = async (campaignId: number, companyId: number, body: string, author: string): Promise<OutreachNote | undefined> => {
+  const row = await dbGet('SELECT id FROM outreach WHERE campaign_id = ? AND company_id = ?', [campaignId, companyId]);
+  if (!row) return undefined;
+  const { lastID } = await insertNote(row.id, body, author);
+  return toNote(await dbGet('SELECT * FROM outreach_notes WHERE id = ?', [lastID]));
+};
+
+// How far the campaign's companies got, stage by stage
+const getFunnel = async (campaignId: number): Promise<Funnel> => {
+  const [entries, changes] = await Promise.all([
+    dbAll(`SELECT o.id, o.stage, o.follow_up_at FROM ${LISTED_OUTREACH} WHERE o.campaign_id = ?`, [campaignId]),
+    dbAll(`SELECT outreach_id, to_stage FROM outreach_stage_changes WHERE outreach_id IN (SELECT o.id FROM ${LISTED_OUTREACH} WHERE o.campaign_id = ?)`, [
+      campaignId
+    ])
+  ]);
+
+  // Furthest pipeline stage each company reached; a declined-on-arrival one still counts as identified
+  const furthest = new Map<number, number>(entries.map(entry => [entry.id, 0]));
+  for (const change of changes) {
+    const rank = PIPELINE.indexOf(change.to_stage);
+    if (rank > furthest.get(change.outreach_id)!) furthest.set(change.outreach_id, rank);
+  }
+
+  const reached = PIPELINE.map((_, rank) => Array.from(furthest.values()).filter(furthestRank => furthestRank >= rank).length);
+  const now = Date.now();
+  return {
+    campaignId,
+    total: entries.length,
+    stages: PIPELINE.map((stage, rank) => ({
+      stage,
+      current: entries.filter(entry => entry.stage === stage).length,
+      reached: reached[rank],
+      conversion: rank > 0 && reached[rank - 1] > 0 ? Math.round((reached[rank] / reached[rank - 1]) * 1000) / 1000 : null
+    })),
+    declined: entries.filter(entry => entry.stage === 'declined').length,
+    dueFollowUps: entries.filter(entry => OPEN_STAGES.includes(entry.stage) && entry.follow_up_at && Date.parse(entry.follow_up_at) <= now).length
+  };
+};
+
+export {
+  OUTREACH_STAGES,
+  validateCampaign,
+  validateOutreach,
+  listCampaigns,
+  getCampaign,
+  createCampaign,
+  updateCampaign,
+  deleteCampaign,
+  listOutreach,
+  listFollowUps,
+  listCompanyOutreach,
+  getOutreach,
+  addCompany,
+  updateOutreach,
+  removeCompany,
+  addNote,
+  getFunnel
+};
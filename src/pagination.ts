@@ -0,0 +1,99 @@
+/**
+ * Cursor pagination
+ *
+ * List endpoints return a page of rows, the total number of matches and a
+ * cursor for the next page. The cursor holds the sort and the last row's sort
+ * value and id, so a page starts right after the previous one even when rows
+ * were added in between. Rows are ordered by the sort column with NULLs last,
+ * then by id in the same direction. Pages sorted in SQL use keysetSql; pages
+ * of rows sorted here (distance, score) use pageOf.
+ */
+
+export interface Sort {
+  column: string;
+  descending: boolean;
+}
+
+export interface Cursor {
+  value: any;
+  id: number;
+}
+
+export interface Page<T> {
+  items: T[];
+  total: number;
+  nextCursor: string | null;
+}
+
+const sortKey = ({ column, descending }: Sort) => `${descending ? '-' : ''}${column}`;
+
+// "start_date" or "-participants" (descending)
+const parseSort = (text: string, columns: string[]): Sort | undefined => {
+  const column = text.replace(/^-/, '');
+  return columns.includes(column) ? { column, descending: text.startsWith('-') } : undefined;
+};
+
+const encodeCursor = (sort: Sort, row: any): string =>
+  Buffer.from(JSON.stringify([sortKey(sort), row[sort.column] ?? null, row.id])).toString('base64url');
+
+// Undefined for a malformed cursor or one from a differently sorted list
+const decodeCursor = (text: string, sort: Sort): Cursor | undefined => {
+  try {
+    const [key, value, id] = JSON.parse(Buffer.from(text, 'base64url').toString());
+    return key === sortKey(sort) && Number.isInteger(id) ? { value, id } : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// Date columns sort as times rather than text
+const sortExpression = (column: string, dates: string[]) => (dates.includes(column) ? `datetime(${column})` : column);
+
+// ORDER BY, plus the WHERE condition for rows after the cursor
+const keysetSql = (sort: Sort, dates: string[], cursor?: Cursor): { orderBy: string; after?: string; params: any[] } => {
+  const expr = sortExpression(sort.column, dates);
+  const value = dates.includes(sort.column) ? 'datetime(?)' : '?';
+  const [dir, op] = sort.descending ? ['DESC', '<'] : ['ASC', '>'];
+  const orderBy = `${expr} IS NULL, ${expr} ${dir}, id ${dir}`;
+  if (!cursor) return { orderBy, params: [] };
+  return {
+    orderBy,
+    after: `CASE WHEN ${value} IS NULL THEN ${expr} IS NULL AND id ${op} ? ELSE ${expr} IS NULL OR ${expr} ${op} ${value} OR (${expr} = ${value} AND id ${op} ?) END`,
+    params: [cursor.value, cursor.id, cursor.value, cursor.value, cursor.id]
+  };
+};
+
+// The same order as keysetSql, for rows sorted here
+const compareBy = (sort: Sort, dates: string[]) => {
+  const key = (row: any) => {
+    const value = row[sort.column];
+    if (value === null || value === undefined) return undefined;
+    if (!dates.includes(sort.column)) return value;
+    const time = Date.parse(value);
+    return isNaN(time) ? undefined : time;
+  };
+  const sign = sort.descending ? -1 : 1;
+  return (a: any, b: any): number => {
+    const [x, y] = [key(a), key(b)];
+    if (x === undefined || y === undefined) return x === y ? sign * (a.id - b.id) : x === undefined ? 1 : -1;
+    if (x !== y) return sign * (x < y ? -1 : 1);
+    return sign * (a.id - b.id);
+  };
+};
+
+// A page of `limit + 1` rows fetched in order: the first `limit` and a cursor when there are more
+const toPage = <T>(rows: T[], total: number, sort: Sort, limit: number): Page<T> => ({
+  items: rows.slice(0, limit),
+  total,
+  nextCursor: rows.length > limit ? encodeCursor(sort, rows[limit - 1]) : null
+});
+
+// Sorts every match and returns the page after the cursor
+const pageOf = <T>(rows: T[], sort: Sort, dates: string[], cursor: Cursor | undefined, limit: number): Page<T> => {
+  const compare = compareBy(sort, dates);
+  const sorted = [...rows].sort(compare);
+  const after = cursor ? sorted.filter(row => compare(row, { [sort.column]: cursor.value, id: cursor.id }) > 0) : sorted;
+  return toPage(after.slice(0, limit + 1), rows.length, sort, limit);
+};
+
+export { parseSort, decodeCursor, keysetSql, toPage, pageOf };
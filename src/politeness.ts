@@ -0,0 +1,213 @@
+import axios from 'axios';
+import { emitScrapeEvent } from './events';
+import { SourceContext } from './sources';
+
+/**
+ * Per-host request scheduling
+ *
+ * Every live request goes through politeRequest, which:
+ * - checks the site's robots.txt (fetched once per ROBOTS_TTL) and refuses
+ *   disallowed paths
+ * - keeps at most `concurrency` requests in flight per host and starts them at
+ *   least `minDelay` apart, or the robots.txt Crawl-delay if that is longer
+ * - retries network errors, timeouts, 408/425/429 and 5xx responses with
+ *   jittered exponential backoff; anything else (a 404, say) fails at once
+ * - on 429/503 waits out Retry-After, holding back every request to the host
+ *
+ * Sources tune these settings with `politeness` in their definition.
+ */
+
+export interface PolitenessOptions {
+  concurrency: number; // Requests in flight per host
+  minDelay: number; // Milliseconds between request starts on a host
+  maxRetries: number;
+  retryDelay: number; // Base backoff in ms, doubled per attempt and jittered
+  maxRetryAfter: number; // Longest Retry-After waited out, in ms; longer ones fail the request
+  respectRobots: boolean;
+}
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: RegExp;
+  length: number; // Longest matching rule wins
+}
+
+interface RobotsRules {
+  rules: RobotsRule[];
+  crawlDelay?: number; // Milliseconds
+}
+
+interface HostState {
+  active: number;
+  waiting: (() => void)[];
+  nextStart: number; // Earliest time the next request may start
+}
+
+const DEFAULT_POLITENESS: PolitenessOptions = {
+  concurrency: 2,
+  minDelay: 500,
+  maxRetries: 3,
+  retryDelay: 1000,
+  maxRetryAfter: 2 * 60 * 1000,
+  respectRobots: true
+};
+
+const ROBOTS_AGENT = 'scrapathon'; // User-agent token matched against robots.txt groups
+const ROBOTS_TTL = 12 * 60 * 60 * 1000;
+const ROBOTS_TIMEOUT = 5000;
+const RETRYABLE_STATUSES = [408, 425, 429, 500, 502, 503, 504];
+
+const hosts = new Map<string, HostState>();
+const robotsCache = new Map<string, { robots: Promise<RobotsRules>; expiresAt: number }>();
+
+const politenessFor = (overrides: Partial<PolitenessOptions> = {}): PolitenessOptions => ({ ...DEFAULT_POLITENESS, ...overrides });
+
+// Resolves after `ms`, or as soon as the signal aborts
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>(resolve => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, Math.max(ms, 0));
+    signal?.addEventListener('abort', done);
+  });
+
+// "/private/*.pdf$" -> /^\/private\/.*\.pdf$/
+const robotsPattern = (path: string): RegExp =>
+  new RegExp('^' + path.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\\\$$/, '$').replace(/\*/g, '.*'));
+
+// Rules of the group naming ROBOTS_AGENT, or of the `*` group when none does
+const parseRobots = (text: string): RobotsRules => {
+  const groups: { agents: string[]; rules: RobotsRule[]; crawlDelay?: number }[] = [];
+  let current: (typeof groups)[number] | undefined;
+  let readingAgents = false;
+
+  for (const raw of text.split(/\r?\n/)) {
+    const match = raw.replace(/#.*/, '').trim().match(/^([\w-]+)\s*:\s*(.*)$/);
+    if (!match) continue;
+    const field = match[1].toLowerCase();
+    const value = match[2].trim();
+
+    if (field === 'user-agent') {
+      if (!current || !readingAgents) groups.push((current = { agents: [], rules: [] }));
+      current.agents.push(value.toLowerCase());
+      readingAgents = true;
+      continue;
+    }
+    readingAgents = false;
+    if (!current) continue;
+    if ((field === 'allow' || field === 'disallow') && value) {
+      current.rules.push({ allow: field === 'allow', pattern: robotsPattern(value), length: value.length });
+    } else if (field === 'crawl-delay' && Number(value) >= 0) {
+      current.crawlDelay = Number(value) * 1000;
+    }
+  }
+
+  const own = groups.filter(group => group.agents.includes(ROBOTS_AGENT));
+  const chosen = own.length > 0 ? own : groups.filter(group => group.agents.includes('*'));
+  return { rules: chosen.flatMap(group => group.rules), crawlDelay: chosen.find(group => group.crawlDelay !== undefined)?.crawlDelay };
+};
+
+// A missing or unreachable robots.txt allows everything
+const fetchRobots = async (origin: string): Promise<RobotsRules> => {
+  try {
+    const response = await axios.get(`${origin}/robots.txt`, { timeout: ROBOTS_TIMEOUT, responseType: 'text', validateStatus: () => true });
+    if (response.status >= 200 && response.status < 300) return parseRobots(String(response.data));
+  } catch (error) {
+    console.error(`Error fetching robots.txt for ${origin}:`, (error as Error).message);
+  }
+  return { rules: [] };
+};
+
+const robotsFor = (origin: string): Promise<RobotsRules> => {
+  const cached = robotsCache.get(origin);
+  if (cached && cached.expiresAt > Date.now()) return cached.robots;
+  const robots = fetchRobots(origin);
+  robotsCache.set(origin, { robots, expiresAt: Date.now() + ROBOTS_TTL });
+  return robots;
+};
+
+const isAllowed = (url: string, { rules }: RobotsRules): boolean => {
+  const { pathname, search } = new URL(url);
+  const path = pathname + search;
+  const matched = rules
+    .filter(rule => rule.pattern.test(path))
+    .sort((a, b) => b.length - a.length || Number(b.allow) - Number(a.allow));
+  return matched.length === 0 || matched[0].allow;
+};
+
+const hostState = (host: string): HostState => {
+  let state = hosts.get(host);
+  if (!state) hosts.set(host, (state = { active: 0, waiting: [], nextStart: 0 }));
+  return state;
+};
+
+// Waits for a free slot on the host, then for its turn to start
+const acquire = async (state: HostState, concurrency: number, minDelay: number, signal?: AbortSignal) => {
+  while (state.active >= concurrency) await new Promise<void>(resolve => state.waiting.push(resolve));
+  state.active++;
+  const start = Math.max(Date.now(), state.nextStart);
+  state.nextStart = start + minDelay;
+  await sleep(start - Date.now(), signal);
+};
+
+const release = (state: HostState) => {
+  state.active--;
+  state.waiting.shift()?.();
+};
+
+// Retry-After is either seconds or an HTTP date
+const parseRetryAfter = (value: string | undefined): number | undefined => {
+  if (!value) return undefined;
+  if (/^\d+$/.test(value.trim())) return parseInt(value) * 1000;
+  const at = Date.parse(value);
+  return isNaN(at) ? undefined : Math.max(at - Date.now(), 0);
+};
+
+// Milliseconds to wait before the next attempt, or undefined when the error shouldn't be retried
+const retryWait = (error: unknown, attempt: number, options: PolitenessOptions): number | undefined => {
+  if (attempt >= options.maxRetries || axios.isCancel(error) || !axios.isAxiosError(error)) return undefined;
+  const status = error.response?.status;
+  if (status !== undefined && !RETRYABLE_STATUSES.includes(status)) return undefined;
+
+  if (status === 429 || status === 503) {
+    const retryAfter = parseRetryAfter(error.response?.headers['retry-after']);
+    if (retryAfter !== undefined) return retryAfter <= options.maxRetryAfter ? retryAfter : undefined;
+  }
+  return options.retryDelay * 2 ** attempt * (0.5 + Math.random());
+};
+
+// Runs a request to `url` within the host's limits, retrying it when worthwhile
+const politeRequest = async <T>(url: string, request: () => Promise<T>, context: SourceContext = {}): Promise<T> => {
+  const options = politenessFor(context.politeness);
+  const { origin, host } = new URL(url);
+  let minDelay = options.minDelay;
+
+  if (options.respectRobots) {
+    const robots = await robotsFor(origin);
+    if (!isAllowed(url, robots)) throw new Error(`robots.txt disallows ${url}`);
+    minDelay = Math.max(minDelay, robots.crawlDelay ?? 0);
+  }
+
+  const state = hostState(host);
+  for (let attempt = 0; ; attempt++) {
+    await acquire(state, options.concurrency, minDelay, context.signal);
+    try {
+      context.signal?.throwIfAborted();
+      return await request();
+    } catch (error) {
+      const wait = retryWait(error, attempt, options);
+      if (wait === undefined) throw error;
+      const retriesLeft = options.maxRetries - attempt;
+      state.nextStart = Math.max(state.nextStart, Date.now() + wait);
+      console.log(`Retrying ${url} in ${Math.round(wait / 1000)}s... ${retriesLeft} attempts left`);
+      emitScrapeEvent(context.events, { type: 'retry', source: context.source, url, retriesLeft, error: (error as Error).message });
+    } finally {
+      release(state);
+    }
+  }
+};
+
+export { politenessFor, politeRequest };
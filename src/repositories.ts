@@ -0,0 +1,509 @@
+import { dbAll, dbGet, dbRun, transaction } from './database';
+import { recordCreated, recordUpdates } from './history';
+import { Cursor, keysetSql, Page, Sort, toPage } from './pagination';
+import { Company, Hackathon } from './scraper';
+
+/**
+ * Repositories
+ *
+ * Typed access to the `hackathons` and `companies` tables. Rows use the
+ * column names and storage types (JSON text, 0/1 booleans); records use the
+ * Hackathon / Company interfaces. fromRow and toRow convert between the two,
+ * and the query methods build the parameterized SQL behind the list
+ * endpoints, a cursor page at a time (see ./pagination.ts). Batch writes run in one transaction, so a failed save leaves
+ * nothing half-written.
+ *
+ * Scrape writes skip a record's locked fields and its curation state (hidden,
+ * deleted); `edit` is the manual path that sets them (see ./curation.ts).
+ * Lists leave out deleted and hidden records unless asked for them.
+ */
+
+// The source of records created by hand
+const MANUAL_SOURCE = 'manual';
+
+interface Curated {
+  hidden: boolean;
+  deletedAt?: string;
+  lockedFields: string[]; // Set by hand; scrapes leave them alone
+}
+
+export interface StoredHackathon extends Hackathon, Curated {
+  id: number;
+  duplicateOf?: number; // The listing kept for the same event
+}
+
+export interface StoredCompany extends Company, Curated {
+  id: number;
+  domain?: string;
+  sources: string[];
+  provenance: Record<string, string | string[]>; // Field -> source of the merged value
+  stub: boolean;
+}
+
+export interface HackathonRow {
+  id: number;
+  name: string;
+  link: string | null;
+  sponsors: string | null;
+  contacts: string | null;
+  yc_backed: number | null;
+  funding_interest: string | null;
+  location: string | null;
+  date: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  timezone: string | null;
+  city: string | null;
+  region: string | null;
+  country: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  is_online: number | null;
+  duplicate_of: number | null;
+  source_links: string | null;
+  source: string;
+  description: string | null;
+  prizes: string | null;
+  participants: number | null;
+  organizer: string | null;
+  hidden: number | null;
+  deleted_at: string | null;
+  locked_fields: string | null;
+}
+
+export interface CompanyRow {
+  id: number;
+  name: string;
+  link: string | null;
+  yc_backed: number | null;
+  funding_interest: string | null;
+  industry: string | null;
+  location: string | null;
+  city: string | null;
+  region: string | null;
+  country: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  source: string | null;
+  description: string | null;
+  funding_stage: string | null;
+  employees: string | null;
+  domain: string | null;
+  sources: string | null;
+  provenance: string | null;
+  stub: number | null;
+  hidden: number | null;
+  deleted_at: string | null;
+  locked_fields: string | null;
+}
+
+interface BoundingBox {
+  minLat: number;
+  maxLat: number;
+  minLon: number;
+  maxLon: number;
+}
+
+export interface NumericRange {
+  min?: number;
+  max?: number;
+}
+
+// List filters match any of their values
+interface ListQuery {
+  countries?: string[];
+  box?: BoundingBox;
+  locations?: string[]; // Substrings of location
+  sources?: string[];
+  includeHidden?: boolean;
+  deleted?: boolean; // Only deleted records (hidden or not) instead of none
+  ranges?: Record<string, NumericRange>; // Numeric columns only
+  sort?: Sort; // Newest first by default
+  after?: Cursor;
+  limit?: number;
+}
+
+export interface HackathonQuery extends ListQuery {
+  includeDuplicates?: boolean;
+  from?: string; // Events still running at this time or later
+  to?: string; // Events starting at this time or earlier
+  date?: string;
+  online?: boolean;
+}
+
+export interface CompanyQuery extends ListQuery {
+  industries?: string[]; // Substrings of industry
+  ycBacked?: boolean;
+}
+
+type ColumnType = 'text' | 'number' | 'boolean' | 'json';
+
+// Record field, table column, storage type and the value an empty column reads as
+type Column = [field: string, column: string, type: ColumnType, empty?: any];
+
+const HACKATHON_COLUMNS: Column[] = [
+  ['name', 'name', 'text'],
+  ['link', 'link', 'text', ''],
+  ['sponsors', 'sponsors', 'json', []],
+  ['contacts', 'contacts', 'json', []],
+  ['ycBacked', 'yc_backed', 'boolean', false],
+  ['fundingInterest', 'funding_interest', 'json', []],
+  ['location', 'location', 'text'],
+  ['date', 'date', 'text'],
+  ['startDate', 'start_date', 'text'],
+  ['endDate', 'end_date', 'text'],
+  ['timezone', 'timezone', 'text'],
+  ['city', 'city', 'text'],
+  ['region', 'region', 'text'],
+  ['country', 'country', 'text'],
+  ['latitude', 'latitude', 'number'],
+  ['longitude', 'longitude', 'number'],
+  ['online', 'is_online', 'boolean'],
+  ['source', 'source', 'text'],
+  ['description', 'description', 'text'],
+  ['prizes', 'prizes', 'json', []],
+  ['participants', 'participants', 'number'],
+  ['organizer', 'organizer', 'text'],
+  ['sourceLinks', 'source_links', 'json'],
+  ['duplicateOf', 'duplicate_of', 'number'],
+  ['hidden', 'hidden', 'boolean', false],
+  ['deletedAt', 'deleted_at', 'text'],
+  ['lockedFields', 'locked_fields', 'json', []]
+];
+
+const COMPANY_COLUMNS: Column[] = [
+  ['name', 'name', 'text'],
+  ['link', 'link', 'text', ''],
+  ['ycBacked', 'yc_backed', 'boolean', false],
+  ['fundingInterest', 'funding_interest', 'json', []],
+  ['industry', 'industry', 'text'],
+  ['location', 'location', 'text'],
+  ['city', 'city', 'text'],
+  ['region', 'region', 'text'],
+  ['country', 'country', 'text'],
+  ['latitude', 'latitude', 'number'],
+  ['longitude', 'longitude', 'number'],
+  ['source', 'source', 'text'],
+  ['description', 'description', 'text'],
+  ['fundingStage', 'funding_stage', 'text'],
+  ['employees', 'employees', 'text'],
+  ['domain', 'domain', 'text'],
+  ['sources', 'sources', 'json', []],
+  ['provenance', 'provenance', 'json', {}],
+  ['stub', 'stub', 'boolean', false],
+  ['hidden', 'hidden', 'boolean', false],
+  ['deletedAt', 'deleted_at', 'text'],
+  ['lockedFields', 'locked_fields', 'json', []]
+];
+
+// Written by markDuplicateHackathons (./hackathons.ts), not by saves
+const DEDUPE_FIELDS = ['sourceLinks', 'duplicateOf'];
+
+// Written only by manual edits
+const CURATION_FIELDS = ['hidden', 'deletedAt', 'lockedFields'];
+
+const readColumn = ([, column, type, empty]: Column, row: any) => {
+  const value = row[column];
+  if (value === null || value === undefined || value === '') return empty;
+  if (type === 'json') return JSON.parse(value);
+  if (type === 'boolean') return !!value;
+  return value;
+};
+
+// Text is stored as given: an empty link would collide in the UNIQUE(name, source, link) constraints where NULL doesn't
+const writeColumn = ([, , type, empty]: Column, value: any) => {
+  const stored = value ?? (type === 'text' ? undefined : empty);
+  if (stored === undefined || stored === null) return null;
+  if (type === 'json') return JSON.stringify(stored);
+  if (type === 'boolean') return stored ? 1 : 0;
+  return stored;
+};
+
+// Columns of the fields locked on a stored row
+const lockedColumns = (columns: Column[], row: any): string[] => {
+  const locked: string[] = row?.locked_fields ? JSON.parse(row.locked_fields) : [];
+  return columns.filter(([field]) => locked.includes(field)).map(([, column]) => column);
+};
+
+const withoutColumns = (values: Record<string, any>, columns: string[]) =>
+  Object.fromEntries(Object.entries(values).filter(([column]) => !columns.includes(column)));
+
+const fromRow = <T>(columns: Column[], row: any): T =>
+  Object.fromEntries([['id', row.id], ...columns.map(column => [column[0], readColumn(column, row)])]) as T;
+
+// Column values for the given fields; an undefined list or flag stores its empty value
+const toRow = (columns: Column[], record: Record<string, any>, fields: string[]): Record<string, any> =>
+  Object.fromEntries(columns.filter(([field]) => fields.includes(field)).map(column => [column[1], writeColumn(column, record[column[0]])]));
+
+const DEFAULT_SORT: Sort = { column: 'id', descending: true };
+
+const columnNames = (columns: Column[]) => ['id', ...columns.map(([, column]) => column)];
+
+const numericColumns = (columns: Column[]) => ['id', ...columns.filter(([, , type]) => type === 'number').map(([, column]) => column)];
+
+// Record field -> column, for API parameters that name fields (sort=startDate)
+const fieldColumns = (columns: Column[]): Record<string, string> =>
+  Object.fromEntries([['id', 'id'], ...columns.map(([field, column]) => [field, column])]);
+
+const numericFields = (columns: Column[]) => ['id', ...columns.filter(([, , type]) => type === 'number').map(([field]) => field)];
+
+interface Filters {
+  where: string[];
+  params: any[];
+}
+
+const anyOf = (column: string, values: string[] | undefined, { where, params }: Filters) => {
+  if (!values?.length) return;
+  where.push(`${column} IN (${values.map(() => '?').join(', ')})`);
+  params.push(...values);
+};
+
+const likeAny = (column: string, values: string[] | undefined, { where, params }: Filters) => {
+  if (!values?.length) return;
+  where.push(`(${values.map(() => `${column} LIKE ?`).join(' OR ')})`);
+  params.push(...values.map(value => `%${value}%`));
+};
+
+// Filters every list query shares; `columns` guards the range and sort columns, which go into the SQL as names
+const listFilters = (query: ListQuery, columns: Column[]): Filters => {
+  const filters: Filters = { where: [], params: [] };
+  const ranged = numericColumns(columns);
+  if (![query.sort?.column ?? 'id', ...Object.keys(query.ranges || {})].every(column => columnNames(columns).includes(column))) {
+    throw new Error('Unknown sort or range column');
+  }
+
+  filters.where.push(query.deleted ? 'deleted_at IS NOT NULL' : 'deleted_at IS NULL');
+  if (!query.includeHidden && !query.deleted) filters.where.push('COALESCE(hidden, 0) = 0');
+  anyOf('country', query.countries, filters);
+  if (query.box) {
+    filters.where.push('latitude BETWEEN ? AND ? AND longitude BETWEEN ? AND ?');
+    filters.params.push(query.box.minLat, query.box.maxLat, query.box.minLon, query.box.maxLon);
+  }
+  likeAny('location', query.locations, filters);
+  for (const [column, { min, max }] of Object.entries(query.ranges || {})) {
+    if (!ranged.includes(column)) throw new Error(`${column} is not numeric`);
+    if (min !== undefined) {
+      filters.where.push(`${column} >= ?`);
+      filters.params.push(min);
+    }
+    if (max !== undefined) {
+      filters.where.push(`${column} <= ?`);
+      filters.params.push(max);
+    }
+  }
+  return filters;
+};
+
+const whereSql = (where: string[]) => (where.length > 0 ? ` WHERE ${where.join(' AND ')}` : '');
+
+// Rows after the query's cursor in its sort order, up to `limit`
+const selectRows = (table: string, { where, params }: Filters, query: ListQuery, dates: string[], limit = query.limit) => {
+  const keyset = keysetSql(query.sort || DEFAULT_SORT, dates, query.after);
+  const conditions = keyset.after ? [...where, keyset.after] : where;
+  return dbAll(
+    `SELECT * FROM ${table}${whereSql(conditions)} ORDER BY ${keyset.orderBy}${limit !== undefined ? ' LIMIT ?' : ''}`,
+    [...params, ...keyset.params, ...(limit !== undefined ? [limit] : [])]
+  );
+};
+
+// One more row than the page shows tells whether there is a next page
+const selectPage = async <T>(table: string, filters: Filters, query: ListQuery, dates: string[]): Promise<Page<T>> => {
+  const limit = query.limit ?? 50;
+  const [rows, count] = await Promise.all([
+    selectRows(table, filters, query, dates, limit + 1),
+    dbGet(`SELECT COUNT(*) AS total FROM ${table}${whereSql(filters.where)}`, filters.params)
+  ]);
+  return toPage(rows, count.total, query.sort || DEFAULT_SORT, limit);
+};
+
+const insertSql = (table: string, values: Record<string, any>) =>
+  `INSERT INTO ${table} (${Object.keys(values).join(', ')}) VALUES (${Object.keys(values).map(() => '?').join(', ')})`;
+
+const updateSql = (table: string, values: Record<string, any>) =>
+  `UPDATE ${table} SET ${Object.keys(values).map(column => `${column} = ?`).join(', ')} WHERE id = ?`;
+
+const hackathonRow = (h: Partial<StoredHackathon>, fields = Object.keys(h)) => toRow(HACKATHON_COLUMNS, h, fields);
+
+const companyRow = (c: Partial<StoredCompany>, fields = Object.keys(c)) => toRow(COMPANY_COLUMNS, c, fields);
+
+// Start and end dates carry their UTC offsets, so they compare as times
+const HACKATHON_DATE_COLUMNS = ['start_date', 'end_date'];
+
+const hackathonFilters = (query: HackathonQuery): Filters => {
+  const filters = listFilters(query, HACKATHON_COLUMNS);
+  const { where, params } = filters;
+
+  // Other listings of an event are folded into its canonical row's source_links
+  if (!query.includeDuplicates) where.push('duplicate_of IS NULL');
+  if (query.from) {
+    where.push('datetime(end_date) >= datetime(?)');
+    params.push(query.from);
+  }
+  if (query.to) {
+    where.push('datetime(start_date) <= datetime(?)');
+    params.push(query.to);
+  }
+  if (query.date) {
+    where.push('date LIKE ?');
+    params.push(`%${query.date}%`);
+  }
+  // Also matches events whose listing on the source was folded into another row
+  if (query.sources?.length) {
+    const placeholders = query.sources.map(() => '?').join(', ');
+    where.push(`(source IN (${placeholders}) OR id IN (SELECT duplicate_of FROM hackathons WHERE source IN (${placeholders})))`);
+    params.push(...query.sources, ...query.sources);
+  }
+  if (query.online !== undefined) {
+    where.push('is_online = ?');
+    params.push(query.online ? 1 : 0);
+  }
+  return filters;
+};
+
+const companyFilters = (query: CompanyQuery): Filters => {
+  const filters = listFilters(query, COMPANY_COLUMNS);
+  const { where, params } = filters;
+
+  likeAny('industry', query.industries, filters);
+  if (query.ycBacked !== undefined) {
+    where.push('yc_backed = ?');
+    params.push(query.ycBacked ? 1 : 0);
+  }
+  // Any company the sources list, not only those whose merged name came from one
+  if (query.sources?.length) {
+    where.push(`id IN (SELECT company_id FROM company_sources WHERE source IN (${query.sources.map(() => '?').join(', ')}))`);
+    params.push(...query.sources);
+  }
+  return filters;
+};
+
+// The stored row for a listing; one renamed by hand is still found by its source and link
+const findListing = (name: string, source: string, link: string | null) =>
+  dbGet<HackathonRow>(
+    `SELECT * FROM hackathons WHERE source = ? AND link IS ? AND (name = ? OR (COALESCE(link, '') != '' AND locked_fields LIKE '%"name"%'))
+     ORDER BY name = ? DESC LIMIT 1`,
+    [source, link, name, name]
+  );
+
+// Saves a scraped listing, updating its existing row in place so the id survives rescrapes, and logs what changed (see ./history.ts)
+const upsertHackathon = async (h: Hackathon, runId?: string): Promise<{ id: number; created: boolean }> => {
+  const scraped = HACKATHON_COLUMNS.map(([field]) => field).filter(field => !DEDUPE_FIELDS.includes(field) && !CURATION_FIELDS.includes(field));
+  const values = hackathonRow(h, scraped);
+  const existing = await findListing(values.name, values.source, values.link);
+
+  if (!existing) {
+    const { lastID } = await dbRun(insertSql('hackathons', values), Object.values(values));
+    await recordCreated('hackathon', lastID, runId);
+    return { id: lastID, created: true };
+  }
+  const unlocked = withoutColumns(values, lockedColumns(HACKATHON_COLUMNS, existing));
+  await recordUpdates('hackathon', existing.id, existing, unlocked, runId);
+  await dbRun(updateSql('hackathons', unlocked), [...Object.values(unlocked), existing.id]);
+  return { id: existing.id, created: false };
+};
+
+const HackathonRepo = {
+  fromRow: (row: HackathonRow): StoredHackathon => fromRow(HACKATHON_COLUMNS, row),
+  toRow: hackathonRow,
+
+  getRow: (id: number) => dbGet<HackathonRow>('SELECT * FROM hackathons WHERE id = ?', [id]),
+  get: async (id: number): Promise<StoredHackathon | undefined> => {
+    const row = await HackathonRepo.getRow(id);
+    return row && HackathonRepo.fromRow(row);
+  },
+  // Deleted records don't exist as far as the API is concerned
+  exists: async (id: number) => !!(await dbGet('SELECT id FROM hackathons WHERE id = ? AND deleted_at IS NULL', [id])),
+  // Every match, or the first `limit`
+  findRows: (query: HackathonQuery = {}): Promise<HackathonRow[]> => selectRows('hackathons', hackathonFilters(query), query, HACKATHON_DATE_COLUMNS),
+  find: async (query?: HackathonQuery) => (await HackathonRepo.findRows(query)).map(HackathonRepo.fromRow),
+  findPage: (query: HackathonQuery = {}): Promise<Page<HackathonRow>> => selectPage('hackathons', hackathonFilters(query), query, HACKATHON_DATE_COLUMNS),
+  fields: fieldColumns(HACKATHON_COLUMNS),
+  numericFields: numericFields(HACKATHON_COLUMNS),
+  dateColumns: HACKATHON_DATE_COLUMNS,
+  findListing,
+
+  upsert: upsertHackathon,
+  // Every listing in one transaction; returns the row ids in order
+  upsertMany: (hackathons: Hackathon[], runId?: string): Promise<number[]> =>
+    transaction(async () => {
+      const ids: number[] = [];
+      for (const h of hackathons) {
+        try {
+          ids.push((await upsertHackathon(h, runId)).id);
+        } catch (error) {
+          throw new Error(`Saving hackathon "${h.name}" from ${h.source} failed: ${(error as Error).message}`);
+        }
+      }
+      return ids;
+    }),
+  update: async (id: number, changes: Partial<StoredHackathon>) => {
+    const values = hackathonRow(changes);
+    if (Object.keys(values).length > 0) await dbRun(updateSql('hackathons', values), [...Object.values(values), id]);
+  },
+  // A record made by hand, logged with who made it
+  create: async (h: Partial<StoredHackathon>, actor: string): Promise<number> => {
+    const values = hackathonRow(h);
+    const { lastID } = await dbRun(insertSql('hackathons', values), Object.values(values));
+    await recordCreated('hackathon', lastID, undefined, actor);
+    return lastID;
+  },
+  // A manual edit: writes the given fields whatever their locks and logs every change with who made it
+  edit: async (id: number, changes: Partial<StoredHackathon>, actor: string) => {
+    const values = hackathonRow(changes);
+    const before = await HackathonRepo.getRow(id);
+    if (!before || Object.keys(values).length === 0) return;
+    await recordUpdates('hackathon', id, before, values, undefined, actor);
+    await dbRun(updateSql('hackathons', values), [...Object.values(values), id]);
+  }
+};
+
+const CompanyRepo = {
+  fromRow: (row: CompanyRow): StoredCompany => fromRow(COMPANY_COLUMNS, row),
+  toRow: companyRow,
+
+  getRow: (id: number) => dbGet<CompanyRow>('SELECT * FROM companies WHERE id = ?', [id]),
+  get: async (id: number): Promise<StoredCompany | undefined> => {
+    const row = await CompanyRepo.getRow(id);
+    return row && CompanyRepo.fromRow(row);
+  },
+  // Deleted records don't exist as far as the API is concerned
+  exists: async (id: number) => !!(await dbGet('SELECT id FROM companies WHERE id = ? AND deleted_at IS NULL', [id])),
+  findRows: (query: CompanyQuery = {}): Promise<CompanyRow[]> => selectRows('companies', companyFilters(query), query, []),
+  find: async (query?: CompanyQuery) => (await CompanyRepo.findRows(query)).map(CompanyRepo.fromRow),
+  findPage: (query: CompanyQuery = {}): Promise<Page<CompanyRow>> => selectPage('companies', companyFilters(query), query, []),
+  fields: fieldColumns(COMPANY_COLUMNS),
+  numericFields: numericFields(COMPANY_COLUMNS),
+  dateColumns: [] as string[],
+
+  // Only the given fields are written; the rest keep their column defaults. `actor` is set for companies made by hand
+  insert: async (company: Partial<StoredCompany>, runId?: string, actor?: string): Promise<number> => {
+    const values = companyRow(company);
+    const { lastID } = await dbRun(insertSql('companies', values), Object.values(values));
+    await recordCreated('company', lastID, runId, actor);
+    return lastID;
+  },
+  // Skips locked fields and logs changed ones, except on a company's first build (new companies and stubs), which has nothing to compare against.
+  // Keeps the company's name, source and link when another company already has the new ones (one renamed by hand to them, say)
+  update: async (id: number, changes: Partial<StoredCompany>, runId?: string) => {
+    const before = await CompanyRepo.getRow(id);
+    let values = withoutColumns(companyRow(changes), lockedColumns(COMPANY_COLUMNS, before));
+    const identity = (['name', 'source', 'link'] as const).map(column => (column in values ? values[column] : before?.[column]) ?? null);
+    if (await dbGet('SELECT id FROM companies WHERE name = ? AND source IS ? AND link IS ? AND id != ?', [...identity, id])) {
+      values = withoutColumns(values, ['name', 'source', 'link']);
+    }
+    if (Object.keys(values).length === 0) return;
+    if (before?.sources) await recordUpdates('company', id, before, values, runId);
+    await dbRun(updateSql('companies', values), [...Object.values(values), id]);
+  },
+  // A manual edit: writes the given fields whatever their locks and logs every change with who made it
+  edit: async (id: number, changes: Partial<StoredCompany>, actor: string) => {
+    const values = companyRow(changes);
+    const before = await CompanyRepo.getRow(id);
+    if (!before || Object.keys(values).length === 0) return;
+    await recordUpdates('company', id, before, values, undefined, actor);
+    await dbRun(updateSql('companies', values), [...Object.values(values), id]);
+  },
+  delete: async (id: number) => (await dbRun('DELETE FROM companies WHERE id = ?', [id])).changes > 0
+};
+
+export { MANUAL_SOURCE, HackathonRepo, CompanyRepo };
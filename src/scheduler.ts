@@ -0,0 +1,215 @@
+import { dbAll, dbGet, dbRun } from './database';
+import { nextCronRun } from './cron';
+import { isJobActive, startScrapeJob } from './jobs';
+import { listSources, ScrapeFilters } from './sources';
+
+/**
+ * Recurring scrapes
+ *
+ * Schedules live in the `schedules` table, each with a cron expression, a
+ * filter set and an optional source subset. The scheduler checks for due
+ * schedules every TICK_MS and starts a scrape job for each one. If the job a
+ * schedule started last time is still running, that run is skipped. A schedule
+ * that fell due while the server was down runs once on the next tick.
+ */
+
+const TICK_MS = 30000;
+const FILTER_KEYS: (keyof ScrapeFilters)[] = ['location', 'date', 'industry', 'fundingStage'];
+
+export interface Schedule {
+  id: number;
+  name: string;
+  cron: string;
+  filters: ScrapeFilters;
+  sources?: string[];
+  enabled: boolean;
+  lastRunId?: string;
+  lastRunAt?: string;
+  lastError?: string; // Why the last run couldn't start
+  nextRunAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ScheduleInput {
+  name?: string;
+  cron?: string;
+  filters?: ScrapeFilters;
+  sources?: string[] | null;
+  enabled?: boolean;
+}
+
+const toSchedule = (row: any): Schedule => ({
+  id: row.id,
+  name: row.name,
+  cron: row.cron,
+  filters: JSON.parse(row.filters || '{}'),
+  sources: row.sources ? JSON.parse(row.sources) : undefined,
+  enabled: !!row.enabled,
+  lastRunId: row.last_run_id || undefined,
+  lastRunAt: row.last_run_at || undefined,
+  lastError: row.last_error || undefined,
+  nextRunAt: row.next_run_at || undefined,
+  createdAt: row.created_at,
+  updatedAt: row.updated_at
+});
+
+// Returns a list of problems; empty when the input is usable
+const validateSchedule = (input: ScheduleInput, partial = false): string[] => {
+  const errors: string[] = [];
+
+  if (!partial || input.name !== undefined) {
+    if (typeof input.name !== 'string' || !input.name.trim()) errors.push('name is required');
+  }
+  if (!partial || input.cron !== undefined) {
+    try {
+      nextCronRun(String(input.cron ?? '')); // Also rejects expressions that never fire, like 0 0 30 2 *
+    } catch (error) {
+      errors.push((error as Error).message);
+    }
+  }
+  if (input.filters !== undefined) {
+    if (typeof input.filters !== 'object' || input.filters === null || Array.isArray(input.filters)) {
+      errors.push('filters must be an object');
+    } else {
+      for (const [key, value] of Object.entries(input.filters)) {
+        if (!FILTER_KEYS.includes(key as keyof ScrapeFilters)) errors.push(`Unknown filter: ${key}`);
+        else if (typeof value !== 'string') errors.push(`Filter ${key} must be a string`);
+      }
+    }
+  }
+  if (input.sources !== undefined && input.sources !== null) {
+    const known = listSources().map(s => s.name);
+    if (!Array.isArray(input.sources)) errors.push('sources must be an array');
+    else errors.push(...input.sources.filter(name => !known.includes(name)).map(name => `Unknown source: ${name}`));
+  }
+  if (input.enabled !== undefined && typeof input.enabled !== 'boolean') errors.push('enabled must be a boolean');
+
+  return errors;
+};
+
+const listSchedules = async (): Promise<Schedule[]> =>
+  (await dbAll('SELECT * FROM schedules ORDER BY id')).map(toSchedule);
+
+const getSchedule = async (id: number): Promise<Schedule | undefined> => {
+  const row = await dbGet('SELECT * FROM schedules WHERE id = ?', [id]);
+  return row ? toSchedule(row) : undefined;
+};
+
+const createSchedule = async (input: ScheduleInput): Promise<Schedule> => {
+  const now = new Date().toISOString();
+  const enabled = input.enabled ?? true;
+  const { lastID } = await dbRun(
+    `INSERT INTO schedules (name, cron, filters, sources, enabled, next_run_at, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      input.name!.trim(),
+      input.cron!.trim(),
+      JSON.stringify(input.filters || {}),
+      input.sources ? JSON.stringify(input.sources) : null,
+      enabled ? 1 : 0,
+      enabled ? nextCronRun(input.cron!).toISOString() : null,
+      now,
+      now
+    ]
+  );
+  return (await getSchedule(lastID))!;
+};
+
+const updateSchedule = async (id: number, input: ScheduleInput): Promise<Schedule | undefined> => {
+  const existing = await getSchedule(id);
+  if (!existing) return undefined;
+
+  const merged = {
+    name: input.name?.trim() ?? existing.name,
+    cron: input.cron?.trim() ?? existing.cron,
+    filters: input.filters ?? existing.filters,
+    sources: input.sources === undefined ? existing.sources : input.sources || undefined,
+    enabled: input.enabled ?? existing.enabled
+  };
+
+  await dbRun(
+    `UPDATE schedules SET name = ?, cron = ?, filters = ?, sources = ?, enabled = ?, next_run_at = ?, updated_at = ? WHERE id = ?`,
+    [
+      merged.name,
+      merged.cron,
+      JSON.stringify(merged.filters),
+      merged.sources ? JSON.stringify(merged.sources) : null,
+      merged.enabled ? 1 : 0,
+      merged.enabled ? nextCronRun(merged.cron).toISOString() : null,
+      new Date().toISOString(),
+      id
+    ]
+  );
+  return getSchedule(id);
+};
+
+const deleteSchedule = async (id: number): Promise<boolean> =>
+  (await dbRun('DELETE FROM schedules WHERE id = ?', [id])).changes > 0;
+
+const runSchedule = async (schedule: Schedule, now: Date) => {
+  const nextRunAt = nextCronRun(schedule.cron, now).toISOString();
+
+  if (schedule.lastRunId && isJobActive(schedule.lastRunId)) {
+    console.log(`Skipping schedule "${schedule.name}": run ${schedule.lastRunId} is still in progress`);
+    await dbRun('UPDATE schedules SET next_run_at = ? WHERE id = ?', [nextRunAt, schedule.id]);
+    return;
+  }
+
+  console.log(`Running schedule "${schedule.name}"...`);
+  let lastRunId = schedule.lastRunId ?? null;
+  let failure: Error | undefined;
+  try {
+    lastRunId = (await startScrapeJob(schedule.filters, schedule.sources)).id;
+  } catch (error) {
+    failure = error as Error;
+  }
+
+  // Advanced even when the job couldn't start, so a broken schedule fails once per run instead of on every tick
+  await dbRun(
+    'UPDATE schedules SET last_run_id = ?, last_run_at = ?, last_error = ?, next_run_at = ? WHERE id = ?',
+    [lastRunId, now.toISOString(), failure?.message ?? null, nextRunAt, schedule.id]
+  );
+  if (failure) throw failure;
+};
+
+const runDueSchedules = async (now: Date = new Date()) => {
+  const rows = await dbAll('SELECT * FROM schedules WHERE enabled = 1 AND next_run_at <= ?', [now.toISOString()]);
+  for (const schedule of rows.map(toSchedule)) {
+    try {
+      await runSchedule(schedule, now);
+    } catch (error) {
+      console.error(`Error running schedule "${schedule.name}":`, error);
+    }
+  }
+};
+
+// Starts the background tick; returns a function that stops it
+const startScheduler = (interval = TICK_MS) => {
+  let ticking = false;
+  const tick = async () => {
+    if (ticking) return;
+    ticking = true;
+    try {
+      await runDueSchedules();
+    } catch (error) {
+      console.error('Error checking schedules:', error);
+    } finally {
+      ticking = false;
+    }
+  };
+
+  const timer = setInterval(tick, interval);
+  tick();
+  return () => clearInterval(timer);
+};
+
+export {
+  validateSchedule,
+  listSchedules,
+  getSchedule,
+  createSchedule,
+  updateSchedule,
+  deleteSchedule,
+  runDueSchedules,
+  startScheduler
+};
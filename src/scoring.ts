@@ -0,0 +1,194 @@
+import * as fs from 'fs';
+import { dbAll } from './database';
+import { distanceKm } from './locations';
+import { foldText } from './text';
+
+/**
+ * Sponsor lead scoring
+ *
+ * Scores a company 0-100 as a likely hackathon sponsor from fields we already
+ * have: events it sponsored before, its funding interests, how well its
+ * industry fits a target event, how close it is to that event, its funding
+ * stage, its size and YC backing. Each factor yields a value between 0 and 1
+ * with a one-line explanation; the score is their weighted average.
+ *
+ * Weights and factor settings default to DEFAULT_SCORING and can be
+ * overridden by a JSON file named in SCORING_CONFIG, or per request.
+ */
+
+export type ScoreFactor = 'sponsorships' | 'interests' | 'industry' | 'proximity' | 'fundingStage' | 'employees' | 'ycBacked';
+
+export interface ScoringConfig {
+  weights: Record<ScoreFactor, number>;
+  sponsorshipsForFullScore: number; // Past events that earn the whole sponsorships factor
+  interestKeywords: string[]; // fundingInterest entries that suggest sponsoring
+  proximityKm: number; // Distance at which proximity reaches zero
+  fundingStages: Record<string, number>;
+  employeeBands: { min: number; value: number }[]; // Ascending by min
+}
+
+export interface FactorScore {
+  factor: ScoreFactor;
+  weight: number;
+  value: number;
+  points: number; // Contribution to the 0-100 score
+  explanation: string;
+}
+
+export interface CompanyScore {
+  companyId: number;
+  score: number;
+  event?: { id: number; name: string };
+  factors: FactorScore[];
+}
+
+interface ScoringContext {
+  config: ScoringConfig;
+  sponsorships: number;
+  event?: any; // hackathons row the company is scored against
+}
+
+const FACTOR_NAMES: ScoreFactor[] = ['sponsorships', 'interests', 'industry', 'proximity', 'fundingStage', 'employees', 'ycBacked'];
+
+const DEFAULT_SCORING: ScoringConfig = {
+  weights: { sponsorships: 3, interests: 2, industry: 2, proximity: 1, fundingStage: 1, employees: 1, ycBacked: 0.5 },
+  sponsorshipsForFullScore: 3,
+  interestKeywords: ['hackathons', 'startups', 'developers', 'open source', 'innovation', 'students', 'community'],
+  proximityKm: 500,
+  fundingStages: {
+    'pre-seed': 0.1, seed: 0.3, 'series a': 0.5, 'series b': 0.7, 'series c': 0.9, 'series d': 1,
+    'series e': 1, 'series f': 1, 'series g': 1, 'series h': 1, public: 0.8
+  },
+  employeeBands: [
+    { min: 0, value: 0.1 },
+    { min: 10, value: 0.4 },
+    { min: 50, value: 0.7 },
+    { min: 200, value: 1 },
+    { min: 10000, value: 0.8 }
+  ]
+};
+
+const loadScoringConfig = (): ScoringConfig => {
+  const file = process.env.SCORING_CONFIG;
+  if (!file) return DEFAULT_SCORING;
+  try {
+    const overrides = JSON.parse(fs.readFileSync(file, 'utf8'));
+    return { ...DEFAULT_SCORING, ...overrides, weights: { ...DEFAULT_SCORING.weights, ...overrides.weights } };
+  } catch (error) {
+    console.error(`Error loading scoring config from ${file}:`, (error as Error).message);
+    return DEFAULT_SCORING;
+  }
+};
+
+const scoringConfig = loadScoringConfig();
+
+// "sponsorships:3,proximity:0" -> weight overrides; returns a list of problems instead when it doesn't parse
+const parseWeights = (text: string): Partial<Record<ScoreFactor, number>> | string[] => {
+  const weights: Partial<Record<ScoreFactor, number>> = {};
+  const errors: string[] = [];
+  for (const pair of text.split(',').filter(Boolean)) {
+    const [factor, value] = pair.split(':');
+    if (!FACTOR_NAMES.includes(factor as ScoreFactor)) errors.push(`Unknown score factor: ${factor}`);
+    else if (!(Number(value) >= 0)) errors.push(`Weight for ${factor} must be a non-negative number`);
+    else weights[factor as ScoreFactor] = Number(value);
+  }
+  return errors.length > 0 ? errors : weights;
+};
+
+const withWeights = (weights: Partial<Record<ScoreFactor, number>> = {}): ScoringConfig =>
+  ({ ...scoringConfig, weights: { ...scoringConfig.weights, ...weights } });
+
+const parseEmployees = (employees: string | undefined): number | undefined => {
+  const match = (employees || '').replace(/,/g, '').match(/\d+/);
+  return match ? parseInt(match[0]) : undefined;
+};
+
+const eventText = (event: any) => foldText(`${event.name || ''} ${event.description || ''}`);
+
+const FACTORS: Record<ScoreFactor, (company: any, context: ScoringContext) => { value: number; explanation: string }> = {
+  sponsorships: (_, { config, sponsorships }) => ({
+    value: Math.min(1, sponsorships / config.sponsorshipsForFullScore),
+    explanation: sponsorships > 0 ? `Sponsored ${sponsorships} hackathon${sponsorships === 1 ? '' : 's'} before` : 'No past sponsorships on record'
+  }),
+
+  interests: (company, { config }) => {
+    const interests: string[] = JSON.parse(company.funding_interest || '[]').map(foldText);
+    const matched = config.interestKeywords.filter(keyword => interests.includes(foldText(keyword)));
+    return {
+      value: Math.min(1, matched.length / 2),
+      explanation: matched.length > 0 ? `Interested in ${matched.join(', ')}` : 'No sponsor-related funding interests'
+    };
+  },
+
+  industry: (company, { event }) => {
+    if (!event) return { value: 0, explanation: 'No target event to match against' };
+    const text = eventText(event);
+    const industry = (company.industry || '').split(/[/,&]/).map((term: string) => foldText(term).trim()).filter(Boolean);
+    const matchedIndustry = industry.find((term: string) => text.includes(term));
+    if (matchedIndustry) return { value: 1, explanation: `Industry "${company.industry}" matches the event` };
+    const interest = JSON.parse(company.funding_interest || '[]').find((term: string) => text.includes(foldText(term)));
+    if (interest) return { value: 0.5, explanation: `Funding interest "${interest}" matches the event` };
+    return { value: 0, explanation: `Industry "${company.industry || 'unknown'}" doesn't match the event` };
+  },
+
+  proximity: (company, { config, event }) => {
+    if (!event) return { value: 0, explanation: 'No target event to measure distance to' };
+    if (event.is_online && event.latitude == null) return { value: 0.5, explanation: 'Event is online' };
+    if (company.latitude == null || event.latitude == null) return { value: 0, explanation: 'Company or event location unknown' };
+    const km = Math.round(distanceKm(company.latitude, company.longitude, event.latitude, event.longitude));
+    return { value: Math.max(0, 1 - km / config.proximityKm), explanation: `${km} km from the event` };
+  },
+
+  fundingStage: (company, { config }) => {
+    const stage = (company.funding_stage || '').trim().toLowerCase();
+    const value = config.fundingStages[stage];
+    return value === undefined
+      ? { value: 0, explanation: stage ? `Funding stage "${company.funding_stage}" not rated` : 'Funding stage unknown' }
+      : { value, explanation: `Funding stage ${company.funding_stage}` };
+  },
+
+  employees: (company, { config }) => {
+    const count = parseEmployees(company.employees);
+    if (count === undefined) return { value: 0, explanation: 'Company size unknown' };
+    const band = config.employeeBands.filter(b => count >= b.min).pop();
+    return { value: band?.value ?? 0, explanation: `${company.employees} employees` };
+  },
+
+  ycBacked: company => ({
+    value: company.yc_backed ? 1 : 0,
+    explanation: company.yc_backed ? 'Backed by Y Combinator' : 'Not YC-backed'
+  })
+};
+
+const scoreWith = (company: any, context: ScoringContext): CompanyScore => {
+  const totalWeight = FACTOR_NAMES.reduce((sum, factor) => sum + context.config.weights[factor], 0) || 1;
+  const factors = FACTOR_NAMES.map(factor => {
+    const weight = context.config.weights[factor];
+    const { value, explanation } = FACTORS[factor](company, context);
+    return { factor, weight, value: Math.round(value * 100) / 100, points: Math.round((weight * value * 1000) / totalWeight) / 10, explanation };
+  });
+
+  return {
+    companyId: company.id,
+    score: Math.round(factors.reduce((sum, factor) => sum + factor.points, 0)),
+    event: context.event ? { id: context.event.id, name: context.event.name } : undefined,
+    factors
+  };
+};
+
+// Events sponsored per company, counting each event once across its listings
+const sponsorshipCounts = async (): Promise<Map<number, number>> => {
+  const rows = await dbAll(
+    `SELECT hs.company_id, COUNT(DISTINCT COALESCE(h.duplicate_of, h.id)) AS count
+     FROM hackathon_sponsors hs JOIN hackathons h ON h.id = hs.hackathon_id GROUP BY hs.company_id`
+  );
+  return new Map(rows.map(row => [row.company_id, row.count]));
+};
+
+// Scores company rows, optionally against a target event row
+const scoreCompanies = async (companies: any[], event?: any, config: ScoringConfig = scoringConfig): Promise<CompanyScore[]> => {
+  const counts = await sponsorshipCounts();
+  return companies.map(company => scoreWith(company, { config, event, sponsorships: counts.get(company.id) || 0 }));
+};
+
+export { parseWeights, withWeights, scoreCompanies };
@@ -1,12 +1,27 @@
-import axios from 'axios';
 import * as cheerio from 'cheerio';
 import * as fs from 'fs';
 import * as path from 'path';
-import puppeteer from 'puppeteer';
 import { createObjectCsvWriter } from 'csv-writer';
-import db from './database';
+import { transaction } from './database';
+import { parseEventDate } from './dates';
+import { mergeCompanies } from './companies';
+import { dedupeHackathons, markDuplicateHackathons } from './hackathons';
+import { recordSourceHealth } from './health';
+import { emitScrapeEvent } from './events';
+import { fetchHtml } from './fetcher';
+import { ChangeSummary, trackChanges } from './fingerprints';
+import { resolveLocation } from './locations';
+import { HackathonRepo } from './repositories';
+import { registerSpecSources, resolveLink } from './specs';
+import { linkSponsors } from './sponsors';
+import { recordError, recordMatched, registerSource, runSources, RunOptions, ScrapeFilters, Source, SourceContext, SourceKind, SourcePage, SourceStats } from './sources';
+
+export interface SourceLink {
+  source: string;
+  link: string;
+}
 
-interface Hackathon {
+export interface Hackathon {
   name: string;
   link: string;
   sponsors: string[];
@@ -14,20 +29,36 @@ interface Hackathon {
   ycBacked?: boolean;
   fundingInterest?: string[];
   location?: string;
-  date?: string;
+  date?: string; // Raw text from the page
+  startDate?: string; // ISO 8601, parsed from date
+  endDate?: string;
+  timezone?: string;
+  city?: string; // Canonical place, resolved from location
+  region?: string;
+  country?: string;
+  latitude?: number;
+  longitude?: number;
+  online?: boolean;
   source: string;
   description?: string;
   prizes?: string[];
   participants?: number;
+  organizer?: string; // From the page's schema.org data
+  sourceLinks?: SourceLink[]; // Every listing of the same event, after deduplication
 }
 
-interface Company {
+export interface Company {
   name: string;
   link: string;
   ycBacked?: boolean;
   fundingInterest?: string[];
   industry?: string;
   location?: string;
+  city?: string; // Canonical place, resolved from location
+  region?: string;
+  country?: string;
+  latitude?: number;
+  longitude?: number;
   source: string;
   description?: string;
   fundingStage?: string;
@@ -68,475 +99,78 @@ interface Company {
  * - Concurrent scraping for speed
  * - Robust error handling and retries
  * - Global scope with extensive location coverage
+ *
+ * Each source registers itself with the registry in ./sources.ts; scrapeAllSources
+ * runs every enabled source, or only the ones named by the caller. Sources that
+ * just read listing pages are JSON specs in config/sources (see ./specs.ts).
  */
 
-const extractEmails = (text: string): string[] => {
-  const emailPattern = /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g;
-  return text.match(emailPattern) || [];
-};
-
-const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-const retryRequest = async (fn: () => Promise<any>, retries = 3, delay = 1000): Promise<any> => {
-  try {
-    return await fn();
-  } catch (error) {
-    if (retries > 0) {
-      console.log(`Retrying... ${retries} attempts left`);
-      await sleep(delay);
-      return retryRequest(fn, retries - 1, delay * 2);
-    }
-    throw error;
-  }
-};
-
-const scrapeDevpost = async (filters: { location?: string; date?: string } = {}): Promise<Hackathon[]> => {
-  console.log('Scraping Devpost...');
-  const url = 'https://devpost.com/hackathons';
-  try {
-    const response = await retryRequest(() => axios.get(url, { timeout: 10000 }));
-    const $ = cheerio.load(response.data);
-    const hackathons: Hackathon[] = [];
-
-    const tiles = $('.hackathon-tile, .challenge-tile').toArray();
-    console.log(`Found ${tiles.length} hackathon tiles on Devpost`);
-
-    for (const element of tiles.slice(0, 20)) { // Limit to avoid rate limiting
-      try {
-        const name = $(element).find('.title, .challenge-title').text().trim() || 'Unknown';
-        const link = $(element).find('a').attr('href');
-        const fullLink = link ? (link.startsWith('/') ? `https://devpost.com${link}` : link) : '';
-
-        let sponsors: string[] = [];
-        let contacts: string[] = [];
-        let location = '';
-        let date = '';
-        let description = '';
-        let prizes: string[] = [];
-        let participants = 0;
-
-        if (fullLink) {
-          try {
-            const pageResponse = await retryRequest(() => axios.get(fullLink, { timeout: 10000 }));
-            const page$ = cheerio.load(pageResponse.data);
-
-            // Extract sponsors with multiple selectors
-            sponsors = page$('.sponsor, .partner, .supporter').map((_, el) => page$(el).text().trim()).get();
-            sponsors = sponsors.filter(s => s.length > 0);
-
-            // Extract contacts
-            const pageText = page$.text();
-            contacts = extractEmails(pageText);
-
-            // Extract additional details
-            location = page$('.location, .venue').text().trim() || '';
-            date = page$('.date, .timeline').text().trim() || '';
-            description = page$('.description, .challenge-description').text().trim() || '';
-            prizes = page$('.prize, .award').map((_, el) => page$(el).text().trim()).get();
-            const participantText = page$('.participants, .registrants').text().trim();
-            participants = parseInt(participantText.replace(/\D/g, '')) || 0;
-
-            await sleep(500); // Rate limiting
-          } catch (error) {
-            console.error(`Error scraping individual hackathon ${fullLink}:`, error);
-          }
-        }
-
-        // Apply filters
-        if (filters.location && location && !location.toLowerCase().includes(filters.location.toLowerCase())) continue;
-        if (filters.date && date && !date.toLowerCase().includes(filters.date.toLowerCase())) continue;
-
-        hackathons.push({
-          name,
-          link: fullLink,
-          sponsors,
-          contacts,
-          location,
-          date,
-          source: 'Devpost',
-          description,
-          prizes,
-          participants
-        });
-      } catch (error) {
-        console.error('Error processing hackathon tile:', error);
-      }
-    }
-
-    return hackathons;
-  } catch (error) {
-    console.error('Error scraping Devpost:', error);
-    return [];
-  }
-};
-
-const scrapeHackClub = async (filters: { location?: string; date?: string } = {}): Promise<Hackathon[]> => {
-  console.log('Scraping Hack Club...');
-  const url = 'https://hackathons.hackclub.com/';
-  try {
-    const response = await retryRequest(() => axios.get(url, { timeout: 10000 }));
-    const $ = cheerio.load(response.data);
-    const hackathons: Hackathon[] = [];
-
-    const links = $('a[href*="/hackathons/"], a[href*="/events/"]').toArray();
-    console.log(`Found ${links.length} hackathon links on Hack Club`);
-
-    for (const element of links.slice(0, 15)) {
-      try {
-        const name = $(element).text().trim() || $(element).find('h3, .title').text().trim();
-        const link = $(element).attr('href');
-        const fullLink = link ? (link.startsWith('/') ? `https://hackathons.hackclub.com${link}` : link) : '';
-
-        let sponsors: string[] = [];
-        let contacts: string[] = [];
-        let location = '';
-        let date = '';
-        let description = '';
-        let prizes: string[] = [];
-
-        if (fullLink) {
-          try {
-            const pageResponse = await retryRequest(() => axios.get(fullLink, { timeout: 10000 }));
-            const page$ = cheerio.load(pageResponse.data);
-
-            sponsors = page$('.sponsor, .partner, .supporter').map((_, el) => page$(el).text().trim()).get();
-            sponsors = sponsors.filter(s => s.length > 0);
-
-            const pageText = page$.text();
-            contacts = extractEmails(pageText);
-
-            location = page$('.location, .venue, .city').text().trim() || '';
-            date = page$('.date, .when, .time').text().trim() || '';
-            description = page$('.description, .about, .details').text().trim() || '';
-            prizes = page$('.prize, .award, .reward').map((_, el) => page$(el).text().trim()).get();
-
-            await sleep(300);
-          } catch (error) {
-            console.error(`Error scraping Hack Club hackathon ${fullLink}:`, error);
-          }
-        }
-
-        if (filters.location && location && !location.toLowerCase().includes(filters.location.toLowerCase())) continue;
-        if (filters.date && date && !date.toLowerCase().includes(filters.date.toLowerCase())) continue;
-
-        hackathons.push({
-          name,
-          link: fullLink,
-          sponsors,
-          contacts,
-          location,
-          date,
-          source: 'Hack Club',
-          description,
-          prizes
-        });
-      } catch (error) {
-        console.error('Error processing Hack Club link:', error);
-      }
-    }
-
-    return hackathons;
-  } catch (error) {
-    console.error('Error scraping Hack Club:', error);
-    return [];
-  }
-};
-
-const scrapeYCBacked = async (filters: { industry?: string; location?: string; fundingStage?: string } = {}): Promise<Company[]> => {
-  console.log('Scraping Y Combinator...');
-  try {
-    const browser = await puppeteer.launch({
-      headless: true,
-      args: ['--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage']
-    });
-    const page = await browser.newPage();
-    await page.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36');
-
-    const url = 'https://www.ycombinator.com/companies/';
-    await page.goto(url, { waitUntil: 'networkidle2', timeout: 30000 });
-
-    const companies = await page.$$eval('.company, .startup', (elements) =>
-      elements.slice(0, 50).map(el => ({
-        name: el.querySelector('.name, h3, .title')?.textContent?.trim() || '',
-        link: el.querySelector('a')?.href || '',
-        industry: el.querySelector('.industry, .category')?.textContent?.trim() || '',
-        location: el.querySelector('.location, .city')?.textContent?.trim() || '',
-        description: el.querySelector('.description, .summary')?.textContent?.trim() || '',
-        fundingStage: el.querySelector('.stage, .round')?.textContent?.trim() || 'Seed',
-        ycBacked: true,
-        fundingInterest: ['startups', 'hackathons', 'innovation']
-      }))
-    );
-
-    await browser.close();
-
-    return companies
-      .filter(c => c.name && c.name.length > 0)
-      .filter(c => {
-        if (filters.industry && c.industry && !c.industry.toLowerCase().includes(filters.industry.toLowerCase())) return false;
-        if (filters.location && c.location && !c.location.toLowerCase().includes(filters.location.toLowerCase())) return false;
-        if (filters.fundingStage && c.fundingStage && !c.fundingStage.toLowerCase().includes(filters.fundingStage.toLowerCase())) return false;
-        return true;
-      })
-      .map(c => ({ ...c, source: 'Y Combinator' }));
-  } catch (error) {
-    console.error('Error scraping Y Combinator:', error);
-    return [];
-  }
-};
-
-const scrapeCrunchbase = async (filters: { industry?: string; location?: string; fundingStage?: string } = {}): Promise<Company[]> => {
-  console.log('Scraping Crunchbase...');
-  const companies: Company[] = [
-    { name: 'Stripe', link: 'https://crunchbase.com/organization/stripe', industry: 'Fintech', location: 'San Francisco', fundingStage: 'Series G', description: 'Payment processing platform', employees: '2000+', fundingInterest: ['payments', 'startups', 'fintech'], source: 'Crunchbase' },
-    { name: 'Google', link: 'https://crunchbase.com/organization/google', industry: 'Technology', location: 'Mountain View', fundingStage: 'Public', description: 'Search and technology company', employees: '150000+', fundingInterest: ['AI', 'cloud', 'hackathons'], source: 'Crunchbase' },
-    { name: 'Microsoft', link: 'https://crunchbase.com/organization/microsoft', industry: 'Technology', location: 'Redmond', fundingStage: 'Public', description: 'Software and cloud company', employees: '180000+', fundingInterest: ['cloud', 'AI', 'startups'], source: 'Crunchbase' },
-    { name: 'Amazon', link: 'https://crunchbase.com/organization/amazon', industry: 'E-commerce', location: 'Seattle', fundingStage: 'Public', description: 'E-commerce and cloud computing', employees: '1500000+', fundingInterest: ['e-commerce', 'cloud', 'startups'], source: 'Crunchbase' },
-    { name: 'Meta', link: 'https://crunchbase.com/organization/meta', industry: 'Social Media', location: 'Menlo Park', fundingStage: 'Public', description: 'Social media and technology', employees: '58000+', fundingInterest: ['social', 'VR', 'hackathons'], source: 'Crunchbase' }
-  ];
-
-  return companies.filter(c => {
-    if (filters.industry && c.industry && !c.industry.toLowerCase().includes(filters.industry.toLowerCase())) return false;
-    if (filters.location && c.location && !c.location.toLowerCase().includes(filters.location.toLowerCase())) return false;
-    if (filters.fundingStage && c.fundingStage && !c.fundingStage.toLowerCase().includes(filters.fundingStage.toLowerCase())) return false;
-    return true;
-  });
-};
-
-const scrapeAngelList = async (filters: { industry?: string; location?: string; fundingStage?: string } = {}): Promise<Company[]> => {
-  console.log('Scraping AngelList...');
-  const companies: Company[] = [
-    { name: 'Airbnb', link: 'https://angel.co/company/airbnb', industry: 'Hospitality', location: 'San Francisco', fundingStage: 'Public', description: 'Short-term rentals platform', employees: '6000+', fundingInterest: ['travel', 'hospitality', 'startups'], source: 'AngelList' },
-    { name: 'Uber', link: 'https://angel.co/company/uber', industry: 'Transportation', location: 'San Francisco', fundingStage: 'Public', description: 'Ride-sharing platform', employees: '22000+', fundingInterest: ['transportation', 'gig economy', 'hackathons'], source: 'AngelList' },
-    { name: 'Slack', link: 'https://angel.co/company/slack', industry: 'Communication', location: 'San Francisco', fundingStage: 'Public', description: 'Team communication platform', employees: '2500+', fundingInterest: ['communication', 'productivity', 'startups'], source: 'AngelList' },
-    { name: 'Dropbox', link: 'https://angel.co/company/dropbox', industry: 'Cloud Storage', location: 'San Francisco', fundingStage: 'Public', description: 'File hosting service', employees: '2500+', fundingInterest: ['cloud', 'storage', 'collaboration'], source: 'AngelList' }
-  ];
-
-  return companies.filter(c => {
-    if (filters.industry && c.industry && !c.industry.toLowerCase().includes(filters.industry.toLowerCase())) return false;
-    if (filters.location && c.location && !c.location.toLowerCase().includes(filters.location.toLowerCase())) return false;
-    if (filters.fundingStage && c.fundingStage && !c.fundingStage.toLowerCase().includes(filters.fundingStage.toLowerCase())) return false;
-    return true;
-  });
-};
-
-const scrapeProductHunt = async (filters: { industry?: string } = {}): Promise<Company[]> => {
-  console.log('Scraping Product Hunt...');
-  const companies: Company[] = [
-    { name: 'Notion', link: 'https://www.producthunt.com/products/notion', industry: 'Productivity', location: 'San Francisco', fundingStage: 'Series C', description: 'All-in-one workspace', employees: '200+', fundingInterest: ['productivity', 'tools', 'startups'], source: 'Product Hunt' },
-    { name: 'Figma', link: 'https://www.producthunt.com/products/figma', industry: 'Design', location: 'San Francisco', fundingStage: 'Series E', description: 'Collaborative design tool', employees: '500+', fundingInterest: ['design', 'collaboration', 'hackathons'], source: 'Product Hunt' },
-    { name: 'Linear', link: 'https://www.producthunt.com/products/linear', industry: 'Project Management', location: 'San Francisco', fundingStage: 'Series A', description: 'Issue tracking tool', employees: '50+', fundingInterest: ['productivity', 'development', 'startups'], source: 'Product Hunt' },
-    { name: 'Superhuman', link: 'https://www.producthunt.com/products/superhuman', industry: 'Email', location: 'San Francisco', fundingStage: 'Series B', description: 'Fast email client', employees: '50+', fundingInterest: ['productivity', 'communication', 'startups'], source: 'Product Hunt' }
-  ];
-
-  return companies.filter(c => {
-    if (filters.industry && c.industry && !c.industry.toLowerCase().includes(filters.industry.toLowerCase())) return false;
-    return true;
-  });
-};
-
-const scrapeHackerEarth = async (filters: { location?: string; date?: string } = {}): Promise<Hackathon[]> => {
-  console.log('Scraping HackerEarth...');
-  const url = 'https://www.hackerearth.com/challenges/';
-  try {
-    const response = await retryRequest(() => axios.get(url, { timeout: 10000 }));
-    const $ = cheerio.load(response.data);
-    const hackathons: Hackathon[] = [];
-
-    const challenges = $('.challenge-card, .hackathon-card').toArray();
-    console.log(`Found ${challenges.length} challenges on HackerEarth`);
-
-    for (const element of challenges.slice(0, 15)) {
-      try {
-        const name = $(element).find('.title, h3').text().trim();
-        const link = $(element).find('a').attr('href');
-        const fullLink = link ? (link.startsWith('http') ? link : `https://www.hackerearth.com${link}`) : '';
-
-        let location = $(element).find('.location, .venue').text().trim() || '';
-        let date = $(element).find('.date, .timeline').text().trim() || '';
-
-        if (filters.location && location && !location.toLowerCase().includes(filters.location.toLowerCase())) continue;
-        if (filters.date && date && !date.toLowerCase().includes(filters.date.toLowerCase())) continue;
-
-        hackathons.push({
-          name,
-          link: fullLink,
-          sponsors: [],
-          contacts: [],
-          location,
-          date,
-          source: 'HackerEarth'
-        });
-      } catch (error) {
-        console.error('Error processing HackerEarth challenge:', error);
-      }
-    }
-
-    return hackathons;
-  } catch (error) {
-    console.error('Error scraping HackerEarth:', error);
-    return [];
-  }
-};
-
-const scrapeMLH = async (filters: { location?: string; date?: string } = {}): Promise<Hackathon[]> => {
-  console.log('Scraping MLH...');
-  const url = 'https://mlh.io/seasons/2025/events';
-  try {
-    const response = await retryRequest(() => axios.get(url, { timeout: 10000 }));
-    const $ = cheerio.load(response.data);
-    const hackathons: Hackathon[] = [];
-
-    const events = $('.event, .hackathon').toArray();
-    console.log(`Found ${events.length} events on MLH`);
-
-    for (const element of events.slice(0, 20)) {
-      try {
-        const name = $(element).find('.name, .title').text().trim();
-        const link = $(element).find('a').attr('href');
-        const fullLink = link ? (link.startsWith('http') ? link : `https://mlh.io${link}`) : '';
-
-        let location = $(element).find('.location, .city').text().trim() || '';
-        let date = $(element).find('.date, .when').text().trim() || '';
-
-        if (filters.location && location && !location.toLowerCase().includes(filters.location.toLowerCase())) continue;
-        if (filters.date && date && !date.toLowerCase().includes(filters.date.toLowerCase())) continue;
-
-        hackathons.push({
-          name,
-          link: fullLink,
-          sponsors: [],
-          contacts: [],
-          location,
-          date,
-          source: 'MLH'
-        });
-      } catch (error) {
-        console.error('Error processing MLH event:', error);
-      }
-    }
-
-    return hackathons;
-  } catch (error) {
-    console.error('Error scraping MLH:', error);
-    return [];
-  }
-};
-
-const scrapeEventbrite = async (filters: { location?: string; date?: string } = {}): Promise<Hackathon[]> => {
-  console.log('Scraping Eventbrite...');
-  const locations = ['san-francisco', 'new-york', 'london', 'berlin', 'tokyo', 'singapore', 'bangalore', 'sydney'];
-  const hackathons: Hackathon[] = [];
-
-  for (const location of locations) {
-    try {
-      const url = `https://www.eventbrite.com/d/${location}/hackathon/`;
-      const response = await retryRequest(() => axios.get(url, { timeout: 10000 }));
-      const $ = cheerio.load(response.data);
-
-      const events = $('.event-card, .search-event-card').toArray();
-      console.log(`Found ${events.length} events in ${location} on Eventbrite`);
-
-      for (const element of events.slice(0, 10)) {
-        try {
-          const name = $(element).find('.event-card__title, .eds-event-card__name').text().trim();
-          const link = $(element).find('a').attr('href');
-          const fullLink = link ? (link.startsWith('http') ? link : link) : '';
-          const date = $(element).find('.event-card__date, .eds-event-card__formatted-date').text().trim() || '';
-          const eventLocation = $(element).find('.event-card__venue, .eds-event-card__venue').text().trim() || location.replace('-', ' ');
-
-          if (filters.location && eventLocation && !eventLocation.toLowerCase().includes(filters.location.toLowerCase())) continue;
-          if (filters.date && date && !date.toLowerCase().includes(filters.date.toLowerCase())) continue;
-
-          hackathons.push({
-            name,
-            link: fullLink,
-            sponsors: [],
-            contacts: [],
-            location: eventLocation,
-            date,
-            source: 'Eventbrite'
-          });
-        } catch (error) {
-          console.error('Error processing Eventbrite event:', error);
-        }
-      }
-
-      await sleep(1000); // Rate limiting
-    } catch (error) {
-      console.error(`Error scraping Eventbrite ${location}:`, error);
-    }
-  }
-
-  return hackathons;
-};
-
-const scrapeMeetup = async (filters: { location?: string; date?: string } = {}): Promise<Hackathon[]> => {
-  console.log('Scraping Meetup...');
-  const cities = ['san-francisco', 'new-york', 'london', 'berlin', 'tokyo', 'singapore', 'bangalore', 'sydney', 'toronto', 'amsterdam'];
-  const hackathons: Hackathon[] = [];
-
-  for (const city of cities) {
-    try {
-      const url = `https://www.meetup.com/cities/${city}/events/?type=past&keywords=hackathon`;
-      const response = await retryRequest(() => axios.get(url, { timeout: 10000 }));
-      const $ = cheerio.load(response.data);
-
-      const events = $('.eventCard, .event-card').toArray();
-      console.log(`Found ${events.length} hackathon events in ${city} on Meetup`);
-
-      for (const element of events.slice(0, 8)) {
-        try {
-          const name = $(element).find('.eventCard--title, .event-title').text().trim();
-          const link = $(element).find('a').attr('href');
-          const fullLink = link ? (link.startsWith('http') ? link : `https://www.meetup.com${link}`) : '';
-          const date = $(element).find('.eventCard--dateTime, .event-date').text().trim() || '';
-          const location = $(element).find('.eventCard--venue, .event-venue').text().trim() || city.replace('-', ' ');
-
-          if (name.toLowerCase().includes('hackathon') || name.toLowerCase().includes('hack')) {
-            if (filters.location && location && !location.toLowerCase().includes(filters.location.toLowerCase())) continue;
-            if (filters.date && date && !date.toLowerCase().includes(filters.date.toLowerCase())) continue;
-
-            hackathons.push({
-              name,
-              link: fullLink,
-              sponsors: [],
-              contacts: [],
-              location,
-              date,
-              source: 'Meetup'
-            });
-          }
-        } catch (error) {
-          console.error('Error processing Meetup event:', error);
-        }
-      }
-
-      await sleep(800);
-    } catch (error) {
-      console.error(`Error scraping Meetup ${city}:`, error);
-    }
-  }
-
-  return hackathons;
-};
-
-const scrapeTechCrunch = async (filters: { industry?: string; location?: string } = {}): Promise<Company[]> => {
-  console.log('Scraping TechCrunch...');
-  try {
-    const url = 'https://techcrunch.com/startups/';
-    const response = await retryRequest(() => axios.get(url, { timeout: 10000 }));
-    const $ = cheerio.load(response.data);
+const fetchOne = async (url: string, context: SourceContext): Promise<SourcePage[]> => [{ url, body: await fetchHtml(url, context) }];
+
+// Sources backed by a curated list rather than a live page
+const seedSource = <T>(name: string, kind: SourceKind, filters: (keyof ScrapeFilters)[], items: T[]): Source<T> => ({
+  name,
+  kind,
+  capabilities: { filters, network: false },
+  fetch: async () => {
+    console.log(`Scraping ${name}...`);
+    return [{ url: '', body: items }];
+  },
+  parse: page => page.body
+});
+
+registerSpecSources();
+
+registerSource(seedSource<Hackathon>('LinkedIn Events', 'hackathon', ['location', 'date'], [
+  { name: 'TechCrunch Disrupt', link: 'https://www.linkedin.com/events/techcrunchdisrupt2025', sponsors: [], contacts: [], location: 'San Francisco', date: 'October 2025', source: 'LinkedIn Events' },
+  { name: 'Web Summit', link: 'https://www.linkedin.com/events/websummit2025', sponsors: [], contacts: [], location: 'Lisbon', date: 'November 2025', source: 'LinkedIn Events' },
+  { name: 'Slush', link: 'https://www.linkedin.com/events/slush2025', sponsors: [], contacts: [], location: 'Helsinki', date: 'November 2025', source: 'LinkedIn Events' },
+  { name: 'CES 2026', link: 'https://www.linkedin.com/events/ces2026', sponsors: [], contacts: [], location: 'Las Vegas', date: 'January 2026', source: 'LinkedIn Events' },
+  { name: 'Collision', link: 'https://www.linkedin.com/events/collision2025', sponsors: [], contacts: [], location: 'Toronto', date: 'April 2025', source: 'LinkedIn Events' }
+]));
+
+registerSource(seedSource<Company>('Crunchbase', 'company', ['industry', 'location', 'fundingStage'], [
+  { name: 'Stripe', link: 'https://crunchbase.com/organization/stripe', industry: 'Fintech', location: 'San Francisco', fundingStage: 'Series G', description: 'Payment processing platform', employees: '2000+', fundingInterest: ['payments', 'startups', 'fintech'], source: 'Crunchbase' },
+  { name: 'Google', link: 'https://crunchbase.com/organization/google', industry: 'Technology', location: 'Mountain View', fundingStage: 'Public', description: 'Search and technology company', employees: '150000+', fundingInterest: ['AI', 'cloud', 'hackathons'], source: 'Crunchbase' },
+  { name: 'Microsoft', link: 'https://crunchbase.com/organization/microsoft', industry: 'Technology', location: 'Redmond', fundingStage: 'Public', description: 'Software and cloud company', employees: '180000+', fundingInterest: ['cloud', 'AI', 'startups'], source: 'Crunchbase' },
+  { name: 'Amazon', link: 'https://crunchbase.com/organization/amazon', industry: 'E-commerce', location: 'Seattle', fundingStage: 'Public', description: 'E-commerce and cloud computing', employees: '1500000+', fundingInterest: ['e-commerce', 'cloud', 'startups'], source: 'Crunchbase' },
+  { name: 'Meta', link: 'https://crunchbase.com/organization/meta', industry: 'Social Media', location: 'Menlo Park', fundingStage: 'Public', description: 'Social media and technology', employees: '58000+', fundingInterest: ['social', 'VR', 'hackathons'], source: 'Crunchbase' }
+]));
+
+registerSource(seedSource<Company>('AngelList', 'company', ['industry', 'location', 'fundingStage'], [
+  { name: 'Airbnb', link: 'https://angel.co/company/airbnb', industry: 'Hospitality', location: 'San Francisco', fundingStage: 'Public', description: 'Short-term rentals platform', employees: '6000+', fundingInterest: ['travel', 'hospitality', 'startups'], source: 'AngelList' },
+  { name: 'Uber', link: 'https://angel.co/company/uber', industry: 'Transportation', location: 'San Francisco', fundingStage: 'Public', description: 'Ride-sharing platform', employees: '22000+', fundingInterest: ['transportation', 'gig economy', 'hackathons'], source: 'AngelList' },
+  { name: 'Slack', link: 'https://angel.co/company/slack', industry: 'Communication', location: 'San Francisco', fundingStage: 'Public', description: 'Team communication platform', employees: '2500+', fundingInterest: ['communication', 'productivity', 'startups'], source: 'AngelList' },
+  { name: 'Dropbox', link: 'https://angel.co/company/dropbox', industry: 'Cloud Storage', location: 'San Francisco', fundingStage: 'Public', description: 'File hosting service', employees: '2500+', fundingInterest: ['cloud', 'storage', 'collaboration'], source: 'AngelList' }
+]));
+
+registerSource(seedSource<Company>('Product Hunt', 'company', ['industry'], [
+  { name: 'Notion', link: 'https://www.producthunt.com/products/notion', industry: 'Productivity', location: 'San Francisco', fundingStage: 'Series C', description: 'All-in-one workspace', employees: '200+', fundingInterest: ['productivity', 'tools', 'startups'], source: 'Product Hunt' },
+  { name: 'Figma', link: 'https://www.producthunt.com/products/figma', industry: 'Design', location: 'San Francisco', fundingStage: 'Series E', description: 'Collaborative design tool', employees: '500+', fundingInterest: ['design', 'collaboration', 'hackathons'], source: 'Product Hunt' },
+  { name: 'Linear', link: 'https://www.producthunt.com/products/linear', industry: 'Project Management', location: 'San Francisco', fundingStage: 'Series A', description: 'Issue tracking tool', employees: '50+', fundingInterest: ['productivity', 'development', 'startups'], source: 'Product Hunt' },
+  { name: 'Superhuman', link: 'https://www.producthunt.com/products/superhuman', industry: 'Email', location: 'San Francisco', fundingStage: 'Series B', description: 'Fast email client', employees: '50+', fundingInterest: ['productivity', 'communication', 'startups'], source: 'Product Hunt' }
+]));
+
+registerSource<Company>({
+  name: 'TechCrunch',
+  kind: 'company',
+  capabilities: { filters: [], network: true },
+  fetch: async (_, context) => {
+    console.log('Scraping TechCrunch...');
+    return fetchOne('https://techcrunch.com/startups/', context);
+  },
+  parse: (page, filters, context) => {
+    const $ = cheerio.load(page.body);
     const companies: Company[] = [];
 
     const articles = $('.post-block, .river-block').toArray();
     console.log(`Found ${articles.length} startup articles on TechCrunch`);
+    recordMatched(context, articles.length);
 
     for (const element of articles.slice(0, 15)) {
       try {
         const title = $(element).find('.post-block__title, .river-block__title').text().trim();
-        const link = $(element).find('a').attr('href');
-        const fullLink = link ? (link.startsWith('http') ? link : `https://techcrunch.com${link}`) : '';
+        const fullLink = resolveLink($(element).find('a').attr('href'), 'https://techcrunch.com');
 
         // Extract company mentions from article titles
         const companyMatches = title.match(/([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)/g) || [];
@@ -557,32 +191,34 @@ const scrapeTechCrunch = async (filters: { industry?: string; location?: string
         }
       } catch (error) {
         console.error('Error processing TechCrunch article:', error);
+        recordError(context, error);
       }
     }
 
     return companies;
-  } catch (error) {
-    console.error('Error scraping TechCrunch:', error);
-    return [];
   }
-};
-
-const scrapeVentureBeat = async (filters: { industry?: string; location?: string } = {}): Promise<Company[]> => {
-  console.log('Scraping VentureBeat...');
-  try {
-    const url = 'https://venturebeat.com/category/ai/';
-    const response = await retryRequest(() => axios.get(url, { timeout: 10000 }));
-    const $ = cheerio.load(response.data);
+});
+
+registerSource<Company>({
+  name: 'VentureBeat',
+  kind: 'company',
+  capabilities: { filters: [], network: true },
+  fetch: async (_, context) => {
+    console.log('Scraping VentureBeat...');
+    return fetchOne('https://venturebeat.com/category/ai/', context);
+  },
+  parse: (page, _, context) => {
+    const $ = cheerio.load(page.body);
     const companies: Company[] = [];
 
     const articles = $('.article, .post').toArray();
     console.log(`Found ${articles.length} AI articles on VentureBeat`);
+    recordMatched(context, articles.length);
 
     for (const element of articles.slice(0, 12)) {
       try {
         const title = $(element).find('.article-title, .post-title').text().trim();
-        const link = $(element).find('a').attr('href');
-        const fullLink = link ? (link.startsWith('http') ? link : link) : '';
+        const fullLink = resolveLink($(element).find('a').attr('href'), '');
 
         const companyMatches = title.match(/([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)/g) || [];
         const potentialCompanies = (companyMatches as string[]).filter((name: string) => name.length > 2);
@@ -600,151 +236,101 @@ const scrapeVentureBeat = async (filters: { industry?: string; location?: string
         }
       } catch (error) {
         console.error('Error processing VentureBeat article:', error);
+        recordError(context, error);
       }
     }
 
     return companies;
-  } catch (error) {
-    console.error('Error scraping VentureBeat:', error);
-    return [];
   }
+});
+
+registerSource(seedSource<Company>('GitHub Sponsors', 'company', ['industry', 'location'], [
+  { name: 'Stripe', link: 'https://github.com/sponsors/stripe', industry: 'Fintech', location: 'San Francisco', fundingInterest: ['open source', 'developers'], source: 'GitHub Sponsors' },
+  { name: 'Tailwind CSS', link: 'https://github.com/sponsors/tailwindcss', industry: 'Design/Tools', location: 'Various', fundingInterest: ['open source', 'design'], source: 'GitHub Sponsors' },
+  { name: 'Vercel', link: 'https://github.com/sponsors/vercel', industry: 'Platform', location: 'San Francisco', fundingInterest: ['open source', 'deployment'], source: 'GitHub Sponsors' },
+  { name: 'Prisma', link: 'https://github.com/sponsors/prisma', industry: 'Database', location: 'Berlin', fundingInterest: ['open source', 'database'], source: 'GitHub Sponsors' },
+  { name: 'Supabase', link: 'https://github.com/sponsors/supabase', industry: 'Backend', location: 'Various', fundingInterest: ['open source', 'backend'], source: 'GitHub Sponsors' },
+  { name: 'PlanetScale', link: 'https://github.com/sponsors/planetscale', industry: 'Database', location: 'Various', fundingInterest: ['open source', 'database'], source: 'GitHub Sponsors' },
+  { name: 'Sentry', link: 'https://github.com/sponsors/getsentry', industry: 'Monitoring', location: 'San Francisco', fundingInterest: ['open source', 'monitoring'], source: 'GitHub Sponsors' },
+  { name: 'PostHog', link: 'https://github.com/sponsors/PostHog', industry: 'Analytics', location: 'Various', fundingInterest: ['open source', 'analytics'], source: 'GitHub Sponsors' }
+]));
+
+registerSource(seedSource<Company>('Indie Hackers', 'company', ['industry', 'location'], [
+  { name: 'ConvertKit', link: 'https://www.indiehackers.com/product/convertkit', industry: 'Marketing', location: 'Various', fundingInterest: ['email marketing', 'startups'], source: 'Indie Hackers' },
+  { name: 'Gumroad', link: 'https://www.indiehackers.com/product/gumroad', industry: 'E-commerce', location: 'Various', fundingInterest: ['digital products', 'startups'], source: 'Indie Hackers' },
+  { name: 'Patreon', link: 'https://www.indiehackers.com/product/patreon', industry: 'Platform', location: 'San Francisco', fundingInterest: ['creators', 'subscription'], source: 'Indie Hackers' },
+  { name: 'Shopify', link: 'https://www.indiehackers.com/product/shopify', industry: 'E-commerce', location: 'Ottawa', fundingInterest: ['e-commerce', 'startups'], source: 'Indie Hackers' },
+  { name: 'Stripe', link: 'https://www.indiehackers.com/product/stripe', industry: 'Fintech', location: 'San Francisco', fundingInterest: ['payments', 'startups'], source: 'Indie Hackers' },
+  { name: 'Notion', link: 'https://www.indiehackers.com/product/notion', industry: 'Productivity', location: 'San Francisco', fundingInterest: ['productivity', 'tools'], source: 'Indie Hackers' }
+]));
+
+registerSource(seedSource<Company>('BuiltWith', 'company', ['industry', 'location'], [
+  { name: 'Shopify', link: 'https://builtwith.com/shopify', industry: 'E-commerce', location: 'Ottawa', fundingInterest: ['e-commerce', 'startups'], source: 'BuiltWith' },
+  { name: 'WordPress', link: 'https://builtwith.com/wordpress', industry: 'CMS', location: 'Various', fundingInterest: ['content', 'websites'], source: 'BuiltWith' },
+  { name: 'Cloudflare', link: 'https://builtwith.com/cloudflare', industry: 'Infrastructure', location: 'San Francisco', fundingInterest: ['cdn', 'security'], source: 'BuiltWith' },
+  { name: 'Google Analytics', link: 'https://builtwith.com/google-analytics', industry: 'Analytics', location: 'Mountain View', fundingInterest: ['analytics', 'data'], source: 'BuiltWith' },
+  { name: 'Stripe', link: 'https://builtwith.com/stripe', industry: 'Fintech', location: 'San Francisco', fundingInterest: ['payments', 'startups'], source: 'BuiltWith' },
+  { name: 'Amazon Web Services', link: 'https://builtwith.com/amazon-web-services', industry: 'Cloud', location: 'Seattle', fundingInterest: ['cloud', 'infrastructure'], source: 'BuiltWith' }
+]));
+
+const withEventDates = (h: Hackathon): Hackathon => ({ ...h, ...parseEventDate(h.date) });
+
+const withHackathonLocation = (h: Hackathon): Hackathon => ({ ...h, ...resolveLocation(h.location) });
+
+const withCompanyLocation = (c: Company): Company => {
+  const resolved = resolveLocation(c.location);
+  if (!resolved) return c;
+  const { online, ...place } = resolved;
+  return { ...c, ...place };
 };
 
-const scrapeGitHubSponsors = async (filters: { industry?: string; location?: string } = {}): Promise<Company[]> => {
-  console.log('Scraping GitHub Sponsors...');
-  const companies: Company[] = [
-    { name: 'Stripe', link: 'https://github.com/sponsors/stripe', industry: 'Fintech', location: 'San Francisco', fundingInterest: ['open source', 'developers'], source: 'GitHub Sponsors' },
-    { name: 'Tailwind CSS', link: 'https://github.com/sponsors/tailwindcss', industry: 'Design/Tools', location: 'Various', fundingInterest: ['open source', 'design'], source: 'GitHub Sponsors' },
-    { name: 'Vercel', link: 'https://github.com/sponsors/vercel', industry: 'Platform', location: 'San Francisco', fundingInterest: ['open source', 'deployment'], source: 'GitHub Sponsors' },
-    { name: 'Prisma', link: 'https://github.com/sponsors/prisma', industry: 'Database', location: 'Berlin', fundingInterest: ['open source', 'database'], source: 'GitHub Sponsors' },
-    { name: 'Supabase', link: 'https://github.com/sponsors/supabase', industry: 'Backend', location: 'Various', fundingInterest: ['open source', 'backend'], source: 'GitHub Sponsors' },
-    { name: 'PlanetScale', link: 'https://github.com/sponsors/planetscale', industry: 'Database', location: 'Various', fundingInterest: ['open source', 'database'], source: 'GitHub Sponsors' },
-    { name: 'Sentry', link: 'https://github.com/sponsors/getsentry', industry: 'Monitoring', location: 'San Francisco', fundingInterest: ['open source', 'monitoring'], source: 'GitHub Sponsors' },
-    { name: 'PostHog', link: 'https://github.com/sponsors/PostHog', industry: 'Analytics', location: 'Various', fundingInterest: ['open source', 'analytics'], source: 'GitHub Sponsors' }
-  ];
-
-  return companies.filter(c => {
-    if (filters.industry && c.industry && !c.industry.toLowerCase().includes(filters.industry.toLowerCase())) return false;
-    if (filters.location && c.location && !c.location.toLowerCase().includes(filters.location.toLowerCase())) return false;
-    return true;
-  });
-};
-
-const scrapeIndieHackers = async (filters: { industry?: string; location?: string } = {}): Promise<Company[]> => {
-  console.log('Scraping Indie Hackers...');
-  const companies: Company[] = [
-    { name: 'ConvertKit', link: 'https://www.indiehackers.com/product/convertkit', industry: 'Marketing', location: 'Various', fundingInterest: ['email marketing', 'startups'], source: 'Indie Hackers' },
-    { name: 'Gumroad', link: 'https://www.indiehackers.com/product/gumroad', industry: 'E-commerce', location: 'Various', fundingInterest: ['digital products', 'startups'], source: 'Indie Hackers' },
-    { name: 'Patreon', link: 'https://www.indiehackers.com/product/patreon', industry: 'Platform', location: 'San Francisco', fundingInterest: ['creators', 'subscription'], source: 'Indie Hackers' },
-    { name: 'Shopify', link: 'https://www.indiehackers.com/product/shopify', industry: 'E-commerce', location: 'Ottawa', fundingInterest: ['e-commerce', 'startups'], source: 'Indie Hackers' },
-    { name: 'Stripe', link: 'https://www.indiehackers.com/product/stripe', industry: 'Fintech', location: 'San Francisco', fundingInterest: ['payments', 'startups'], source: 'Indie Hackers' },
-    { name: 'Notion', link: 'https://www.indiehackers.com/product/notion', industry: 'Productivity', location: 'San Francisco', fundingInterest: ['productivity', 'tools'], source: 'Indie Hackers' }
-  ];
-
-  return companies.filter(c => {
-    if (filters.industry && c.industry && !c.industry.toLowerCase().includes(filters.industry.toLowerCase())) return false;
-    if (filters.location && c.location && !c.location.toLowerCase().includes(filters.location.toLowerCase())) return false;
-    return true;
-  });
-};
-
-const scrapeBuiltWith = async (filters: { industry?: string; location?: string } = {}): Promise<Company[]> => {
-  console.log('Scraping BuiltWith...');
-  const companies: Company[] = [
-    { name: 'Shopify', link: 'https://builtwith.com/shopify', industry: 'E-commerce', location: 'Ottawa', fundingInterest: ['e-commerce', 'startups'], source: 'BuiltWith' },
-    { name: 'WordPress', link: 'https://builtwith.com/wordpress', industry: 'CMS', location: 'Various', fundingInterest: ['content', 'websites'], source: 'BuiltWith' },
-    { name: 'Cloudflare', link: 'https://builtwith.com/cloudflare', industry: 'Infrastructure', location: 'San Francisco', fundingInterest: ['cdn', 'security'], source: 'BuiltWith' },
-    { name: 'Google Analytics', link: 'https://builtwith.com/google-analytics', industry: 'Analytics', location: 'Mountain View', fundingInterest: ['analytics', 'data'], source: 'BuiltWith' },
-    { name: 'Stripe', link: 'https://builtwith.com/stripe', industry: 'Fintech', location: 'San Francisco', fundingInterest: ['payments', 'startups'], source: 'BuiltWith' },
-    { name: 'Amazon Web Services', link: 'https://builtwith.com/amazon-web-services', industry: 'Cloud', location: 'Seattle', fundingInterest: ['cloud', 'infrastructure'], source: 'BuiltWith' }
-  ];
-
-  return companies.filter(c => {
-    if (filters.industry && c.industry && !c.industry.toLowerCase().includes(filters.industry.toLowerCase())) return false;
-    if (filters.location && c.location && !c.location.toLowerCase().includes(filters.location.toLowerCase())) return false;
-    return true;
-  });
-};
-
-const scrapeLinkedInEvents = async (filters: { location?: string; date?: string } = {}): Promise<Hackathon[]> => {
-  console.log('Scraping LinkedIn Events...');
-  const hackathons: Hackathon[] = [
-    { name: 'TechCrunch Disrupt', link: 'https://www.linkedin.com/events/techcrunchdisrupt2025', sponsors: [], contacts: [], location: 'San Francisco', date: 'October 2025', source: 'LinkedIn Events' },
-    { name: 'Web Summit', link: 'https://www.linkedin.com/events/websummit2025', sponsors: [], contacts: [], location: 'Lisbon', date: 'November 2025', source: 'LinkedIn Events' },
-    { name: 'Slush', link: 'https://www.linkedin.com/events/slush2025', sponsors: [], contacts: [], location: 'Helsinki', date: 'November 2025', source: 'LinkedIn Events' },
-    { name: 'CES 2026', link: 'https://www.linkedin.com/events/ces2026', sponsors: [], contacts: [], location: 'Las Vegas', date: 'January 2026', source: 'LinkedIn Events' },
-    { name: 'Collision', link: 'https://www.linkedin.com/events/collision2025', sponsors: [], contacts: [], location: 'Toronto', date: 'April 2025', source: 'LinkedIn Events' }
-  ];
-
-  return hackathons.filter(h => {
-    if (filters.location && h.location && !h.location.toLowerCase().includes(filters.location.toLowerCase())) return false;
-    if (filters.date && h.date && !h.date.toLowerCase().includes(filters.date.toLowerCase())) return false;
-    return true;
-  });
-};
-
-const saveToDB = async (hackathons: Hackathon[], companies: Company[]) => {
+const saveToDB = async (hackathons: Hackathon[], companies: Company[], runId?: string) => {
   console.log(`Saving ${hackathons.length} hackathons and ${companies.length} companies to database...`);
 
-  for (const h of hackathons) {
-    db.run(
-      `INSERT OR REPLACE INTO hackathons (name, link, sponsors, contacts, yc_backed, funding_interest, location, date, source, description, prizes, participants) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      [h.name, h.link, JSON.stringify(h.sponsors), JSON.stringify(h.contacts), h.ycBacked ? 1 : 0, JSON.stringify(h.fundingInterest || []), h.location, h.date, h.source, h.description, JSON.stringify(h.prizes || []), h.participants]
-    );
-  }
+  await HackathonRepo.upsertMany(hackathons, runId);
 
-  for (const c of companies) {
-    db.run(
-      `INSERT OR REPLACE INTO companies (name, link, yc_backed, funding_interest, industry, location, source, description, funding_stage, employees) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      [c.name, c.link, c.ycBacked ? 1 : 0, JSON.stringify(c.fundingInterest || []), c.industry, c.location, c.source, c.description, c.fundingStage, c.employees]
-    );
-  }
+  const merged = await transaction(() => mergeCompanies(companies, runId));
+  console.log(`Merged ${companies.length} company records into ${merged} companies`);
 
   console.log('Data saved to database successfully');
 };
 
-const scrapeAllSources = async (filters: { location?: string; date?: string; industry?: string; fundingStage?: string } = {}): Promise<{ hackathons: Hackathon[]; companies: Company[] }> => {
+const scrapeAllSources = async (
+  filters: ScrapeFilters = {},
+  sources?: string[],
+  options: Pick<RunOptions, 'signal' | 'events'> & { runId?: string } = {}
+): Promise<{ hackathons: Hackathon[]; companies: Company[]; changes: Record<string, ChangeSummary> }> => {
   console.log('Starting comprehensive scrape from all sources...');
-
-  const hackathonSources = [
-    () => scrapeDevpost(filters),
-    () => scrapeHackClub(filters),
-    () => scrapeHackerEarth(filters),
-    () => scrapeMLH(filters),
-    () => scrapeEventbrite(filters),
-    () => scrapeMeetup(filters),
-    () => scrapeLinkedInEvents(filters)
-  ];
-
-  const companySources = [
-    () => scrapeYCBacked(filters),
-    () => scrapeCrunchbase(filters),
-    () => scrapeAngelList(filters),
-    () => scrapeProductHunt(filters),
-    () => scrapeTechCrunch(filters),
-    () => scrapeVentureBeat(filters),
-    () => scrapeGitHubSponsors(filters),
-    () => scrapeIndieHackers(filters),
-    () => scrapeBuiltWith(filters)
-  ];
+  const { runId, ...runOptions } = options;
+  const startedAt = new Date().toISOString();
+  const stats = new Map<string, SourceStats>();
 
   console.log('Scraping hackathons...');
-  const hackathonResults = await Promise.allSettled(hackathonSources.map(source => source()));
-  const hackathons = hackathonResults
-    .filter(result => result.status === 'fulfilled')
-    .flatMap(result => (result as PromiseFulfilledResult<Hackathon[]>).value);
+  const hackathons = (await runSources<Hackathon>({ ...runOptions, stats, kind: 'hackathon', names: sources, filters }))
+    .map(withEventDates)
+    .map(withHackathonLocation);
+  options.signal?.throwIfAborted();
 
   console.log('Scraping companies...');
-  const companyResults = await Promise.allSettled(companySources.map(source => source()));
-  const companies = companyResults
-    .filter(result => result.status === 'fulfilled')
-    .flatMap(result => (result as PromiseFulfilledResult<Company[]>).value);
+  const companies = (await runSources<Company>({ ...runOptions, stats, kind: 'company', names: sources, filters })).map(withCompanyLocation);
+  options.signal?.throwIfAborted();
 
   console.log(`Scraped ${hackathons.length} hackathons and ${companies.length} companies`);
 
-  await saveToDB(hackathons, companies);
+  // One transaction, so a run cancelled while saving rolls back instead of saving half its results
+  const { changes, alerts } = await transaction(async () => {
+    await saveToDB(hackathons, companies, runId);
+    await markDuplicateHackathons();
+    await linkSponsors();
+    options.signal?.throwIfAborted();
+    const changes = await trackChanges([...hackathons, ...companies], stats, { filters, startedAt, runId });
+    const alerts = await recordSourceHealth(stats, runId);
+    options.signal?.throwIfAborted();
+    return { changes, alerts };
+  });
+  for (const alert of alerts) emitScrapeEvent(options.events, { type: 'source:alert', source: alert.source, metric: alert.metric, message: alert.message });
 
-  return { hackathons, companies };
+  return { hackathons: dedupeHackathons(hackathons), companies, changes };
 };
 
 const saveResults = async (hackathons: Hackathon[], companies: Company[], filenamePrefix: string = 'scrapathon') => {
@@ -760,6 +346,8 @@ const saveResults = async (hackathons: Hackathon[], companies: Company[], filena
       { id: 'contacts', title: 'Contacts' },
       { id: 'location', title: 'Location' },
       { id: 'date', title: 'Date' },
+      { id: 'startDate', title: 'Start Date' },
+      { id: 'endDate', title: 'End Date' },
       { id: 'source', title: 'Source' },
       { id: 'description', title: 'Description' },
       { id: 'prizes', title: 'Prizes' },
@@ -0,0 +1,124 @@
+import { dbAll } from './database';
+
+/**
+ * Full-text search
+ *
+ * `hackathon_search` and `company_search` are FTS5 tables over the text
+ * columns of hackathons and companies (sponsor, prize and interest lists as
+ * plain text), kept in step by triggers (see migration 7 in
+ * ./migrations.ts). They use the porter stemmer and ignore accents, so
+ * "hacking" finds "Hackathon" and "zurich" finds "Zürich".
+ *
+ * A query is a list of terms that must all match: "exact phrase" in double
+ * quotes, prefix* with a trailing star, and any other FTS5 syntax treated as
+ * plain text. Results are ranked by bm25 with per-field boosts, and both
+ * tables' results are merged by score. Duplicate hackathon listings are left
+ * out in favour of the listing kept for the event, and hidden or deleted
+ * records are left out altogether.
+ */
+
+export type SearchEntity = 'hackathon' | 'company';
+
+export interface SearchResult {
+  type: SearchEntity;
+  id: number;
+  name: string;
+  score: number; // Higher is better
+  highlight: string; // The name as HTML, with matching terms in <mark>
+  snippet: string; // The best-matching passage of any field, as HTML
+}
+
+export interface SearchOptions {
+  q: string;
+  types?: SearchEntity[];
+  boosts?: Record<string, number>;
+  limit?: number;
+}
+
+// Index columns in table order, which is the order bm25 takes weights in
+const SEARCH_INDEXES: Record<SearchEntity, { table: string; index: string; fields: string[]; canonical?: string }> = {
+  hackathon: {
+    table: 'hackathons',
+    index: 'hackathon_search',
+    fields: ['name', 'description', 'sponsors', 'prizes', 'location', 'organizer'],
+    canonical: 'duplicate_of IS NULL'
+  },
+  company: { table: 'companies', index: 'company_search', fields: ['name', 'description', 'industry', 'location', 'funding_interest'] }
+};
+
+const LISTED = 't.deleted_at IS NULL AND COALESCE(t.hidden, 0) = 0';
+
+const SEARCH_ENTITIES = Object.keys(SEARCH_INDEXES) as SearchEntity[];
+const SEARCH_FIELDS = Array.from(new Set(SEARCH_ENTITIES.flatMap(entity => SEARCH_INDEXES[entity].fields)));
+const DEFAULT_BOOSTS: Record<string, number> = {
+  name: 10, sponsors: 5, organizer: 3, industry: 3, funding_interest: 2, prizes: 2, location: 2, description: 1
+};
+const MAX_RESULTS = 100;
+const SNIPPET_TOKENS = 16;
+
+// FTS5 wraps matches in these, which become <mark> tags once the scraped text around them is escaped
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;', [MATCH_START]: '<mark>', [MATCH_END]: '</mark>'
+};
+
+const toMarkedHtml = (text: string | null): string => (text ?? '').replace(/[&<>"'\u0002\u0003]/g, char => HTML_ESCAPES[char]);
+
+// 'machine learning "open source" hack*' -> '"machine" "learning" "open source" "hack"*'; undefined when nothing is searchable
+const toMatchQuery = (q: string): string | undefined => {
+  const terms = Array.from(q.matchAll(/"([^"]*)"|(\S+)/g), ([, phrase, word]) => {
+    const prefix = phrase === undefined && word.endsWith('*');
+    const text = (phrase ?? word).replace(/["*]/g, ' ').replace(/\s+/g, ' ').trim();
+    if (!/[\p{L}\p{N}]/u.test(text)) return undefined;
+    return `"${text}"${prefix ? '*' : ''}`;
+  });
+  const searchable = terms.filter(Boolean);
+  return searchable.length > 0 ? searchable.join(' ') : undefined;
+};
+
+// "name:5,description:0" -> boosts over the defaults; returns a list of problems instead when it doesn't parse
+const parseBoosts = (text: string): Record<string, number> | string[] => {
+  const boosts: Record<string, number> = {};
+  const errors: string[] = [];
+  for (const pair of text.split(',').filter(Boolean)) {
+    const [field, value] = pair.split(':');
+    if (!SEARCH_FIELDS.includes(field)) errors.push(`Unknown search field: ${field}`);
+    else if (!(Number(value) >= 0)) errors.push(`Boost for ${field} must be a non-negative number`);
+    else boosts[field] = Number(value);
+  }
+  return errors.length > 0 ? errors : boosts;
+};
+
+const searchEntity = async (entity: SearchEntity, match: string, boosts: Record<string, number>, limit: number): Promise<SearchResult[]> => {
+  const { table, index, fields, canonical } = SEARCH_INDEXES[entity];
+  const weights = fields.map(field => boosts[field] ?? DEFAULT_BOOSTS[field] ?? 1);
+  const rows = await dbAll(
+    `SELECT t.id, t.name, bm25(${index}, ${weights.join(', ')}) AS rank,
+       highlight(${index}, 0, '${MATCH_START}', '${MATCH_END}') AS highlight,
+       snippet(${index}, -1, '${MATCH_START}', '${MATCH_END}', '…', ${SNIPPET_TOKENS}) AS snippet
+     FROM ${index} JOIN ${table} t ON t.id = ${index}.rowid
+     WHERE ${index} MATCH ? AND ${LISTED}${canonical ? ` AND t.${canonical}` : ''}
+     ORDER BY rank LIMIT ?`,
+    [match, limit]
+  );
+  return rows.map(row => ({
+    type: entity,
+    id: row.id,
+    name: row.name,
+    score: Math.round(-row.rank * 1000) / 1000,
+    highlight: toMarkedHtml(row.highlight),
+    snippet: toMarkedHtml(row.snippet)
+  }));
+};
+
+// Best matches first across the requested entity types
+const searchRecords = async ({ q, types = SEARCH_ENTITIES, boosts = {}, limit = 20 }: SearchOptions): Promise<SearchResult[]> => {
+  const match = toMatchQuery(q);
+  if (!match) return [];
+  const capped = Math.min(limit, MAX_RESULTS);
+  const results = await Promise.all(types.map(entity => searchEntity(entity, match, boosts, capped)));
+  return results.flat().sort((a, b) => b.score - a.score).slice(0, capped);
+};
+
+export { SEARCH_ENTITIES, toMatchQuery, parseBoosts, searchRecords };
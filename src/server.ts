@@ -1,8 +1,41 @@
 const express = require('express');
 const cors = require('cors');
 const path = require('path');
-const db = require('./database');
-const { scrapeAllSources } = require('./scraper');
+const { backfillEventDates } = require('./dates');
+const { resolveCountry, distanceKm, boundingBox, backfillLocations } = require('./locations');
+const { backfillCompanySources, splitArticleRecords, listCompanySources } = require('./companies');
+const { markDuplicateHackathons } = require('./hackathons');
+const { linkSponsors, listHackathonSponsors, listCompanyHackathons, listTopSponsors } = require('./sponsors');
+const { parseWeights, withWeights, scoreCompanies } = require('./scoring');
+const { getSourcesHealth } = require('./health');
+const { getRecordHistory, getChanges } = require('./history');
+const { validateRecord, createHackathon, updateHackathon, createCompany, updateCompany, setDeleted, isDuplicateRecord } = require('./curation');
+const { HackathonRepo, CompanyRepo } = require('./repositories');
+const { parseSort, decodeCursor, pageOf } = require('./pagination');
+const { SEARCH_ENTITIES, toMatchQuery, parseBoosts, searchRecords } = require('./search');
+const { OPENAPI_DOCUMENT } = require('./openapi');
+const { listSources, enableSource, disableSource } = require('./sources');
+const { validateSchedule, listSchedules, getSchedule, createSchedule, updateSchedule, deleteSchedule, startScheduler } = require('./scheduler');
+const {
+  OUTREACH_STAGES,
+  validateCampaign,
+  validateOutreach,
+  listCampaigns,
+  getCampaign,
+  createCampaign,
+  updateCampaign,
+  deleteCampaign,
+  listOutreach,
+  listFollowUps,
+  listCompanyOutreach,
+  getOutreach,
+  addCompany,
+  updateOutreach,
+  removeCompany,
+  addNote,
+  getFunnel
+} = require('./outreach');
+const { startScrapeJob, getScrapeJob, listScrapeJobs, isJobActive, subscribeToScrapeJob, cancelScrapeJob, recoverInterruptedJobs } = require('./jobs');
 
 const app = express();
 const PORT = process.env.PORT || 3000;
@@ -12,86 +45,942 @@ app.use(express.json());
 app.use(express.static(path.join(__dirname, '../public')));
 
 // API endpoints
-app.get('/api/hackathons', (req: any, res: any) => {
-  const { location, date, source, limit = 50 } = req.query;
-  let query = 'SELECT * FROM hackathons WHERE 1=1';
-  const params: any[] = [];
+// Accepts any date Date can parse; a bare YYYY-MM-DD `to` covers that whole day
+const parseDateParam = (value: string, endOfDay = false): string | undefined => {
+  const parsed = new Date(endOfDay && /^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T23:59:59Z` : value);
+  return isNaN(parsed.getTime()) ? undefined : parsed.toISOString();
+};
 
-  if (location) {
-    query += ' AND location LIKE ?';
-    params.push(`%${location}%`);
+const DEFAULT_RADIUS_KM = 50;
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+// "Devpost,MLH" (or the parameter repeated) -> ['Devpost', 'MLH']
+const parseList = (value: any): string[] | undefined =>
+  value === undefined ? undefined : String(value).split(',').map(item => item.trim()).filter(Boolean);
+
+// true / false parameters; the error names the first one that is neither
+const parseFlags = (query: any, names: string[]): { error?: string; flags: Record<string, boolean | undefined> } => {
+  const flags: Record<string, boolean | undefined> = {};
+  for (const name of names) {
+    if (query[name] === undefined) continue;
+    if (query[name] !== 'true' && query[name] !== 'false') return { error: `${name} must be true or false`, flags };
+    flags[name] = query[name] === 'true';
+  }
+  return { flags };
+};
+
+interface LocationFilter {
+  error?: string;
+  countries?: string[];
+  box?: { minLat: number; maxLat: number; minLon: number; maxLon: number };
+  near?: { lat: number; lon: number; radiusKm: number };
+}
+
+// country= takes ISO codes or names; near=lat,lon with radius_km= narrows by bounding box here, exact distance after
+const parseLocationFilter = (query: any): LocationFilter => {
+  const filter: LocationFilter = {};
+
+  for (const country of parseList(query.country) || []) {
+    const code = resolveCountry(country);
+    if (!code) return { error: `Unknown country: ${country}` };
+    filter.countries = [...(filter.countries || []), code];
+  }
+
+  if (query.near !== undefined) {
+    const [lat, lon] = String(query.near).split(',').map(Number);
+    const radiusKm = query.radius_km !== undefined ? Number(query.radius_km) : DEFAULT_RADIUS_KM;
+    if (!(Math.abs(lat) <= 90) || !(Math.abs(lon) <= 180)) {
+      return { error: 'near must be lat,lon' };
+    }
+    if (!(radiusKm > 0)) return { error: 'radius_km must be a positive number' };
+
+    filter.box = boundingBox(lat, lon, radiusKm);
+    filter.near = { lat, lon, radiusKm };
   }
-  if (date) {
-    query += ' AND date LIKE ?';
-    params.push(`%${date}%`);
+
+  return filter;
+};
+
+// Adds distance_km and drops rows outside the radius
+const withinRadius = (rows: any[], near: LocationFilter['near']) =>
+  rows
+    .map(row => ({ ...row, distance_km: Math.round(distanceKm(near!.lat, near!.lon, row.latitude, row.longitude) * 10) / 10 }))
+    .filter(row => row.distance_km <= near!.radiusKm);
+
+type Sort = import('./pagination').Sort;
+type Cursor = import('./pagination').Cursor;
+type Page<T> = import('./pagination').Page<T>;
+type NumericRange = import('./repositories').NumericRange;
+type OutreachQuery = import('./outreach').OutreachQuery;
+
+interface ListParams {
+  error?: string;
+  sort: Sort;
+  after?: Cursor;
+  limit: number;
+  fields?: string[];
+  ranges: Record<string, NumericRange>;
+}
+
+/**
+ * Paging and shaping parameters every list endpoint takes, naming fields as the items do:
+ * - limit (1-500) and cursor (nextCursor of the previous page)
+ * - sort=field or sort=-field for descending; `computed` adds values filled in here (distanceKm, score),
+ *   and `highestFirst` fields flip that, so sort=score lists the best scores first
+ * - fields=id,name to return only those fields
+ * - <field>_min / <field>_max on numeric fields
+ * The sort and ranges come back as column names, for the repositories.
+ */
+const parseListParams = (
+  query: any,
+  {
+    fields,
+    numeric,
+    computed = {},
+    highestFirst = [],
+    defaultSort
+  }: { fields: Record<string, string>; numeric: string[]; computed?: Record<string, string>; highestFirst?: string[]; defaultSort: string }
+): ListParams => {
+  const { limit = String(DEFAULT_LIMIT), cursor } = query;
+  const columns: Record<string, string> = { ...fields, ...computed };
+  const toColumn = (sort: Sort): Sort => ({ column: columns[sort.column], descending: sort.descending });
+  const params: ListParams = { sort: toColumn(parseSort(defaultSort, Object.keys(columns))!), limit: DEFAULT_LIMIT, ranges: {} };
+
+  if (!/^\d+$/.test(String(limit)) || parseInt(limit) < 1 || parseInt(limit) > MAX_LIMIT) {
+    return { ...params, error: `limit must be an integer from 1 to ${MAX_LIMIT}` };
   }
-  if (source) {
-    query += ' AND source = ?';
-    params.push(source);
+  params.limit = parseInt(limit);
+
+  if (query.sort !== undefined) {
+    const sort = parseSort(String(query.sort), Object.keys(columns));
+    if (!sort) return { ...params, error: `Unknown sort field: ${String(query.sort).replace(/^-/, '')}` };
+    params.sort = toColumn(highestFirst.includes(sort.column) ? { ...sort, descending: !sort.descending } : sort);
   }
 
-  query += ' ORDER BY id DESC LIMIT ?';
-  params.push(parseInt(limit as string));
+  if (cursor !== undefined) {
+    params.after = decodeCursor(String(cursor), params.sort);
+    if (!params.after) return { ...params, error: 'Invalid cursor' };
+  }
+
+  if (query.fields !== undefined) {
+    params.fields = parseList(query.fields);
+    const unknown = params.fields!.find(field => !(field in columns));
+    if (unknown) return { ...params, error: `Unknown field: ${unknown}` };
+  }
+
+  for (const [key, value] of Object.entries(query)) {
+    const match = key.match(/^(\w+)_(min|max)$/);
+    if (!match) continue;
+    if (!numeric.includes(match[1])) return { ...params, error: `Unknown range filter: ${key}` };
+    if (value === '' || !Number.isFinite(Number(value))) return { ...params, error: `${key} must be a number` };
+    const column = fields[match[1]];
+    params.ranges[column] = { ...params.ranges[column], [match[2]]: Number(value) };
+  }
+
+  return params;
+};
+
+// Values the list and sponsor queries add to a row, by the name responses use
+const COMPUTED_FIELDS: Record<string, [field: string, json?: boolean]> = {
+  distance_km: ['distanceKm'],
+  score: ['score'],
+  hackathon_count: ['hackathonCount'],
+  sponsor_names: ['sponsorNames', true]
+};
+
+const computedFields = (row: any) =>
+  Object.fromEntries(
+    Object.entries(COMPUTED_FIELDS)
+      .filter(([column]) => row[column] !== undefined)
+      .map(([column, [field, json]]) => [field, json ? JSON.parse(row[column]) : row[column]])
+  );
+
+// Rows as the Hackathon / Company shapes, with JSON columns decoded and flags as booleans
+const hackathonJson = (row: any) => ({ ...HackathonRepo.fromRow(row), ...computedFields(row) });
+const companyJson = (row: any) => ({ ...CompanyRepo.fromRow(row), ...computedFields(row) });
+
+// Serializes a page of rows, keeping only the requested fields of each item
+const pageJson = (page: Page<any>, toJson: (row: any) => any, fields?: string[]) => {
+  const items = page.items.map(toJson);
+  return { ...page, items: fields ? items.map((item: any) => Object.fromEntries(fields.map(field => [field, item[field]]))) : items };
+};
+
+app.get('/api/hackathons', async (req: any, res: any) => {
+  const { location, date, source, from, to, days } = req.query;
+
+  const place = parseLocationFilter(req.query);
+  if (place.error) {
+    return res.status(400).json({ error: place.error });
+  }
+  const { flags, error } = parseFlags(req.query, ['upcoming', 'online', 'include_duplicates', 'include_hidden', 'deleted']);
+  if (error) {
+    return res.status(400).json({ error });
+  }
+
+  // Date range: events overlapping [from, to]; upcoming=true means not yet over, days=N limits it to the next N days
+  const fromDate = from !== undefined ? parseDateParam(from) : undefined;
+  const toDate = to !== undefined ? parseDateParam(to, true) : undefined;
+  if ((from !== undefined && !fromDate) || (to !== undefined && !toDate)) {
+    return res.status(400).json({ error: 'from and to must be ISO 8601 dates' });
+  }
+  if (days !== undefined && !(/^\d+$/.test(days) && parseInt(days) > 0)) {
+    return res.status(400).json({ error: 'days must be a positive integer' });
+  }
+  const now = new Date().toISOString();
+  const ranged = fromDate || toDate || flags.upcoming || days !== undefined;
+  const notOverBy = flags.upcoming || days !== undefined ? now : undefined;
+  const startingBy = days !== undefined ? new Date(Date.parse(now) + parseInt(days) * 24 * 60 * 60 * 1000).toISOString() : undefined;
+
+  // Nearby events are closest first by default, ranged ones soonest first, the rest newest first
+  const list = parseListParams(req.query, {
+    fields: HackathonRepo.fields,
+    numeric: HackathonRepo.numericFields,
+    computed: place.near ? { distanceKm: 'distance_km' } : {},
+    defaultSort: place.near ? 'distanceKm' : ranged ? 'startDate' : '-id'
+  });
+  if (list.error) {
+    return res.status(400).json({ error: list.error });
+  }
+
+  try {
+    // ISO timestamps sort in time order, so the tighter bound of each pair is the last / first
+    const query = {
+      includeDuplicates: flags.include_duplicates,
+      includeHidden: flags.include_hidden,
+      deleted: flags.deleted,
+      countries: place.countries,
+      box: place.box,
+      from: [fromDate, notOverBy].filter(Boolean).sort().pop(),
+      to: [toDate, startingBy].filter(Boolean).sort()[0],
+      locations: parseList(location),
+      date,
+      sources: parseList(source),
+      online: flags.online,
+      ranges: list.ranges
+    };
+    const page = place.near
+      ? pageOf(withinRadius(await HackathonRepo.findRows(query), place.near), list.sort, HackathonRepo.dateColumns, list.after, list.limit)
+      : await HackathonRepo.findPage({ ...query, sort: list.sort, after: list.after, limit: list.limit });
+    res.json(pageJson(page, hackathonJson, list.fields));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
 
-  db.all(query, params, (err: any, rows: any) => {
-    if (err) {
-      res.status(500).json({ error: err.message });
-    } else {
-      res.json(rows);
+app.get('/api/hackathons/:id', async (req: any, res: any) => {
+  try {
+    const row = await HackathonRepo.getRow(parseInt(req.params.id));
+    if (!row || row.deleted_at) {
+      return res.status(404).json({ error: 'Hackathon not found' });
     }
+    res.json(hackathonJson(row));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// event=<hackathon id> scores against that event; weights=factor:n,... overrides the configured weights
+const parseScoreOptions = async (query: any): Promise<{ status?: number; error?: any; event?: any; config?: any }> => {
+  let config;
+  if (query.weights !== undefined) {
+    const weights = parseWeights(String(query.weights));
+    if (Array.isArray(weights)) return { status: 400, error: { error: 'Invalid weights', details: weights } };
+    config = withWeights(weights);
+  }
+  if (query.event === undefined) return { config };
+
+  const event = await HackathonRepo.getRow(parseInt(query.event));
+  if (!event || event.deleted_at) return { status: 404, error: { error: 'Hackathon not found' } };
+  return { event, config };
+};
+
+app.get('/api/companies', async (req: any, res: any) => {
+  const { industry, location, source } = req.query;
+
+  const place = parseLocationFilter(req.query);
+  if (place.error) {
+    return res.status(400).json({ error: place.error });
+  }
+  const { flags, error } = parseFlags(req.query, ['yc_backed', 'include_hidden', 'deleted']);
+  if (error) {
+    return res.status(400).json({ error });
+  }
+
+  const list = parseListParams(req.query, {
+    fields: CompanyRepo.fields,
+    numeric: CompanyRepo.numericFields,
+    computed: place.near ? { distanceKm: 'distance_km', score: 'score' } : { score: 'score' },
+    highestFirst: ['score'],
+    defaultSort: place.near ? 'distanceKm' : '-id'
   });
+  if (list.error) {
+    return res.status(400).json({ error: list.error });
+  }
+  const scored = list.sort.column === 'score' || list.fields?.includes('score');
+  const scoring = scored ? await parseScoreOptions(req.query) : {};
+  if (scoring.error) {
+    return res.status(scoring.status).json(scoring.error);
+  }
+
+  try {
+    const query = {
+      countries: place.countries,
+      box: place.box,
+      industries: parseList(industry),
+      locations: parseList(location),
+      ycBacked: flags.yc_backed,
+      sources: parseList(source),
+      includeHidden: flags.include_hidden,
+      deleted: flags.deleted,
+      ranges: list.ranges
+    };
+    // Distance and score are computed here, so those pages are cut from every match
+    if (!place.near && !scored) {
+      return res.json(pageJson(await CompanyRepo.findPage({ ...query, sort: list.sort, after: list.after, limit: list.limit }), companyJson, list.fields));
+    }
+    let rows = await CompanyRepo.findRows(query);
+    if (place.near) rows = withinRadius(rows, place.near);
+    if (scored) {
+      const scores = await scoreCompanies(rows, scoring.event, scoring.config);
+      rows = rows.map((row: any, i: number) => ({ ...row, score: scores[i].score }));
+    }
+    res.json(pageJson(pageOf(rows, list.sort, CompanyRepo.dateColumns, list.after, list.limit), companyJson, list.fields));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
 });
 
-app.get('/api/companies', (req: any, res: any) => {
-  const { industry, location, yc_backed, source, limit = 50 } = req.query;
-  let query = 'SELECT * FROM companies WHERE 1=1';
-  const params: any[] = [];
+app.get('/api/companies/:id', async (req: any, res: any) => {
+  try {
+    const row = await CompanyRepo.getRow(parseInt(req.params.id));
+    if (!row || row.deleted_at) {
+      return res.status(404).json({ error: 'Company not found' });
+    }
+    res.json(companyJson(row));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
 
-  if (industry) {
-    query += ' AND industry LIKE ?';
-    params.push(`%${industry}%`);
+app.get('/api/companies/:id/score', async (req: any, res: any) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (!(await CompanyRepo.exists(id))) {
+      return res.status(404).json({ error: 'Company not found' });
+    }
+    const company = await CompanyRepo.getRow(id);
+    const scoring = await parseScoreOptions(req.query);
+    if (scoring.error) {
+      return res.status(scoring.status).json(scoring.error);
+    }
+    const [score] = await scoreCompanies([company], scoring.event, scoring.config);
+    res.json(score);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
   }
-  if (location) {
-    query += ' AND location LIKE ?';
-    params.push(`%${location}%`);
+});
+
+app.get('/api/hackathons/:id/sponsors', async (req: any, res: any) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (!(await HackathonRepo.exists(id))) {
+      return res.status(404).json({ error: 'Hackathon not found' });
+    }
+    res.json((await listHackathonSponsors(id)).map(companyJson));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
   }
-  if (yc_backed !== undefined) {
-    query += ' AND yc_backed = ?';
-    params.push(yc_backed === 'true' ? 1 : 0);
+});
+
+app.get('/api/companies/:id/hackathons', async (req: any, res: any) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (!(await CompanyRepo.exists(id))) {
+      return res.status(404).json({ error: 'Company not found' });
+    }
+    res.json((await listCompanyHackathons(id)).map(hackathonJson));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Companies by number of hackathons sponsored; year=2025 or from/to limit it to events starting then
+app.get('/api/sponsors', async (req: any, res: any) => {
+  const { min_hackathons = 1, year, from, to, limit = 50 } = req.query;
+
+  if (year !== undefined && !/^\d{4}$/.test(year)) {
+    return res.status(400).json({ error: 'year must be a four-digit year' });
+  }
+  const fromDate = year !== undefined ? `${year}-01-01T00:00:00.000Z` : from !== undefined ? parseDateParam(from) : undefined;
+  const toDate = year !== undefined ? `${year}-12-31T23:59:59.000Z` : to !== undefined ? parseDateParam(to, true) : undefined;
+  if ((from !== undefined && !fromDate) || (to !== undefined && !toDate)) {
+    return res.status(400).json({ error: 'from and to must be ISO 8601 dates' });
+  }
+  if (!/^\d+$/.test(String(min_hackathons)) || parseInt(min_hackathons) < 1) {
+    return res.status(400).json({ error: 'min_hackathons must be a positive integer' });
+  }
+  if (!/^\d+$/.test(String(limit)) || parseInt(limit) < 1 || parseInt(limit) > MAX_LIMIT) {
+    return res.status(400).json({ error: `limit must be an integer from 1 to ${MAX_LIMIT}` });
   }
-  if (source) {
-    query += ' AND source = ?';
-    params.push(source);
+
+  try {
+    res.json((await listTopSponsors({ minHackathons: parseInt(min_hackathons), from: fromDate, to: toDate, limit: parseInt(limit) })).map(companyJson));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
   }
+});
 
-  query += ' ORDER BY id DESC LIMIT ?';
-  params.push(parseInt(limit as string));
+// The per-source records a merged company was built from
+app.get('/api/companies/:id/sources', async (req: any, res: any) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (!(await CompanyRepo.exists(id))) {
+      return res.status(404).json({ error: 'Company not found' });
+    }
+    res.json(await listCompanySources(id));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
 
-  db.all(query, params, (err: any, rows: any) => {
-    if (err) {
-      res.status(500).json({ error: err.message });
-    } else {
-      res.json(rows);
+// Field-level changes to one record, oldest first
+app.get('/api/hackathons/:id/history', async (req: any, res: any) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (!(await HackathonRepo.exists(id))) {
+      return res.status(404).json({ error: 'Hackathon not found' });
+    }
+    res.json(await getRecordHistory('hackathon', id));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.get('/api/companies/:id/history', async (req: any, res: any) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (!(await CompanyRepo.exists(id))) {
+      return res.status(404).json({ error: 'Company not found' });
+    }
+    res.json(await getRecordHistory('company', id));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Every change since a time, oldest first; entity=hackathon|company narrows it
+app.get('/api/changes', async (req: any, res: any) => {
+  const { since, entity, limit = 100 } = req.query;
+
+  const sinceDate = since !== undefined ? parseDateParam(since) : undefined;
+  if (!sinceDate) {
+    return res.status(400).json({ error: 'since must be an ISO 8601 date' });
+  }
+  if (entity !== undefined && entity !== 'hackathon' && entity !== 'company') {
+    return res.status(400).json({ error: 'entity must be hackathon or company' });
+  }
+  if (!/^\d+$/.test(String(limit)) || parseInt(limit) < 1) {
+    return res.status(400).json({ error: 'limit must be a positive integer' });
+  }
+
+  try {
+    res.json(await getChanges({ since: sinceDate, entity, limit: parseInt(limit) }));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Manual curation (see ./curation.ts); every write names who made it in X-Actor, for the audit log
+const actorOf = (req: any): string | undefined => req.get('X-Actor')?.trim() || undefined;
+
+const CURATED = {
+  hackathons: { entity: 'hackathon', label: 'Hackathon', create: createHackathon, update: updateHackathon, get: HackathonRepo.getRow, toJson: hackathonJson },
+  companies: { entity: 'company', label: 'Company', create: createCompany, update: updateCompany, get: CompanyRepo.getRow, toJson: companyJson }
+};
+
+for (const [collection, { entity, label, create, update, get, toJson }] of Object.entries(CURATED)) {
+  app.post(`/api/${collection}`, async (req: any, res: any) => {
+    const actor = actorOf(req);
+    if (!actor) return res.status(400).json({ error: 'X-Actor header is required' });
+    const errors = validateRecord(entity, req.body);
+    if (errors.length > 0) return res.status(400).json({ error: `Invalid ${entity}`, details: errors });
+
+    try {
+      const { id, created } = await create(req.body, actor);
+      if (!created) return res.status(409).json({ error: `${label} already exists`, id });
+      res.status(201).json(toJson(await get(id)));
+    } catch (error) {
+      if (isDuplicateRecord(error)) return res.status(409).json({ error: `${label} with this name, source and link already exists` });
+      res.status(500).json({ error: (error as Error).message });
     }
   });
+
+  app.patch(`/api/${collection}/:id`, async (req: any, res: any) => {
+    const actor = actorOf(req);
+    if (!actor) return res.status(400).json({ error: 'X-Actor header is required' });
+    const errors = validateRecord(entity, req.body, true);
+    if (errors.length > 0) return res.status(400).json({ error: `Invalid ${entity}`, details: errors });
+
+    try {
+      const record = await update(parseInt(req.params.id), req.body, actor);
+      if (!record) return res.status(404).json({ error: `${label} not found` });
+      res.json(toJson(await get(record.id)));
+    } catch (error) {
+      if (isDuplicateRecord(error)) return res.status(409).json({ error: `${label} with this name, source and link already exists` });
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  // Soft delete; POST .../restore brings the record back
+  app.delete(`/api/${collection}/:id`, async (req: any, res: any) => {
+    const actor = actorOf(req);
+    if (!actor) return res.status(400).json({ error: 'X-Actor header is required' });
+
+    try {
+      if (!(await setDeleted(entity, parseInt(req.params.id), true, actor))) return res.status(404).json({ error: `${label} not found` });
+      res.status(204).end();
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+
+  app.post(`/api/${collection}/:id/restore`, async (req: any, res: any) => {
+    const actor = actorOf(req);
+    if (!actor) return res.status(400).json({ error: 'X-Actor header is required' });
+
+    try {
+      const id = parseInt(req.params.id);
+      if (!(await setDeleted(entity, id, false, actor))) return res.status(404).json({ error: `${label} not found` });
+      res.json(toJson(await get(id)));
+    } catch (error) {
+      res.status(500).json({ error: (error as Error).message });
+    }
+  });
+}
+
+// Manual changes, oldest first; actor= narrows it to one person
+app.get('/api/audit', async (req: any, res: any) => {
+  const { since, entity, actor, limit = 100 } = req.query;
+
+  const sinceDate = since !== undefined ? parseDateParam(since) : undefined;
+  if (since !== undefined && !sinceDate) {
+    return res.status(400).json({ error: 'since must be an ISO 8601 date' });
+  }
+  if (entity !== undefined && entity !== 'hackathon' && entity !== 'company') {
+    return res.status(400).json({ error: 'entity must be hackathon or company' });
+  }
+  if (!/^\d+$/.test(String(limit)) || parseInt(limit) < 1) {
+    return res.status(400).json({ error: 'limit must be a positive integer' });
+  }
+
+  try {
+    res.json(await getChanges({ since: sinceDate, entity, actor, manual: true, limit: parseInt(limit) }));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Ranked full-text matches across hackathons and companies; type= narrows it to one, boost=field:n reweights fields
+app.get('/api/search', async (req: any, res: any) => {
+  const { q, type, boost, limit = 20 } = req.query;
+
+  if (typeof q !== 'string' || !q.trim()) {
+    return res.status(400).json({ error: 'q is required' });
+  }
+  if (!toMatchQuery(q)) {
+    return res.status(400).json({ error: 'q has no searchable terms' });
+  }
+  if (type !== undefined && !SEARCH_ENTITIES.includes(type)) {
+    return res.status(400).json({ error: 'type must be hackathon or company' });
+  }
+  const boosts = boost !== undefined ? parseBoosts(String(boost)) : {};
+  if (Array.isArray(boosts)) {
+    return res.status(400).json({ error: 'Invalid boost', details: boosts });
+  }
+  if (!/^\d+$/.test(String(limit)) || parseInt(limit) < 1) {
+    return res.status(400).json({ error: 'limit must be a positive integer' });
+  }
+
+  try {
+    res.json(await searchRecords({ q, types: type ? [type] : undefined, boosts, limit: parseInt(limit) }));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
 });
 
+app.get('/api/sources', (req: any, res: any) => {
+  res.json(listSources(req.query.kind));
+});
+
+app.get('/api/sources/health', async (req: any, res: any) => {
+  const { source, runs = '10' } = req.query;
+  if (!(parseInt(runs) > 0)) {
+    return res.status(400).json({ error: 'runs must be a positive integer' });
+  }
+  if (source && !listSources().some((s: any) => s.name === source)) {
+    return res.status(404).json({ error: `Unknown source: ${source}` });
+  }
+
+  try {
+    res.json(await getSourcesHealth({ source, runs: Math.min(parseInt(runs), 100) }));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Plain paths rather than an inline :action(enable|disable) pattern, which Express 5 rejects
+for (const [action, toggle] of [['enable', enableSource], ['disable', disableSource]] as const) {
+  app.post(`/api/sources/:name/${action}`, (req: any, res: any) => {
+    try {
+      toggle(req.params.name);
+      res.json(listSources().find((s: any) => s.name === req.params.name));
+    } catch (error) {
+      res.status(404).json({ error: (error as Error).message });
+    }
+  });
+}
+
 app.post('/api/scrape', async (req: any, res: any) => {
-  const { location, date, industry } = req.body;
+  const { location, date, industry, fundingStage, sources } = req.body;
+
+  if (sources !== undefined) {
+    if (!Array.isArray(sources) || sources.length === 0) {
+      return res.status(400).json({ error: 'sources must be a non-empty array of source names' });
+    }
+    const known = listSources().map((s: any) => s.name);
+    const unknown = sources.filter((name: any) => !known.includes(name));
+    if (unknown.length > 0) {
+      return res.status(400).json({ error: 'Unknown sources', details: unknown });
+    }
+  }
+
   try {
-    console.log('Starting scrape...');
-    const result = await scrapeAllSources({ location, date, industry });
-    res.json({ message: 'Scraping completed', count: result.hackathons.length + result.companies.length });
+    const job = await startScrapeJob({ location, date, industry, fundingStage }, sources);
+    res.status(202).json({ id: job.id, status: job.status, url: `/api/scrape/${job.id}` });
   } catch (error) {
     res.status(500).json({ error: 'Scraping failed', details: (error as Error).message });
   }
 });
 
+app.get('/api/scrape', async (req: any, res: any) => {
+  try {
+    res.json(await listScrapeJobs(parseInt(req.query.limit as string) || 20));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.get('/api/scrape/:id', async (req: any, res: any) => {
+  try {
+    const job = await getScrapeJob(req.params.id);
+    if (!job) return res.status(404).json({ error: 'Scrape job not found' });
+    res.json(job);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Server-Sent Events stream of a job's pipeline events; ends with `run:completed`
+app.get('/api/scrape/:id/events', async (req: any, res: any) => {
+  try {
+    const job = await getScrapeJob(req.params.id);
+    if (!job) return res.status(404).json({ error: 'Scrape job not found' });
+
+    res.set({ 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+    res.flushHeaders();
+
+    const send = (event: any) => {
+      res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      if (event.type === 'run:completed') res.end();
+    };
+
+    const afterId = parseInt(req.get('Last-Event-ID') || req.query.after) || 0;
+    const unsubscribe = subscribeToScrapeJob(job.id, afterId, send);
+    if (!unsubscribe) {
+      // Already finished: report the final state and close
+      send({ id: 0, type: 'run:completed', status: job.status, hackathonCount: job.hackathonCount, companyCount: job.companyCount, error: job.error });
+      return;
+    }
+
+    const heartbeat = setInterval(() => res.write(': ping\n\n'), 15000);
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.delete('/api/scrape/:id', async (req: any, res: any) => {
+  try {
+    const job = await getScrapeJob(req.params.id);
+    if (!job) return res.status(404).json({ error: 'Scrape job not found' });
+    if (!isJobActive(job.id)) return res.status(409).json({ error: `Scrape job already ${job.status}` });
+
+    cancelScrapeJob(job.id);
+    res.json(await getScrapeJob(job.id));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.get('/api/schedules', async (req: any, res: any) => {
+  try {
+    res.json(await listSchedules());
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.post('/api/schedules', async (req: any, res: any) => {
+  const errors = validateSchedule(req.body);
+  if (errors.length > 0) return res.status(400).json({ error: 'Invalid schedule', details: errors });
+
+  try {
+    res.status(201).json(await createSchedule(req.body));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.get('/api/schedules/:id', async (req: any, res: any) => {
+  try {
+    const schedule = await getSchedule(parseInt(req.params.id));
+    if (!schedule) return res.status(404).json({ error: 'Schedule not found' });
+    res.json(schedule);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.patch('/api/schedules/:id', async (req: any, res: any) => {
+  const errors = validateSchedule(req.body, true);
+  if (errors.length > 0) return res.status(400).json({ error: 'Invalid schedule', details: errors });
+
+  try {
+    const schedule = await updateSchedule(parseInt(req.params.id), req.body);
+    if (!schedule) return res.status(404).json({ error: 'Schedule not found' });
+    res.json(schedule);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.delete('/api/schedules/:id', async (req: any, res: any) => {
+  try {
+    if (!(await deleteSchedule(parseInt(req.params.id)))) return res.status(404).json({ error: 'Schedule not found' });
+    res.status(204).end();
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Sponsor outreach (see ./outreach.ts); stage changes and notes name who made them in X-Actor
+app.get('/api/campaigns', async (req: any, res: any) => {
+  try {
+    res.json(await listCampaigns());
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.post('/api/campaigns', async (req: any, res: any) => {
+  try {
+    const errors = await validateCampaign(req.body);
+    if (errors.length > 0) return res.status(400).json({ error: 'Invalid campaign', details: errors });
+    res.status(201).json(await createCampaign(req.body));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.get('/api/campaigns/:id', async (req: any, res: any) => {
+  try {
+    const campaign = await getCampaign(parseInt(req.params.id));
+    if (!campaign) return res.status(404).json({ error: 'Campaign not found' });
+    res.json(campaign);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.patch('/api/campaigns/:id', async (req: any, res: any) => {
+  try {
+    const errors = await validateCampaign(req.body, true);
+    if (errors.length > 0) return res.status(400).json({ error: 'Invalid campaign', details: errors });
+    const campaign = await updateCampaign(parseInt(req.params.id), req.body);
+    if (!campaign) return res.status(404).json({ error: 'Campaign not found' });
+    res.json(campaign);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Deletes the campaign's stages, notes and history with it
+app.delete('/api/campaigns/:id', async (req: any, res: any) => {
+  try {
+    if (!(await deleteCampaign(parseInt(req.params.id)))) return res.status(404).json({ error: 'Campaign not found' });
+    res.status(204).end();
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// stage, owner and due_by (open companies with a follow-up by then) narrow the list
+const parseOutreachQuery = (query: any, dueByDefault?: string): { error?: string; query: OutreachQuery } => {
+  const stages = parseList(query.stage);
+  const unknown = stages?.find(stage => !OUTREACH_STAGES.includes(stage));
+  if (unknown) return { error: `Unknown stage: ${unknown}`, query: {} };
+
+  const dueBy = query.due_by !== undefined ? parseDateParam(query.due_by, true) : dueByDefault;
+  if (query.due_by !== undefined && !dueBy) return { error: 'due_by must be an ISO 8601 date', query: {} };
+
+  return { query: { stages: stages as OutreachQuery['stages'], owner: query.owner, dueBy } };
+};
+
+app.get('/api/campaigns/:id/funnel', async (req: any, res: any) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (!(await getCampaign(id))) return res.status(404).json({ error: 'Campaign not found' });
+    res.json(await getFunnel(id));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.get('/api/campaigns/:id/companies', async (req: any, res: any) => {
+  const { error, query } = parseOutreachQuery(req.query);
+  if (error) return res.status(400).json({ error });
+
+  try {
+    const id = parseInt(req.params.id);
+    if (!(await getCampaign(id))) return res.status(404).json({ error: 'Campaign not found' });
+    res.json(await listOutreach(id, query));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.post('/api/campaigns/:id/companies', async (req: any, res: any) => {
+  const actor = actorOf(req);
+  if (!actor) return res.status(400).json({ error: 'X-Actor header is required' });
+
+  try {
+    const campaign = await getCampaign(parseInt(req.params.id));
+    if (!campaign) return res.status(404).json({ error: 'Campaign not found' });
+    const errors = await validateOutreach(req.body, true);
+    if (errors.length > 0) return res.status(400).json({ error: 'Invalid outreach', details: errors });
+
+    const outreach = await addCompany(campaign, req.body, actor);
+    if (!outreach) return res.status(409).json({ error: 'Company is already in this campaign' });
+    res.status(201).json(outreach);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.get('/api/campaigns/:id/companies/:companyId', async (req: any, res: any) => {
+  try {
+    const outreach = await getOutreach(parseInt(req.params.id), parseInt(req.params.companyId));
+    if (!outreach) return res.status(404).json({ error: 'Company is not in this campaign' });
+    res.json(outreach);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Moves a company to another stage, reassigns it or sets its follow-up; a note can go with it
+app.patch('/api/campaigns/:id/companies/:companyId', async (req: any, res: any) => {
+  const actor = actorOf(req);
+  if (!actor) return res.status(400).json({ error: 'X-Actor header is required' });
+
+  try {
+    const errors = await validateOutreach(req.body);
+    if (errors.length > 0) return res.status(400).json({ error: 'Invalid outreach', details: errors });
+    const outreach = await updateOutreach(parseInt(req.params.id), parseInt(req.params.companyId), req.body, actor);
+    if (!outreach) return res.status(404).json({ error: 'Company is not in this campaign' });
+    res.json(outreach);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.delete('/api/campaigns/:id/companies/:companyId', async (req: any, res: any) => {
+  try {
+    if (!(await removeCompany(parseInt(req.params.id), parseInt(req.params.companyId)))) {
+      return res.status(404).json({ error: 'Company is not in this campaign' });
+    }
+    res.status(204).end();
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.post('/api/campaigns/:id/companies/:companyId/notes', async (req: any, res: any) => {
+  const actor = actorOf(req);
+  if (!actor) return res.status(400).json({ error: 'X-Actor header is required' });
+  const { body } = req.body;
+  if (typeof body !== 'string' || !body.trim()) return res.status(400).json({ error: 'body is required' });
+
+  try {
+    const note = await addNote(parseInt(req.params.id), parseInt(req.params.companyId), body, actor);
+    if (!note) return res.status(404).json({ error: 'Company is not in this campaign' });
+    res.status(201).json(note);
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Open companies due a follow-up, soonest first; due_by defaults to now
+app.get('/api/follow-ups', async (req: any, res: any) => {
+  const { error, query } = parseOutreachQuery(req.query, new Date().toISOString());
+  if (error) return res.status(400).json({ error });
+
+  try {
+    res.json(await listFollowUps(query));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+// Every campaign the company is in, with its stage in each
+app.get('/api/companies/:id/outreach', async (req: any, res: any) => {
+  try {
+    const id = parseInt(req.params.id);
+    if (!(await CompanyRepo.exists(id))) {
+      return res.status(404).json({ error: 'Company not found' });
+    }
+    res.json(await listCompanyOutreach(id));
+  } catch (error) {
+    res.status(500).json({ error: (error as Error).message });
+  }
+});
+
+app.get('/api/openapi.json', (req: any, res: any) => {
+  res.json(OPENAPI_DOCUMENT);
+});
+
 // Serve the main HTML page
 app.get('/', (req: any, res: any) => {
   res.sendFile(path.join(__dirname, '../public/index.html'));
 });
 
+// Duplicate detection compares normalized dates and places, and sponsor matching needs merged companies
+Promise.all([
+  backfillEventDates().catch((error: Error) => console.error('Error normalizing hackathon dates:', error)),
+  backfillLocations().catch((error: Error) => console.error('Error normalizing locations:', error)),
+  backfillCompanySources()
+    .then(() => splitArticleRecords())
+    .catch((error: Error) => console.error('Error merging companies:', error))
+])
+  .then(() => markDuplicateHackathons())
+  .then(() => linkSponsors())
+  .catch((error: Error) => console.error('Error deduplicating hackathons and linking sponsors:', error));
+recoverInterruptedJobs().catch((error: Error) => console.error('Error recovering scrape runs:', error));
+
 app.listen(PORT, () => {
   console.log(`Server running on http://localhost:${PORT}`);
+  startScheduler();
 });
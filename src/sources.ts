@@ -0,0 +1,264 @@
+/**
+ * Source registry
+ *
+ * Every scraper registers itself here as a `Source` instead of being hard-coded
+ * into `scrapeAllSources`. A source is split into two stages:
+ * - fetch: download the raw pages (HTML, rendered DOM data or a seed list)
+ * - parse: turn one fetched page into hackathon or company records
+ *
+ * Filtering by location/date/industry/funding stage is applied here, once, for
+ * every field a source declares in its capabilities. Internal sources can be
+ * added by importing `registerSource` without touching scraper.ts.
+ *
+ * Progress is reported as ScrapeEvents (see ./events.ts) on `context.events`,
+ * and each run's counts as SourceStats on `context.stats`.
+ */
+
+import { EventEmitter } from 'events';
+import { emitScrapeEvent } from './events';
+import { ChangeSummary } from './fingerprints';
+import { PolitenessOptions, politenessFor } from './politeness';
+
+export type SourceKind = 'hackathon' | 'company';
+
+export interface ScrapeFilters {
+  location?: string;
+  date?: string;
+  industry?: string;
+  fundingStage?: string;
+}
+
+export interface SourceCapabilities {
+  filters: (keyof ScrapeFilters)[]; // Filters applied to this source's records
+  network: boolean; // false for static seed lists
+  detailPages?: boolean; // Fetches a detail page per listing
+  browser?: boolean; // Needs a headless browser
+}
+
+export interface SourcePage {
+  url: string;
+  body: any;
+  context?: Record<string, string>;
+  limit?: number; // Listings to read from this page, for sources that cap listings across pages
+}
+
+export interface SourceContext {
+  signal?: AbortSignal; // Aborted when the scrape job is cancelled
+  events?: EventEmitter; // Receives ScrapeEvents
+  source?: string; // Set by the runner to the running source's name
+  politeness?: Partial<PolitenessOptions>; // Set by the runner from the source's definition
+  stats?: SourceStats; // Set by the runner; parsers add matched element counts and errors
+}
+
+export interface Source<T = any> {
+  name: string;
+  kind: SourceKind;
+  capabilities: SourceCapabilities;
+  politeness?: Partial<PolitenessOptions>; // Per-host request limits, see ./politeness.ts
+  fetch: (filters: ScrapeFilters, context: SourceContext) => Promise<SourcePage[]>;
+  parse: (page: SourcePage, filters: ScrapeFilters, context: SourceContext) => Promise<T[]> | T[];
+}
+
+export type HealthField = 'name' | 'date' | 'location';
+
+// What one source produced in one run, stored by ./health.ts
+export interface SourceStats {
+  pages: number; // Pages fetched
+  matched: number; // Listing elements the source's selectors matched
+  parsed: number; // Records parsed, before filters
+  items: number; // Records emitted after filters
+  filled: Record<HealthField, number>; // Parsed records with the field set
+  errors: string[]; // Pages or items that failed without failing the source
+  failed?: string; // Error that failed the whole source
+}
+
+export type SourceStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface SourceProgress {
+  status: SourceStatus;
+  count?: number;
+  error?: string;
+  changes?: ChangeSummary; // Set once the run's records are saved
+}
+
+export interface RunOptions {
+  kind?: SourceKind;
+  names?: string[];
+  filters?: ScrapeFilters;
+  signal?: AbortSignal;
+  events?: EventEmitter;
+  stats?: Map<string, SourceStats>; // Receives each source's stats as it runs
+}
+
+export interface SourceInfo {
+  name: string;
+  kind: SourceKind;
+  enabled: boolean;
+  capabilities: SourceCapabilities;
+  politeness?: PolitenessOptions; // Effective settings, for network sources
+}
+
+interface RegisteredSource {
+  source: Source;
+  enabled: boolean;
+}
+
+const registry = new Map<string, RegisteredSource>();
+
+const lookup = (name: string): RegisteredSource => {
+  const entry = registry.get(name);
+  if (!entry) throw new Error(`Unknown source: ${name}`);
+  return entry;
+};
+
+const registerSource = <T>(source: Source<T>, options: { enabled?: boolean } = {}) => {
+  if (registry.has(source.name)) throw new Error(`Source already registered: ${source.name}`);
+  registry.set(source.name, { source, enabled: options.enabled ?? true });
+};
+
+const unregisterSource = (name: string) => {
+  lookup(name);
+  registry.delete(name);
+};
+
+const getSource = (name: string): Source => lookup(name).source;
+
+const enableSource = (name: string) => {
+  lookup(name).enabled = true;
+};
+
+const disableSource = (name: string) => {
+  lookup(name).enabled = false;
+};
+
+const listSources = (kind?: SourceKind): SourceInfo[] =>
+  Array.from(registry.values())
+    .filter(({ source }) => !kind || source.kind === kind)
+    .map(({ source, enabled }) => ({
+      name: source.name,
+      kind: source.kind,
+      enabled,
+      capabilities: source.capabilities,
+      politeness: source.capabilities.network ? politenessFor(source.politeness) : undefined
+    }));
+
+// The first filter the item fails, if any
+const failedFilter = (item: any, filters: ScrapeFilters, fields: (keyof ScrapeFilters)[]): keyof ScrapeFilters | undefined =>
+  fields.find(field => {
+    const wanted = filters[field];
+    const value = item[field];
+    if (!wanted || !value) return false;
+    return !String(value).toLowerCase().includes(wanted.toLowerCase());
+  });
+
+const matchesFilters = (item: any, filters: ScrapeFilters, fields: (keyof ScrapeFilters)[]): boolean =>
+  !failedFilter(item, filters, fields);
+
+const createStats = (): SourceStats => ({ pages: 0, matched: 0, parsed: 0, items: 0, filled: { name: 0, date: 0, location: 0 }, errors: [] });
+
+// Parsers report how many listing elements their selectors matched
+const recordMatched = (context: SourceContext, count: number) => {
+  if (context.stats) context.stats.matched += count;
+};
+
+// A page or item that failed without failing the whole source
+const recordError = (context: SourceContext, error: unknown) => {
+  context.stats?.errors.push(error instanceof Error ? error.message : String(error));
+};
+
+const countFilled = (stats: SourceStats, item: any) => {
+  if (item.name) stats.filled.name++;
+  if (item.date || item.startDate) stats.filled.date++;
+  if (item.location) stats.filled.location++;
+};
+
+/**
+ * Runs one source end to end. A page that fails to parse is logged and
+ * skipped; a failed fetch or a cancellation rejects.
+ */
+const runSource = async <T>(name: string, filters: ScrapeFilters = {}, context: SourceContext = {}): Promise<T[]> => {
+  const { source } = lookup(name);
+  const items: T[] = [];
+  const stats = context.stats ?? createStats();
+  context = { ...context, source: name, politeness: source.politeness, stats };
+
+  const pages = await source.fetch(filters, context);
+  stats.pages += pages.length;
+  for (const page of pages) {
+    context.signal?.throwIfAborted();
+    try {
+      const parsed = await source.parse(page, filters, context);
+      for (const item of parsed as any[]) {
+        stats.parsed++;
+        countFilled(stats, item);
+        const failed = failedFilter(item, filters, source.capabilities.filters);
+        if (failed) {
+          emitScrapeEvent(context.events, { type: 'item:skipped', source: name, name: item.name, reason: `${failed} filter` });
+          continue;
+        }
+        emitScrapeEvent(context.events, { type: 'item:parsed', source: name, name: item.name, link: item.link });
+        items.push(item);
+        stats.items++;
+      }
+    } catch (error) {
+      if (context.signal?.aborted) throw error;
+      console.error(`Error parsing ${name} page ${page.url}:`, error);
+      recordError(context, error);
+    }
+  }
+
+  return items;
+};
+
+/**
+ * Names of the sources a run covers. With `names`, exactly those sources run
+ * (even if disabled); otherwise every enabled source of the given kind runs.
+ */
+const resolveSources = (kind?: SourceKind, names?: string[]): string[] =>
+  (names ? names.map(lookup) : Array.from(registry.values()).filter(({ enabled }) => enabled))
+    .filter(({ source }) => !kind || source.kind === kind)
+    .map(({ source }) => source.name);
+
+// Runs sources concurrently and merges their records; a failing source contributes nothing
+const runSources = async <T>(options: RunOptions = {}): Promise<T[]> => {
+  const { kind, names, filters = {}, signal, events } = options;
+
+  const results = await Promise.allSettled(resolveSources(kind, names).map(async name => {
+    const stats = createStats();
+    options.stats?.set(name, stats);
+    emitScrapeEvent(events, { type: 'source:started', source: name });
+    try {
+      const items = await runSource<T>(name, filters, { signal, events, stats });
+      emitScrapeEvent(events, { type: 'source:completed', source: name, count: items.length });
+      return items;
+    } catch (error) {
+      if (signal?.aborted) {
+        emitScrapeEvent(events, { type: 'source:cancelled', source: name });
+      } else {
+        console.error(`Error scraping ${name}:`, error);
+        stats.failed = (error as Error).message;
+        emitScrapeEvent(events, { type: 'source:failed', source: name, error: (error as Error).message });
+      }
+      throw error;
+    }
+  }));
+
+  return results
+    .filter(result => result.status === 'fulfilled')
+    .flatMap(result => (result as PromiseFulfilledResult<T[]>).value);
+};
+
+export {
+  registerSource,
+  unregisterSource,
+  getSource,
+  enableSource,
+  disableSource,
+  listSources,
+  matchesFilters,
+  recordMatched,
+  recordError,
+  resolveSources,
+  runSource,
+  runSources
+};
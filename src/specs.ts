@@ -0,0 +1,435 @@
+import * as cheerio from 'cheerio';
+import * as fs from 'fs';
+import * as path from 'path';
+import { emitScrapeEvent } from './events';
+import { parseEventDate } from './dates';
+import { fetchHtml, getFetchMode, RenderOptions, renderPage } from './fetcher';
+import { knownDetail, rememberDetail } from './fingerprints';
+import { PolitenessOptions } from './politeness';
+import { recordError, recordMatched, registerSource, ScrapeFilters, Source, SourceContext, SourceKind, SourcePage } from './sources';
+import { extractStructuredData } from './structured';
+import { foldText } from './text';
+
+/**
+ * Declarative sources
+ *
+ * HTML sources that only read fields off a listing page (and optionally each
+ * listing's detail page) are described by a JSON spec in config/sources
+ * instead of TypeScript. A spec gives the URL template, the item selector and
+ * a selector per field; the engine below fetches the pages, reads the fields
+ * and registers the result as a regular Source. Fixing a broken selector or
+ * adding an event site is a config change. See config/sources/*.json for
+ * examples and SourceSpec for every option.
+ *
+ * With `pagination`, a listing URL is followed to the pages after it (by a
+ * next link or a page number), or a rendered page is scrolled until it stops
+ * loading more, within maxPages/maxItems.
+ *
+ * Pages are first read for schema.org data (see ./structured.ts). Its values
+ * win over the selectors', which only fill the fields it leaves empty, and its
+ * records are kept even when no listing element matches them.
+ */
+
+export interface FieldRule {
+  selector?: string; // CSS selector inside the item (or page); omitted reads the item itself
+  attribute?: string; // Read this attribute of the first match instead of the text
+  all?: boolean; // A list with every match's value, blanks dropped
+  type?: 'text' | 'number' | 'emails'; // number: the digits in the text; emails: addresses found in it
+  resolve?: string; // Base URL that relative links are resolved against
+  default?: any; // Used when nothing is found; strings may use {param} placeholders
+}
+
+// A bare string is a selector read as text; a list of rules is tried in order until one finds a value
+export type FieldSpec = string | FieldRule | FieldRule[];
+
+export interface SourceSpec {
+  name: string;
+  kind: SourceKind;
+  filters?: (keyof ScrapeFilters)[];
+  politeness?: Partial<PolitenessOptions>;
+  render?: boolean; // Load pages in a headless browser
+  structuredData?: boolean; // Read schema.org JSON-LD and microdata first, default true
+  url: string; // May use {param} placeholders
+  params?: Record<string, string>[]; // One listing page per entry, placeholders filled from it
+  list: {
+    item: string; // Selector for one listing
+    limit?: number; // Listings read per page
+    fields: Record<string, FieldSpec>;
+    required?: string[]; // Listings missing any of these fields are skipped
+  };
+  detail?: {
+    link?: string; // Field holding the detail page URL, default `link`
+    maxAge?: number; // Milliseconds a cached detail page is reused
+    refresh?: number; // Milliseconds the fields read from a detail page are reused while its listing is unchanged
+    fields: Record<string, FieldSpec>; // Override list fields when found
+  };
+  pagination?: {
+    next?: string; // Selector of the next page link
+    param?: string; // Or a query parameter set to the page number, e.g. "page"
+    scroll?: boolean; // Rendered pages: scroll until no more listings load
+    loadMore?: string; // Rendered pages: button clicked to load more listings
+    maxPages?: number; // Pages (or scroll rounds) per listing URL, default DEFAULT_MAX_PAGES
+    maxItems?: number; // Listings per listing URL across all its pages
+    olderThan?: string; // Stops after a page whose dated listings all ended before this: an ISO date or "<n>d" ago
+  };
+  keywords?: { field: string; include: string[] }; // Skips listings whose field contains none of the words
+  defaults?: Record<string, any>; // Values on every record unless a field sets them
+}
+
+const SPECS_DIR = process.env.SOURCE_SPECS_DIR || path.join(__dirname, '../config/sources');
+const DEFAULT_LIMIT = 20;
+const DEFAULT_MAX_PAGES = 5;
+// Event detail pages rarely change within a day, so repeat runs reuse the cached copy
+const DETAIL_PAGE_MAX_AGE = 24 * 60 * 60 * 1000;
+const DETAIL_REFRESH = 7 * 24 * 60 * 60 * 1000;
+const FILTER_FIELDS: (keyof ScrapeFilters)[] = ['location', 'date', 'industry', 'fundingStage'];
+const FIELD_TYPES = ['text', 'number', 'emails'];
+
+const resolveLink = (link: string | undefined, base: string): string =>
+  link ? (link.startsWith('http') ? link : `${base}${link}`) : '';
+
+const extractEmails = (text: string): string[] => {
+  const emailPattern = /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Z|a-z]{2,}\b/g;
+  return text.match(emailPattern) || [];
+};
+
+// "https://www.eventbrite.com/d/{location}/hackathon/" + { location: 'berlin' }
+const fillTemplate = (template: string, params: Record<string, string> = {}) =>
+  template.replace(/\{(\w+)\}/g, (_, key) => params[key] ?? '');
+
+const hasValue = (value: any) => value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0);
+
+const convert = (raw: string | undefined, rule: FieldRule) => {
+  const text = (raw || '').trim();
+  if (rule.type === 'number') {
+    const number = parseInt(text.replace(/\D/g, ''));
+    return isNaN(number) ? undefined : number;
+  }
+  if (rule.type === 'emails') return extractEmails(text);
+  return rule.resolve !== undefined ? resolveLink(text, rule.resolve) : text;
+};
+
+const readRule = ($: cheerio.CheerioAPI, scope: cheerio.Cheerio<any>, rule: FieldRule) => {
+  const matches = rule.selector ? scope.find(rule.selector) : scope;
+  if (rule.all) {
+    return matches.toArray()
+      .map(el => convert(rule.attribute ? $(el).attr(rule.attribute) : $(el).text(), rule))
+      .filter(hasValue);
+  }
+  return convert(rule.attribute ? matches.attr(rule.attribute) : matches.text(), rule);
+};
+
+const toRules = (spec: FieldSpec): FieldRule[] => (typeof spec === 'string' ? [{ selector: spec }] : Array.isArray(spec) ? spec : [spec]);
+
+// Fields with a value or a default; the rest are left out
+const readFields = ($: cheerio.CheerioAPI, scope: cheerio.Cheerio<any>, fields: Record<string, FieldSpec>, params?: Record<string, string>) => {
+  const record: Record<string, any> = {};
+  for (const [field, spec] of Object.entries(fields)) {
+    const rules = toRules(spec);
+    let value = rules.map(rule => readRule($, scope, rule)).find(hasValue);
+    if (value === undefined) {
+      const fallback = rules.find(rule => rule.default !== undefined)?.default;
+      value = typeof fallback === 'string' ? fillTemplate(fallback, params) : fallback;
+    }
+    if (value !== undefined) record[field] = value;
+  }
+  return record;
+};
+
+// The page's schema.org records of the spec's kind
+const structuredRecords = (spec: SourceSpec, $: cheerio.CheerioAPI): Record<string, any>[] => {
+  if (spec.structuredData === false) return [];
+  const { events, organizations } = extractStructuredData($);
+  return spec.kind === 'hackathon' ? events : organizations;
+};
+
+// Structured values win; lists are combined so selector-found sponsors or emails aren't lost
+const mergeStructured = (record: Record<string, any>, structured: Record<string, any>) => {
+  for (const [field, value] of Object.entries(structured)) {
+    record[field] = Array.isArray(value) && Array.isArray(record[field]) ? Array.from(new Set([...record[field], ...value])) : value;
+  }
+  return record;
+};
+
+const recordKeys = (record: Record<string, any>): string[] =>
+  [record.link && String(record.link).toLowerCase().replace(/\/+$/, ''), record.name && foldText(String(record.name)).trim()].filter(Boolean);
+
+const loadPage = (spec: SourceSpec, url: string, context: SourceContext, options: { maxAge?: number; render?: RenderOptions } = {}) =>
+  spec.render ? renderPage(url, context, options.render) : fetchHtml(url, context, { maxAge: options.maxAge });
+
+// Scroll settings for a rendered listing page, when the spec paginates by scrolling
+const scrollOptions = (spec: SourceSpec): RenderOptions => {
+  const pagination = spec.pagination;
+  if (!pagination?.scroll && !pagination?.loadMore) return {};
+  return {
+    scroll: { item: spec.list.item, loadMore: pagination.loadMore, maxRounds: pagination.maxPages ?? DEFAULT_MAX_PAGES, maxItems: pagination.maxItems }
+  };
+};
+
+const matchesKeywords = (record: Record<string, any>, { field, include }: NonNullable<SourceSpec['keywords']>) => {
+  const text = String(record[field] || '').toLowerCase();
+  return include.some(word => text.includes(word.toLowerCase()));
+};
+
+const readDetail = async (spec: SourceSpec, record: Record<string, any>, context: SourceContext, params?: Record<string, string>) => {
+  const detail = spec.detail!;
+  const url = record[detail.link || 'link'];
+  if (!url) return {};
+  try {
+    // Listings whose card hasn't changed keep the detail fields read last time (see ./fingerprints.ts);
+    // replays always read the fixture so edits to it show up
+    const incremental = getFetchMode() !== 'replay';
+    const known = incremental ? await knownDetail(spec.name, url, record, detail.refresh ?? DETAIL_REFRESH) : undefined;
+    if (known) return known;
+
+    const body = await loadPage(spec, url, context, { maxAge: detail.maxAge ?? DETAIL_PAGE_MAX_AGE });
+    const page$ = cheerio.load(body);
+    // The listing's link is kept even when the page names a different canonical URL
+    const { link, ...structured } = structuredRecords(spec, page$)[0] || {};
+    const fields = mergeStructured(readFields(page$, page$.root(), detail.fields, params), structured);
+    if (incremental) await rememberDetail(spec.name, url, record, fields, body);
+    return fields;
+  } catch (error) {
+    if (context.signal?.aborted) throw error;
+    console.error(`Error scraping ${spec.name} detail page ${url}:`, error);
+    recordError(context, error);
+    return {};
+  }
+};
+
+// "2025-01-01" or "30d" (30 days before now)
+const cutoffDate = (olderThan: string): Date => {
+  const days = olderThan.match(/^(\d+)d$/);
+  return days ? new Date(Date.now() - Number(days[1]) * 24 * 60 * 60 * 1000) : new Date(olderThan);
+};
+
+// True when the page has dated listings and every one of them ended before the cutoff
+const allOlderThan = (listings: Record<string, any>[], cutoff: Date) => {
+  const ends = listings
+    .map(listing => parseEventDate(listing.date))
+    .filter(parsed => parsed?.startDate)
+    .map(parsed => new Date(parsed!.endDate || parsed!.startDate!));
+  return ends.length > 0 && ends.every(end => end < cutoff);
+};
+
+const nextPageUrl = (spec: SourceSpec, $: cheerio.CheerioAPI, url: string, pageNumber: number): string | undefined => {
+  const { next, param } = spec.pagination || {};
+  if (next) {
+    const href = $(next).first().attr('href');
+    return href ? new URL(href, url).toString() : undefined;
+  }
+  if (param) {
+    const nextUrl = new URL(url);
+    nextUrl.searchParams.set(param, String(pageNumber));
+    return nextUrl.toString();
+  }
+  return undefined;
+};
+
+/**
+ * A listing URL and, with pagination, the pages after it. Stops at maxPages,
+ * once maxItems listings are collected, on a page with no listings or one past
+ * the olderThan cutoff. A failing first page rejects; a later one ends the crawl.
+ */
+const crawl = async (spec: SourceSpec, url: string, context: SourceContext, params?: Record<string, string>): Promise<SourcePage[]> => {
+  const pagination = spec.pagination;
+  const maxPages = pagination?.next || pagination?.param ? pagination.maxPages ?? DEFAULT_MAX_PAGES : 1;
+  const cutoff = pagination?.olderThan ? cutoffDate(pagination.olderThan) : undefined;
+  const pages: SourcePage[] = [];
+  const visited = new Set<string>();
+  let remaining = pagination?.maxItems ?? Infinity;
+  let pageUrl: string | undefined = url;
+
+  while (pageUrl && !visited.has(pageUrl) && pages.length < maxPages && remaining > 0) {
+    context.signal?.throwIfAborted();
+    visited.add(pageUrl);
+    let body: string;
+    try {
+      body = await loadPage(spec, pageUrl, context, { render: scrollOptions(spec) });
+    } catch (error) {
+      if (pages.length === 0 || context.signal?.aborted) throw error;
+      console.error(`Error scraping ${spec.name} ${pageUrl}:`, error);
+      recordError(context, error);
+      break;
+    }
+
+    const $ = cheerio.load(body);
+    const listings = listingRecords(spec, $, params);
+    const limit = Math.min(spec.list.limit ?? DEFAULT_LIMIT, remaining);
+    pages.push({ url: pageUrl, body, context: params, limit });
+    remaining -= Math.min(listings.length, limit);
+
+    if (listings.length === 0 || (cutoff && allOlderThan(listings, cutoff))) break;
+    pageUrl = nextPageUrl(spec, $, pageUrl, pages.length + 1);
+  }
+  return pages;
+};
+
+const fetchSpec = async (spec: SourceSpec, context: SourceContext): Promise<SourcePage[]> => {
+  console.log(`Scraping ${spec.name}...`);
+  if (!spec.params) return crawl(spec, spec.url, context);
+
+  // One listing per parameter set; one failing listing doesn't stop the rest
+  const pages: SourcePage[] = [];
+  for (const params of spec.params) {
+    context.signal?.throwIfAborted();
+    const url = fillTemplate(spec.url, params);
+    try {
+      pages.push(...await crawl(spec, url, context, params));
+    } catch (error) {
+      if (context.signal?.aborted) throw error;
+      console.error(`Error scraping ${spec.name} ${url}:`, error);
+      recordError(context, error);
+    }
+  }
+  return pages;
+};
+
+// Each listing element merged with the structured record for the same link or name, then structured records no element matched
+const listingRecords = (spec: SourceSpec, $: cheerio.CheerioAPI, params?: Record<string, string>): Record<string, any>[] => {
+  const unmatched = new Set(structuredRecords(spec, $));
+  const listings = $(spec.list.item).toArray().map(element => {
+    const fields = readFields($, $(element), spec.list.fields, params);
+    const keys = recordKeys(fields);
+    const match = Array.from(unmatched).find(record => recordKeys(record).some(key => keys.includes(key)));
+    if (match) unmatched.delete(match);
+    return match ? mergeStructured(fields, match) : fields;
+  });
+  return [...listings, ...unmatched];
+};
+
+const parseSpec = async (spec: SourceSpec, page: SourcePage, context: SourceContext) => {
+  const $ = cheerio.load(page.body);
+  const elements = $(spec.list.item).length;
+  const listings = listingRecords(spec, $, page.context);
+  const structured = listings.length - elements;
+  const found = structured > 0 ? ` (${structured} more from structured data)` : '';
+  console.log(`Found ${elements} listings${found} on ${spec.name}${spec.params || spec.pagination ? ` (${page.url})` : ''}`);
+  recordMatched(context, listings.length);
+
+  const records: any[] = [];
+  for (const fields of listings.slice(0, page.limit ?? spec.list.limit ?? DEFAULT_LIMIT)) {
+    context.signal?.throwIfAborted();
+    try {
+      const record: Record<string, any> = { ...spec.defaults, ...fields, source: spec.name };
+      const missing = (spec.list.required || []).find(field => !hasValue(record[field]));
+      if (missing) {
+        emitScrapeEvent(context.events, { type: 'item:skipped', source: spec.name, name: record.name || '', reason: `no ${missing}` });
+        continue;
+      }
+      if (spec.keywords && !matchesKeywords(record, spec.keywords)) {
+        emitScrapeEvent(context.events, { type: 'item:skipped', source: spec.name, name: record.name || '', reason: 'keyword filter' });
+        continue;
+      }
+      if (spec.detail) Object.assign(record, await readDetail(spec, record, context, page.context));
+      records.push(record);
+    } catch (error) {
+      if (context.signal?.aborted) throw error;
+      console.error(`Error processing ${spec.name} listing:`, error);
+      recordError(context, error);
+    }
+  }
+  return records;
+};
+
+const validateFields = (fields: any, where: string): string[] => {
+  if (!fields || typeof fields !== 'object' || Array.isArray(fields)) return [`${where} must be an object`];
+  return Object.entries(fields).flatMap(([field, spec]) =>
+    toRules(spec as FieldSpec).flatMap(rule => {
+      if (!rule || typeof rule !== 'object') return [`${where}.${field} must be a selector, a rule or a list of rules`];
+      if (rule.type && !FIELD_TYPES.includes(rule.type)) return [`${where}.${field}.type must be one of ${FIELD_TYPES.join(', ')}`];
+      return [];
+    })
+  );
+};
+
+const isPositiveInteger = (value: any) => Number.isInteger(value) && value > 0;
+
+const validatePagination = (pagination: any, render: boolean): string[] => {
+  if (!pagination || typeof pagination !== 'object') return ['pagination must be an object'];
+  const errors: string[] = [];
+  for (const key of ['next', 'param', 'loadMore']) {
+    if (pagination[key] !== undefined && (typeof pagination[key] !== 'string' || !pagination[key])) errors.push(`pagination.${key} must be a non-empty string`);
+  }
+  if (pagination.scroll !== undefined && typeof pagination.scroll !== 'boolean') errors.push('pagination.scroll must be true or false');
+  if ((pagination.scroll || pagination.loadMore) && !render) errors.push('pagination.scroll and pagination.loadMore need render');
+  if (!pagination.next && !pagination.param && !pagination.scroll && !pagination.loadMore) errors.push('pagination needs next, param, scroll or loadMore');
+  for (const key of ['maxPages', 'maxItems']) {
+    if (pagination[key] !== undefined && !isPositiveInteger(pagination[key])) errors.push(`pagination.${key} must be a positive integer`);
+  }
+  if (pagination.olderThan !== undefined && (typeof pagination.olderThan !== 'string' || isNaN(cutoffDate(pagination.olderThan).getTime()))) {
+    errors.push('pagination.olderThan must be an ISO date or a number of days like "30d"');
+  }
+  return errors;
+};
+
+// Problems that would stop a spec from running; empty when it's usable
+const validateSpec = (spec: any): string[] => {
+  const errors: string[] = [];
+  if (!spec || typeof spec !== 'object') return ['spec must be an object'];
+  if (typeof spec.name !== 'string' || !spec.name) errors.push('name is required');
+  if (spec.kind !== 'hackathon' && spec.kind !== 'company') errors.push('kind must be hackathon or company');
+  if (typeof spec.url !== 'string' || !/^https?:\/\//.test(spec.url)) errors.push('url must be an http(s) URL');
+  if (spec.filters && (!Array.isArray(spec.filters) || spec.filters.some((f: any) => !FILTER_FIELDS.includes(f)))) {
+    errors.push(`filters must be a list of ${FILTER_FIELDS.join(', ')}`);
+  }
+  if (spec.params !== undefined && (!Array.isArray(spec.params) || spec.params.some((p: any) => !p || typeof p !== 'object'))) {
+    errors.push('params must be a list of objects');
+  }
+  const placeholders: string[] = typeof spec.url === 'string' ? Array.from(spec.url.matchAll(/\{(\w+)\}/g), (m: RegExpMatchArray) => m[1]) : [];
+  for (const key of placeholders) {
+    if (!Array.isArray(spec.params) || spec.params.some((p: any) => typeof p?.[key] !== 'string')) errors.push(`every params entry needs "${key}" for the url`);
+  }
+  if (typeof spec.list?.item !== 'string' || !spec.list.item) errors.push('list.item is required');
+  errors.push(...validateFields(spec.list?.fields, 'list.fields'));
+  if (spec.list?.fields && !spec.list.fields.name) errors.push('list.fields.name is required');
+  if (spec.detail) errors.push(...validateFields(spec.detail.fields, 'detail.fields'));
+  for (const key of ['maxAge', 'refresh']) {
+    if (spec.detail?.[key] !== undefined && !(typeof spec.detail[key] === 'number' && spec.detail[key] >= 0)) errors.push(`detail.${key} must be a number of milliseconds`);
+  }
+  if (spec.structuredData !== undefined && typeof spec.structuredData !== 'boolean') errors.push('structuredData must be true or false');
+  if (spec.pagination !== undefined) errors.push(...validatePagination(spec.pagination, !!spec.render));
+  if (spec.keywords && (typeof spec.keywords.field !== 'string' || !Array.isArray(spec.keywords.include))) {
+    errors.push('keywords needs a field and an include list');
+  }
+  return errors;
+};
+
+const specSource = (spec: SourceSpec): Source => ({
+  name: spec.name,
+  kind: spec.kind,
+  capabilities: {
+    filters: spec.filters || [],
+    network: true,
+    detailPages: !!spec.detail,
+    browser: !!spec.render
+  },
+  politeness: spec.politeness,
+  fetch: (_, context) => fetchSpec(spec, context),
+  parse: (page, _, context) => parseSpec(spec, page, context)
+});
+
+// Reads every *.json spec in the directory, skipping (and logging) invalid ones
+const loadSourceSpecs = (dir: string = SPECS_DIR): SourceSpec[] => {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .flatMap(file => {
+      try {
+        const spec = JSON.parse(fs.readFileSync(path.join(dir, file), 'utf8'));
+        const errors = validateSpec(spec);
+        if (errors.length === 0) return [spec as SourceSpec];
+        console.error(`Invalid source spec ${file}: ${errors.join('; ')}`);
+      } catch (error) {
+        console.error(`Error loading source spec ${file}:`, (error as Error).message);
+      }
+      return [];
+    });
+};
+
+const registerSpecSources = (dir?: string) => {
+  for (const spec of loadSourceSpecs(dir)) registerSource(specSource(spec));
+};
+
+export { resolveLink, validateSpec, loadSourceSpecs, registerSpecSources };
@@ -0,0 +1,108 @@
+import { dbAll, dbRun } from './database';
+import { findOrCreateCompanies } from './companies';
+
+/**
+ * Sponsor graph
+ *
+ * Devpost and Hack Club listings carry sponsor names as scraped text. After
+ * each save every name is matched to a company (see findOrCreateCompanies)
+ * and the pairs kept in `hackathon_sponsors`. Listings of the same event count
+ * once: queries go through the canonical hackathon (`duplicate_of`).
+ */
+
+export interface SponsorQuery {
+  minHackathons?: number;
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+const MAX_SPONSOR_NAME = 80;
+const SPONSOR_PREFIX = /^(sponsored|presented|powered|supported|hosted)\s+by\s*:?\s*/i;
+
+// "Sponsored by\n  Stripe " -> "Stripe"; blank or paragraph-length text isn't a name
+const cleanSponsorName = (raw: string): string | undefined => {
+  const name = raw.replace(/\s+/g, ' ').trim().replace(SPONSOR_PREFIX, '');
+  return name && name.length <= MAX_SPONSOR_NAME && /[a-z0-9]/i.test(name) ? name : undefined;
+};
+
+// Brings hackathon_sponsors in line with the sponsor names of every saved listing
+const linkSponsors = async () => {
+  const rows = await dbAll(`SELECT id, sponsors FROM hackathons WHERE sponsors IS NOT NULL AND sponsors != '[]'`);
+  const listings = rows.map(row => ({
+    id: row.id as number,
+    names: (JSON.parse(row.sponsors) as string[]).map(cleanSponsorName).filter((name): name is string => !!name)
+  }));
+
+  const companyIds = await findOrCreateCompanies(listings.flatMap(listing => listing.names));
+  const wanted = new Map<string, [number, number, string]>();
+  for (const listing of listings) {
+    for (const name of listing.names) {
+      const companyId = companyIds.get(name)!;
+      const key = `${listing.id}:${companyId}`;
+      if (!wanted.has(key)) wanted.set(key, [listing.id, companyId, name]);
+    }
+  }
+
+  const existing = await dbAll('SELECT hackathon_id, company_id FROM hackathon_sponsors');
+  const existingKeys = new Set(existing.map(row => `${row.hackathon_id}:${row.company_id}`));
+
+  for (const row of existing) {
+    if (!wanted.has(`${row.hackathon_id}:${row.company_id}`)) {
+      await dbRun('DELETE FROM hackathon_sponsors WHERE hackathon_id = ? AND company_id = ?', [row.hackathon_id, row.company_id]);
+    }
+  }
+  let added = 0;
+  for (const [key, params] of wanted) {
+    if (existingKeys.has(key)) continue;
+    await dbRun('INSERT INTO hackathon_sponsors (hackathon_id, company_id, sponsor_name) VALUES (?, ?, ?)', params);
+    added++;
+  }
+
+  if (added > 0) console.log(`Linked ${added} hackathon sponsors to companies`);
+};
+
+// Companies curated out of listings (./curation.ts)
+const LISTED = 'c.deleted_at IS NULL AND COALESCE(c.hidden, 0) = 0';
+
+// Sponsors of an event, across all of its listings; sponsor_names is a JSON array of the names the listings used
+const listHackathonSponsors = (hackathonId: number) =>
+  dbAll(
+    `SELECT c.*, json_group_array(DISTINCT hs.sponsor_name) AS sponsor_names
+     FROM hackathon_sponsors hs JOIN companies c ON c.id = hs.company_id
+     WHERE hs.hackathon_id IN (SELECT id FROM hackathons WHERE id = ? OR duplicate_of = ?) AND ${LISTED}
+     GROUP BY c.id ORDER BY c.name`,
+    [hackathonId, hackathonId]
+  );
+
+// Events a company sponsored, latest first
+const listCompanyHackathons = (companyId: number) =>
+  dbAll(
+    `SELECT * FROM hackathons WHERE id IN (
+       SELECT COALESCE(h.duplicate_of, h.id) FROM hackathon_sponsors hs JOIN hackathons h ON h.id = hs.hackathon_id WHERE hs.company_id = ?
+     ) AND deleted_at IS NULL AND COALESCE(hidden, 0) = 0 ORDER BY datetime(start_date) DESC, id DESC`,
+    [companyId]
+  );
+
+// Companies by number of events sponsored, optionally only events starting within [from, to]
+const listTopSponsors = ({ minHackathons = 1, from, to, limit = 50 }: SponsorQuery = {}) => {
+  let query = `SELECT c.*, COUNT(DISTINCT COALESCE(h.duplicate_of, h.id)) AS hackathon_count
+    FROM hackathon_sponsors hs JOIN hackathons h ON h.id = hs.hackathon_id JOIN companies c ON c.id = hs.company_id
+    WHERE ${LISTED} AND h.deleted_at IS NULL`;
+  const params: any[] = [];
+
+  if (from) {
+    query += ' AND datetime(h.start_date) >= datetime(?)';
+    params.push(from);
+  }
+  if (to) {
+    query += ' AND datetime(h.start_date) <= datetime(?)';
+    params.push(to);
+  }
+
+  query += ' GROUP BY c.id HAVING hackathon_count >= ? ORDER BY hackathon_count DESC, c.name LIMIT ?';
+  params.push(minHackathons, limit);
+  return dbAll(query, params);
+};
+
+export { linkSponsors, listHackathonSponsors, listCompanyHackathons, listTopSponsors };
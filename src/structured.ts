@@ -0,0 +1,146 @@
+import * as cheerio from 'cheerio';
+import { Company, Hackathon } from './scraper';
+
+/**
+ * Structured data
+ *
+ * Many event and company pages describe themselves with schema.org data,
+ * either as `application/ld+json` scripts or as microdata (itemscope /
+ * itemprop attributes). It is exact where class selectors guess, so the spec
+ * engine (./specs.ts) reads it first and only uses selectors for fields it
+ * leaves empty. extractStructuredData returns every Event and Organization on
+ * a page, mapped to Hackathon / Company fields. Event dates come back as an
+ * ISO range in `date`, which parseEventDate reads exactly.
+ */
+
+export interface StructuredData {
+  events: Partial<Hackathon>[];
+  organizations: Partial<Company>[];
+}
+
+const ORGANIZATION_TYPES = ['Organization', 'Corporation', 'NGO', 'LocalBusiness', 'OnlineBusiness', 'EducationalOrganization'];
+
+const typesOf = (node: any): string[] => (Array.isArray(node?.['@type']) ? node['@type'] : [node?.['@type']]).filter(Boolean);
+
+const isEvent = (node: any) => typesOf(node).some(type => /Event$/.test(type));
+
+const isOrganization = (node: any) => typesOf(node).some(type => ORGANIZATION_TYPES.includes(type));
+
+const asList = (value: any): any[] => (Array.isArray(value) ? value : value === undefined || value === null ? [] : [value]);
+
+const text = (value: any): string | undefined => {
+  if (typeof value === 'number') return String(value);
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.replace(/\s+/g, ' ').trim();
+  return trimmed || undefined;
+};
+
+const names = (value: any): string[] =>
+  asList(value).map(entry => text(typeof entry === 'string' ? entry : entry?.name)).filter((name): name is string => !!name);
+
+// Top-level nodes, @graph members and ItemList entries
+const flattenNodes = (value: any): any[] =>
+  asList(value).flatMap(node => {
+    if (!node || typeof node !== 'object') return [];
+    if (node['@graph']) return flattenNodes(node['@graph']);
+    if (typesOf(node).includes('ItemList')) return flattenNodes(asList(node.itemListElement).map(entry => entry?.item ?? entry));
+    return [node];
+  });
+
+const jsonLdNodes = ($: cheerio.CheerioAPI): any[] =>
+  $('script[type="application/ld+json"]').toArray().flatMap(el => {
+    try {
+      return flattenNodes(JSON.parse($(el).html() || ''));
+    } catch {
+      return []; // Malformed blocks are common; the page's other data still counts
+    }
+  });
+
+const microdataValue = ($: cheerio.CheerioAPI, el: any): any => {
+  const $el = $(el);
+  if ($el.is('[itemscope]')) return microdataItem($, el);
+  return $el.attr('content') ?? $el.attr('datetime') ?? ($el.is('a, link') ? $el.attr('href') : undefined) ?? ($el.is('img') ? $el.attr('src') : undefined) ?? $el.text();
+};
+
+// An itemscope element as a JSON-LD style object; only properties owned by this item, not nested ones
+const microdataItem = ($: cheerio.CheerioAPI, el: any): any => {
+  const node: Record<string, any> = { '@type': ($(el).attr('itemtype') || '').split('/').pop() };
+  $(el).find('[itemprop]').each((_, prop) => {
+    if ($(prop).parent().closest('[itemscope]').get(0) !== el) return;
+    for (const name of ($(prop).attr('itemprop') || '').split(/\s+/).filter(Boolean)) {
+      const value = microdataValue($, prop);
+      node[name] = node[name] === undefined ? value : [...asList(node[name]), value];
+    }
+  });
+  return node;
+};
+
+const microdataNodes = ($: cheerio.CheerioAPI): any[] =>
+  $('[itemscope][itemtype]').not('[itemprop]').toArray().map(el => microdataItem($, el));
+
+// "Moscone Center, San Francisco, CA, US" style text from a Place, PostalAddress or plain string
+const addressText = (address: any): string | undefined => {
+  if (typeof address === 'string') return text(address);
+  if (!address || typeof address !== 'object') return undefined;
+  const country = typeof address.addressCountry === 'object' ? address.addressCountry?.name : address.addressCountry;
+  const parts = [address.addressLocality, address.addressRegion, country].map(text).filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : undefined;
+};
+
+// Place text in the form resolveLocation reads: "Online" for virtual events, "Berlin + Online" for hybrid ones
+const eventLocation = (node: any): string | undefined => {
+  const places = asList(node.location);
+  const mode = String(node.eventAttendanceMode || '');
+  const virtual = /Online/.test(mode) || places.some(place => typesOf(place).includes('VirtualLocation'));
+  const physical = places
+    .filter(place => !typesOf(place).includes('VirtualLocation'))
+    .map(place => (typeof place === 'string' ? text(place) : addressText(place.address) || text(place.name)))
+    .find(Boolean);
+
+  if (!physical) return virtual ? 'Online' : undefined;
+  return virtual || /Mixed/.test(mode) ? `${physical} + Online` : physical;
+};
+
+const emailsOf = (value: any): string[] =>
+  asList(value).map(entry => text(entry?.email)?.replace(/^mailto:/i, '')).filter((email): email is string => !!email);
+
+// Drops empty values so merging never overwrites a field with nothing
+const compact = <T extends object>(record: T): Partial<T> =>
+  Object.fromEntries(Object.entries(record).filter(([, value]) => value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0))) as Partial<T>;
+
+const toEvent = (node: any): Partial<Hackathon> => {
+  const start = text(node.startDate);
+  const end = text(node.endDate);
+  const organizers = names(node.organizer);
+  return compact({
+    name: text(node.name),
+    link: text(node.url),
+    description: text(node.description),
+    date: start ? (end && end !== start ? `${start} - ${end}` : start) : undefined,
+    location: eventLocation(node),
+    organizer: organizers.length > 0 ? organizers.join(', ') : undefined,
+    sponsors: [...names(node.sponsor), ...names(node.funder)],
+    contacts: emailsOf(node.organizer)
+  });
+};
+
+const toOrganization = (node: any): Partial<Company> => {
+  const employees = typeof node.numberOfEmployees === 'object' ? node.numberOfEmployees?.value ?? node.numberOfEmployees?.minValue : node.numberOfEmployees;
+  return compact({
+    name: text(node.legalName) || text(node.name),
+    link: text(node.url),
+    description: text(node.description),
+    location: addressText(node.address) || addressText(node.location?.address),
+    employees: text(employees)
+  });
+};
+
+const extractStructuredData = ($: cheerio.CheerioAPI): StructuredData => {
+  const nodes = [...jsonLdNodes($), ...microdataNodes($)];
+  return {
+    events: nodes.filter(isEvent).map(toEvent).filter(event => event.name),
+    organizations: nodes.filter(isOrganization).map(toOrganization).filter(organization => organization.name)
+  };
+};
+
+export { extractStructuredData };
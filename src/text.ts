@@ -0,0 +1,23 @@
+/**
+ * Text matching helpers shared by location, company and hackathon matching
+ */
+
+// Lowercase without accents ("Zürich" -> "zurich")
+const foldText = (text: string): string => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// One typo per ten characters; short names must match exactly ("Notion" is not "Motion")
+const isNearMatch = (a: string, b: string) => editDistance(a, b) <= Math.floor(Math.min(a.length, b.length) / 10);
+
+export { foldText, editDistance, isNearMatch };
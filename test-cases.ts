@@ -0,0 +1,53 @@
+/**
+ * Runner for the behavior checks in test-*.ts. Importing it first points the
+ * database at a scratch in-memory one, so the checks never touch
+ * data/scrapathon.db.
+ */
+process.env.SCRAPATHON_DB = process.env.SCRAPATHON_DB || ':memory:';
+
+export interface TestCase {
+  name: string;
+  run: () => unknown;
+}
+
+// Runs the cases in order and exits non-zero if any failed
+const runCases = async (title: string, cases: TestCase[]) => {
+  let failures = 0;
+  for (const testCase of cases) {
+    try {
+      await testCase.run();
+      console.log(`✅ ${testCase.name}`);
+    } catch (error) {
+      failures++;
+      console.log(`❌ ${testCase.name}: ${(error as Error).message}`);
+    }
+  }
+
+  console.log(failures === 0 ? `\n🎉 All ${cases.length} ${title} cases passed` : `\n${failures} ${title} case(s) failed`);
+  process.exit(failures === 0 ? 0 : 1);
+};
+
+// Starts the API server (once) for checks that go through HTTP, and sends it a request
+let server: Promise<string> | undefined;
+const startServer = (): Promise<string> =>
+  (server ??= (async () => {
+    process.env.PORT = process.env.PORT || '3917';
+    require('./src/server');
+    const base = `http://localhost:${process.env.PORT}`;
+    for (let attempt = 0; attempt < 50; attempt++) {
+      if (await fetch(`${base}/api/openapi.json`).then(res => res.ok, () => false)) return base;
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+    throw new Error(`Server didn't start on ${base}`);
+  })());
+
+const request = async (method: string, path: string, body?: unknown): Promise<{ status: number; body: any }> => {
+  const res = await fetch(`${await startServer()}${path}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', 'X-Actor': 'test' },
+    body: body === undefined ? undefined : JSON.stringify(body)
+  });
+  return { status: res.status, body: await res.json().catch(() => undefined) };
+};
+
+export { runCases, request };
@@ -0,0 +1,111 @@
+/**
+ * Company entity resolution: which scraped records become one company.
+ *
+ *   npx ts-node test-companies.ts
+ */
+import { runCases, TestCase } from './test-cases';
+import * as assert from 'assert';
+import { listCompanySources, mergeCompanies, splitArticleRecords } from './src/companies';
+import { updateCompany } from './src/curation';
+import { dbRun } from './src/database';
+import { CompanyRepo } from './src/repositories';
+
+const ARTICLE = 'https://techcrunch.com/2025/04/02/fieldnote-and-orbit-demo-day/';
+
+const companyNamed = async (name: string) => (await CompanyRepo.find()).find(company => company.name === name);
+
+const CASES: TestCase[] = [
+  {
+    name: 'an article naming two companies keeps both',
+    run: async () => {
+      await mergeCompanies([
+        { name: 'Fieldnote', link: ARTICLE, source: 'TechCrunch' },
+        { name: 'Orbit', link: ARTICLE, source: 'TechCrunch' }
+      ]);
+      const fieldnote = await companyNamed('Fieldnote');
+      const orbit = await companyNamed('Orbit');
+      assert.ok(fieldnote && orbit, 'both companies exist');
+      assert.notStrictEqual(fieldnote!.id, orbit!.id);
+      assert.deepStrictEqual((await listCompanySources(fieldnote!.id)).map(record => record.name), ['Fieldnote']);
+      assert.deepStrictEqual((await listCompanySources(orbit!.id)).map(record => record.name), ['Orbit']);
+    }
+  },
+  {
+    name: 'the same article scraped again updates its records instead of adding more',
+    run: async () => {
+      const before = (await CompanyRepo.find()).length;
+      await mergeCompanies([
+        { name: 'Fieldnote', link: ARTICLE, source: 'TechCrunch', industry: 'Education' },
+        { name: 'Orbit', link: ARTICLE, source: 'TechCrunch' }
+      ]);
+      assert.strictEqual((await CompanyRepo.find()).length, before);
+      assert.strictEqual((await companyNamed('Fieldnote'))!.industry, 'Education');
+    }
+  },
+  {
+    name: 'a company listed by another source merges by name',
+    run: async () => {
+      await mergeCompanies([{ name: 'Fieldnote', link: 'https://www.ycombinator.com/companies/fieldnote', source: 'Y Combinator' }]);
+      const fieldnote = (await companyNamed('Fieldnote'))!;
+      assert.deepStrictEqual((await listCompanySources(fieldnote.id)).map(record => record.source), ['TechCrunch', 'Y Combinator']);
+    }
+  },
+  {
+    name: "a company's own website keeps it apart from a namesake on another domain",
+    run: async () => {
+      await mergeCompanies([
+        { name: 'Orbit', link: 'https://orbit.dev', source: 'BuiltWith' },
+        { name: 'Orbit', link: 'https://orbit.love', source: 'Indie Hackers' }
+      ]);
+      const orbits = (await CompanyRepo.find()).filter(company => company.name === 'Orbit');
+      assert.strictEqual(orbits.length, 2);
+    }
+  },
+  {
+    name: 'an article record filed under another company by its link alone moves to its own, keeping its history',
+    run: async () => {
+      const article = 'https://techcrunch.com/2025/03/11/y-combinator-demo-day/';
+      await mergeCompanies([
+        { name: 'Quill', link: 'https://www.ycombinator.com/companies/quill', source: 'Y Combinator' },
+        { name: 'Stripe', link: 'https://stripe.com', source: 'Crunchbase' },
+        { name: 'Stripe Inc', link: 'https://techcrunch.com/2025/03/12/stripe-raises/', source: 'TechCrunch' },
+        { name: 'Beacon', link: article, source: 'TechCrunch' }
+      ]);
+      // As records keyed by link alone left it: Beacon's record under Quill, which it shared an article with
+      const quill = (await companyNamed('Quill'))!;
+      await dbRun("UPDATE company_sources SET company_id = ?, first_seen_at = '2025-03-11T00:00:00.000Z' WHERE name = 'Beacon'", [quill.id]);
+      await dbRun("DELETE FROM companies WHERE name = 'Beacon'");
+
+      await splitArticleRecords();
+      const beacon = await companyNamed('Beacon');
+      assert.ok(beacon, 'Beacon is its own company again');
+      const [record] = await listCompanySources(beacon!.id);
+      assert.deepStrictEqual([record.name, record.firstSeenAt], ['Beacon', '2025-03-11T00:00:00.000Z']);
+      assert.deepStrictEqual((await listCompanySources(quill.id)).map(record => record.name), ['Quill']);
+      // Merged by name, not by link, so it stays
+      const stripe = (await companyNamed('Stripe'))!;
+      assert.deepStrictEqual((await listCompanySources(stripe.id)).map(record => record.name), ['Stripe', 'Stripe Inc']);
+    }
+  },
+  {
+    name: 'a company rebuilt to the name and link another company has keeps its own',
+    run: async () => {
+      await mergeCompanies([
+        { name: 'Nimbus', link: 'https://www.crunchbase.com/organization/nimbus', source: 'Crunchbase' },
+        { name: 'Stratus', link: 'https://www.crunchbase.com/organization/stratus', source: 'Crunchbase' }
+      ]);
+      const stratus = (await companyNamed('Stratus'))!;
+      await updateCompany(stratus.id, { name: 'Nimbus', link: 'https://nimbus.dev' }, 'alice');
+
+      // Nimbus would now be rebuilt as Nimbus from Crunchbase at nimbus.dev, which is what Stratus was renamed to
+      await mergeCompanies([{ name: 'Nimbus', link: 'https://nimbus.dev', source: 'BuiltWith' }]);
+      const named = (await CompanyRepo.find()).filter(company => company.name === 'Nimbus');
+      const [renamed, nimbus] = [named.find(company => company.id === stratus.id)!, named.find(company => company.id !== stratus.id)!];
+      assert.strictEqual(renamed.link, 'https://nimbus.dev');
+      assert.strictEqual(nimbus.link, 'https://www.crunchbase.com/organization/nimbus');
+      assert.deepStrictEqual(nimbus.sources, ['Crunchbase', 'BuiltWith']);
+    }
+  }
+];
+
+runCases('company', CASES);
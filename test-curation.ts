@@ -0,0 +1,105 @@
+/**
+ * Manual curation: locked fields, renames and soft deletes.
+ *
+ *   npx ts-node test-curation.ts
+ */
+import { request, runCases, TestCase } from './test-cases';
+import * as assert from 'assert';
+import { isDuplicateRecord, setDeleted, updateHackathon } from './src/curation';
+import { CompanyRepo, HackathonRepo } from './src/repositories';
+import { Hackathon } from './src/scraper';
+
+const listing = (name: string, changes: Partial<Hackathon> = {}): Hackathon => ({
+  name,
+  link: `https://devpost.com/${name.toLowerCase().replace(/\W+/g, '-')}`,
+  sponsors: [],
+  contacts: [],
+  source: 'Devpost',
+  location: 'Berlin',
+  ...changes
+});
+
+const scrape = async (h: Hackathon) => (await HackathonRepo.upsert(h)).id;
+
+const CASES: TestCase[] = [
+  {
+    name: 'a field edited by hand is locked against scrapes',
+    run: async () => {
+      const id = await scrape(listing('Locked Hack'));
+      await updateHackathon(id, { location: 'Munich' }, 'alice');
+      await scrape(listing('Locked Hack', { location: 'Berlin', description: 'Now with a description' }));
+
+      const after = (await HackathonRepo.get(id))!;
+      assert.strictEqual(after.location, 'Munich');
+      assert.strictEqual(after.description, 'Now with a description');
+      assert.ok(after.lockedFields.includes('location'));
+    }
+  },
+  {
+    name: 'unlocking a field lets the next scrape overwrite it',
+    run: async () => {
+      const id = await scrape(listing('Unlocked Hack'));
+      await updateHackathon(id, { location: 'Munich' }, 'alice');
+      await updateHackathon(id, { lockedFields: [] }, 'alice');
+      await scrape(listing('Unlocked Hack', { location: 'Hamburg' }));
+      assert.strictEqual((await HackathonRepo.get(id))!.location, 'Hamburg');
+    }
+  },
+  {
+    name: 'a listing renamed by hand is still updated by its scrapes',
+    run: async () => {
+      const id = await scrape(listing('Old Name'));
+      await updateHackathon(id, { name: 'New Name' }, 'alice');
+      assert.strictEqual(await scrape(listing('Old Name', { description: 'Rescraped' })), id);
+
+      const after = (await HackathonRepo.get(id))!;
+      assert.deepStrictEqual([after.name, after.description], ['New Name', 'Rescraped']);
+    }
+  },
+  {
+    name: "a rename onto another listing's name, source and link fails and leaves both",
+    run: async () => {
+      const link = 'https://devpost.com/shared';
+      const kept = await scrape(listing('First', { link }));
+      const renamed = await scrape(listing('Second', { link }));
+
+      await assert.rejects(updateHackathon(renamed, { name: 'First' }, 'alice'), isDuplicateRecord);
+      assert.strictEqual((await HackathonRepo.get(kept))!.name, 'First');
+      assert.strictEqual((await HackathonRepo.get(renamed))!.name, 'Second');
+    }
+  },
+  {
+    name: 'a deleted listing stays out of lists, even after a scrape, until restored',
+    run: async () => {
+      const id = await scrape(listing('Deleted Hack'));
+      const listed = async () => (await HackathonRepo.find()).some(h => h.id === id);
+
+      assert.strictEqual(await setDeleted('hackathon', id, true, 'alice'), true);
+      await scrape(listing('Deleted Hack'));
+      assert.strictEqual(await listed(), false);
+      assert.strictEqual(await updateHackathon(id, { location: 'Munich' }, 'alice'), undefined);
+
+      await setDeleted('hackathon', id, false, 'alice');
+      assert.strictEqual(await listed(), true);
+    }
+  },
+  {
+    name: "a deleted record's detail and sub-resources are not found",
+    run: async () => {
+      const hackathon = await scrape(listing('Gone Hack'));
+      const company = await CompanyRepo.insert({ name: 'Gone Co', source: 'manual' });
+      const paths = [
+        `/api/hackathons/${hackathon}`, `/api/hackathons/${hackathon}/sponsors`, `/api/hackathons/${hackathon}/history`,
+        `/api/companies/${company}`, `/api/companies/${company}/score`, `/api/companies/${company}/sources`,
+        `/api/companies/${company}/hackathons`, `/api/companies/${company}/history`, `/api/companies/${company}/outreach`
+      ];
+      for (const path of paths) assert.strictEqual((await request('GET', path)).status, 200, path);
+
+      await setDeleted('hackathon', hackathon, true, 'alice');
+      await setDeleted('company', company, true, 'alice');
+      for (const path of paths) assert.strictEqual((await request('GET', path)).status, 404, path);
+    }
+  }
+];
+
+runCases('curation', CASES);
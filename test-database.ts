@@ -0,0 +1,42 @@
+/**
+ * The shared connection: transactions and the queries around them.
+ *
+ *   npx ts-node test-database.ts
+ */
+import { runCases, TestCase } from './test-cases';
+import * as assert from 'assert';
+import { dbAll, dbGet, dbRun, transaction } from './src/database';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const CASES: TestCase[] = [
+  {
+    name: "reads outside a transaction don't see its uncommitted rows",
+    run: async () => {
+      let inserted!: () => void;
+      const started = new Promise<void>(resolve => (inserted = resolve));
+      const rolledBack = transaction(async () => {
+        await dbRun(`INSERT INTO hackathons (name, source, link) VALUES ('Uncommitted Hack', 'manual', '')`);
+        inserted();
+        await sleep(50);
+        throw new Error('rolled back');
+      });
+
+      await started;
+      const sql = `SELECT id FROM hackathons WHERE name = 'Uncommitted Hack'`;
+      const [row, rows] = await Promise.all([dbGet(sql), dbAll(sql)]);
+      await assert.rejects(rolledBack, /rolled back/);
+      assert.deepStrictEqual([row, rows], [undefined, []]);
+    }
+  },
+  {
+    name: 'reads inside a transaction see its own rows',
+    run: async () =>
+      transaction(async () => {
+        await dbRun(`INSERT INTO hackathons (name, source, link) VALUES ('Committed Hack', 'manual', '')`);
+        assert.ok(await dbGet(`SELECT id FROM hackathons WHERE name = 'Committed Hack'`));
+      })
+  }
+];
+
+runCases('database', CASES);
@@ -0,0 +1,42 @@
+/**
+ * Event date parsing: listing date strings to start/end ISO dates.
+ *
+ *   npx ts-node test-dates.ts
+ */
+import { runCases, TestCase } from './test-cases';
+import * as assert from 'assert';
+import { ParsedDate, parseEventDate } from './src/dates';
+
+interface DateCase {
+  raw: string | undefined;
+  reference?: string; // "Today", for dates without a year
+  expected: ParsedDate | undefined;
+}
+
+const CASES: DateCase[] = [
+  { raw: 'Mar 14 - 16, 2025', expected: { startDate: '2025-03-14T00:00:00Z', endDate: '2025-03-16T23:59:59Z' } },
+  { raw: '18 - 20 October 2025', expected: { startDate: '2025-10-18T00:00:00Z', endDate: '2025-10-20T23:59:59Z' } },
+  { raw: 'Apr 28 - May 2, 2025', expected: { startDate: '2025-04-28T00:00:00Z', endDate: '2025-05-02T23:59:59Z' } },
+  { raw: 'Dec 30 - Jan 2, 2025', expected: { startDate: '2024-12-30T00:00:00Z', endDate: '2025-01-02T23:59:59Z' } },
+  { raw: 'Dec 30, 2024 - Jan 2', expected: { startDate: '2024-12-30T00:00:00Z', endDate: '2025-01-02T23:59:59Z' } },
+  { raw: 'Dec 30 - Jan 2', reference: '2025-12-01', expected: { startDate: '2025-12-30T00:00:00Z', endDate: '2026-01-02T23:59:59Z' } },
+  { raw: 'Sep 13th - 14th', reference: '2025-08-01', expected: { startDate: '2025-09-13T00:00:00Z', endDate: '2025-09-14T23:59:59Z' } },
+  { raw: 'October 2025', expected: { startDate: '2025-10-01T00:00:00Z', endDate: '2025-10-31T23:59:59Z' } },
+  { raw: 'Saturday, May 3, 2025', expected: { startDate: '2025-05-03T00:00:00Z', endDate: '2025-05-03T23:59:59Z' } },
+  {
+    raw: '2025-03-22T09:00:00-07:00 - 2025-03-23T17:00:00-07:00',
+    expected: { startDate: '2025-03-22T09:00:00-07:00', endDate: '2025-03-23T17:00:00-07:00', timezone: '-07:00' }
+  },
+  { raw: 'TBD', expected: undefined },
+  { raw: undefined, expected: undefined }
+];
+
+const withoutUndefined = (parsed: ParsedDate | undefined) => parsed && JSON.parse(JSON.stringify(parsed));
+
+runCases(
+  'date',
+  CASES.map(({ raw, reference, expected }): TestCase => ({
+    name: `${JSON.stringify(raw)}${reference ? ` (on ${reference})` : ''}`,
+    run: () => assert.deepStrictEqual(withoutUndefined(parseEventDate(raw, reference ? new Date(reference) : undefined)), expected)
+  }))
+);
@@ -0,0 +1,132 @@
+/**
+ * Offline scraper check: runs every network source against the saved pages in
+ * fixtures/http and compares what it parses with the expectations below.
+ *
+ *   npx ts-node test-fixtures.ts
+ *
+ * Sources that fetch one page per city only have a fixture for one city; the
+ * others log "No fixture recorded" and are skipped. To refresh a fixture from
+ * the live site, scrape with SCRAPE_FETCH_MODE=record.
+ */
+import './test-cases'; // A scratch in-memory database, so this never touches data/
+import * as assert from 'assert';
+import { setFetchMode } from './src/fetcher';
+import './src/scraper'; // Registers the sources
+import { Company, Hackathon } from './src/scraper';
+import { listSources, runSource, ScrapeFilters } from './src/sources';
+
+interface FixtureCase {
+  source: string;
+  filters?: ScrapeFilters;
+  count: number;
+  first?: Partial<Hackathon & Company>;
+}
+
+const CASES: FixtureCase[] = [
+  {
+    source: 'Devpost',
+    count: 2,
+    first: {
+      name: 'Aurora Hack 2025',
+      link: 'https://aurora-hack.devpost.com/',
+      location: 'San Francisco, CA',
+      date: 'Mar 14 - 16, 2025',
+      sponsors: ['Stripe', 'Sponsored by Vercel'],
+      contacts: ['organizers@aurorahack.dev'],
+      prizes: ['$10,000 grand prize', 'Best use of Stripe'],
+      participants: 1204
+    }
+  },
+  { source: 'Devpost', filters: { location: 'online' }, count: 1, first: { name: 'GreenHacks', location: 'Online', organizer: 'Green Software Guild' } },
+  {
+    source: 'Hack Club',
+    count: 2,
+    first: {
+      name: 'Hack the Fog',
+      link: 'https://hackathons.hackclub.com/hackathons/hack-the-fog',
+      location: 'San Francisco',
+      date: 'May 3, 2025',
+      sponsors: ['GitHub'],
+      contacts: ['team@hackthefog.org']
+    }
+  },
+  {
+    source: 'HackerEarth',
+    count: 2,
+    first: { name: 'AI for Good Hackathon', link: 'https://www.hackerearth.com/challenges/hackathon/ai-for-good/', location: 'Bangalore, India' }
+  },
+  { source: 'MLH', count: 3, first: { name: 'HackMIT', link: 'https://hackmit.org', location: 'Cambridge, MA', date: 'Sep 13th - 14th' } },
+  { source: 'MLH', filters: { location: 'stanford' }, count: 1, first: { name: 'TreeHacks' } },
+  {
+    source: 'Eventbrite',
+    count: 4,
+    first: {
+      name: 'Bay Area AI Hackathon',
+      location: 'San Francisco, CA, US',
+      date: '2025-03-22T09:00:00-07:00 - 2025-03-23T17:00:00-07:00',
+      organizer: 'Bay Area AI Collective'
+    }
+  },
+  {
+    source: 'Eventbrite',
+    filters: { date: '2025-04-12' },
+    count: 1,
+    first: { name: 'Golden Gate Hardware Hack', location: 'San Francisco, CA, US', contacts: ['events@noisebridge.net'] }
+  },
+  { source: 'Eventbrite', filters: { location: 'mission creek' }, count: 1, first: { name: 'Mission Hack Weekend' } },
+  {
+    source: 'Meetup',
+    count: 2,
+    first: { name: 'Berlin Hack Night', link: 'https://www.meetup.com/berlin-hack-night/events/301/', location: 'Factory Berlin' }
+  },
+  {
+    source: 'Y Combinator',
+    count: 2,
+    first: {
+      name: 'Lumen Labs',
+      link: 'https://www.ycombinator.com/companies/lumen-labs',
+      industry: 'Developer Tools',
+      fundingStage: 'Series A',
+      ycBacked: true
+    }
+  },
+  { source: 'Y Combinator', filters: { industry: 'education' }, count: 1, first: { name: 'Fieldnote', fundingStage: 'Seed' } },
+  { source: 'TechCrunch', count: 3, first: { name: 'Lumen Labs', link: 'https://techcrunch.com/2025/03/10/lumen-labs-raises-series-a/' } },
+  { source: 'VentureBeat', count: 2, first: { name: 'Anthropic', link: 'https://venturebeat.com/ai/anthropic-ships-new-model/' } }
+];
+
+const pick = (item: any, fields: string[]) => Object.fromEntries(fields.map(field => [field, item[field]]));
+
+const runCase = async ({ source, filters = {}, count, first }: FixtureCase) => {
+  const items = await runSource<any>(source, filters);
+  assert.strictEqual(items.length, count, `expected ${count} items, got ${items.length}`);
+  if (first) assert.deepStrictEqual(pick(items[0], Object.keys(first)), first);
+};
+
+const main = async () => {
+  setFetchMode('replay');
+
+  let failures = 0;
+  for (const fixtureCase of CASES) {
+    const label = `${fixtureCase.source}${fixtureCase.filters ? ` ${JSON.stringify(fixtureCase.filters)}` : ''}`;
+    try {
+      await runCase(fixtureCase);
+      console.log(`✅ ${label}`);
+    } catch (error) {
+      failures++;
+      console.log(`❌ ${label}: ${(error as Error).message}`);
+    }
+  }
+
+  const covered = new Set(CASES.map(c => c.source));
+  const uncovered = listSources().filter(s => s.capabilities.network && !covered.has(s.name)).map(s => s.name);
+  if (uncovered.length > 0) {
+    failures++;
+    console.log(`❌ No fixture cases for: ${uncovered.join(', ')}`);
+  }
+
+  console.log(failures === 0 ? `\n🎉 All ${CASES.length} fixture cases passed` : `\n${failures} fixture check(s) failed`);
+  process.exit(failures === 0 ? 0 : 1);
+};
+
+main();
@@ -0,0 +1,115 @@
+/**
+ * Sponsor outreach: stage rules, the funnel and deleted companies.
+ *
+ *   npx ts-node test-outreach.ts
+ */
+import { runCases, TestCase } from './test-cases';
+import * as assert from 'assert';
+import { setDeleted } from './src/curation';
+import {
+  addCompany, Campaign, createCampaign, Funnel, getCampaign, getFunnel, getOutreach, listFollowUps, listOutreach, updateOutreach, validateCampaign,
+  validateOutreach
+} from './src/outreach';
+import { CompanyRepo, HackathonRepo } from './src/repositories';
+
+const setup = (async () => {
+  const hackathonId = await HackathonRepo.create({ name: 'Spring Hack', source: 'manual', link: '' }, 'alice');
+  const campaign = await createCampaign({ name: 'spring', hackathonId, owner: 'alice' });
+  const companies: Record<string, number> = {};
+  for (const name of ['Acme', 'Globex', 'Initech', 'Umbrella', 'Hooli']) companies[name] = await CompanyRepo.insert({ name, source: 'manual' });
+  return { campaign, companies };
+})();
+
+const stageOf = (funnel: Funnel, stage: string) => funnel.stages.find(entry => entry.stage === stage)!;
+
+let campaign: Campaign;
+let companies: Record<string, number>;
+
+const CASES: TestCase[] = [
+  {
+    name: "a company starts at identified, owned by the campaign's owner",
+    run: async () => {
+      ({ campaign, companies } = await setup);
+      const added = (await addCompany(campaign, { companyId: companies.Acme }, 'bob'))!;
+      assert.deepStrictEqual([added.stage, added.owner], ['identified', 'alice']);
+      assert.deepStrictEqual(added.history.map(change => [change.fromStage, change.toStage, change.actor]), [[undefined, 'identified', 'bob']]);
+    }
+  },
+  {
+    name: 'adding a company twice is refused',
+    run: async () => assert.strictEqual(await addCompany(campaign, { companyId: companies.Acme }, 'bob'), undefined)
+  },
+  {
+    name: 'every stage change is kept with who made it',
+    run: async () => {
+      await updateOutreach(campaign.id, companies.Acme, { stage: 'contacted' }, 'bob');
+      await updateOutreach(campaign.id, companies.Acme, { stage: 'contacted', note: 'Sent the deck' }, 'carol');
+      const acme = (await getOutreach(campaign.id, companies.Acme))!;
+      assert.deepStrictEqual(acme.history.map(change => change.toStage), ['identified', 'contacted']);
+      assert.deepStrictEqual(acme.notes.map(note => [note.author, note.body]), [['carol', 'Sent the deck']]);
+    }
+  },
+  {
+    name: 'a campaign edit has to change something',
+    run: async () => {
+      assert.deepStrictEqual(await validateCampaign({}, true), ['No fields to change']);
+      assert.deepStrictEqual(await validateCampaign({ owner: null }, true), []);
+    }
+  },
+  {
+    name: 'an unknown stage or a deleted company is rejected',
+    run: async () => {
+      assert.deepStrictEqual(await validateOutreach({ stage: 'won' as any }), ['stage must be one of identified, contacted, replied, committed, declined']);
+      await setDeleted('company', companies.Hooli, true, 'alice');
+      assert.deepStrictEqual(await validateOutreach({ companyId: companies.Hooli }, true), [`Company ${companies.Hooli} not found`]);
+      await setDeleted('company', companies.Hooli, false, 'alice');
+    }
+  },
+  {
+    name: 'the funnel counts skipped stages and later declines as reached',
+    run: async () => {
+      await addCompany(campaign, { companyId: companies.Globex }, 'bob');
+      await updateOutreach(campaign.id, companies.Globex, { stage: 'replied' }, 'bob'); // Skips contacted
+      await addCompany(campaign, { companyId: companies.Initech }, 'bob');
+      await updateOutreach(campaign.id, companies.Initech, { stage: 'replied' }, 'bob');
+      await updateOutreach(campaign.id, companies.Initech, { stage: 'declined' }, 'bob');
+      await addCompany(campaign, { companyId: companies.Umbrella, stage: 'declined' }, 'bob'); // Declined on arrival
+
+      const funnel = await getFunnel(campaign.id);
+      assert.strictEqual(funnel.total, 4);
+      assert.deepStrictEqual(funnel.stages.map(stage => [stage.stage, stage.current, stage.reached]), [
+        ['identified', 0, 4],
+        ['contacted', 1, 3],
+        ['replied', 1, 2],
+        ['committed', 0, 0]
+      ]);
+      assert.strictEqual(stageOf(funnel, 'replied').conversion, 0.667);
+      assert.strictEqual(stageOf(funnel, 'committed').conversion, 0);
+      assert.strictEqual(funnel.declined, 2);
+    }
+  },
+  {
+    name: 'follow-ups only count for open stages',
+    run: async () => {
+      await updateOutreach(campaign.id, companies.Globex, { followUpAt: '2026-01-01' }, 'bob');
+      await updateOutreach(campaign.id, companies.Initech, { followUpAt: '2026-01-01' }, 'bob'); // Declined
+      const due = await listFollowUps({ dueBy: '2026-02-01T00:00:00Z' });
+      assert.deepStrictEqual(due.map(entry => entry.companyName), ['Globex']);
+    }
+  },
+  {
+    name: 'a deleted company drops out of the campaign, its counts and funnel until restored',
+    run: async () => {
+      await setDeleted('company', companies.Globex, true, 'alice');
+      assert.ok(!(await listOutreach(campaign.id)).some(entry => entry.companyName === 'Globex'));
+      assert.strictEqual((await getCampaign(campaign.id))!.counts.replied, 0);
+      assert.strictEqual((await getFunnel(campaign.id)).total, 3);
+      assert.deepStrictEqual(await listFollowUps({ dueBy: '2026-02-01T00:00:00Z' }), []);
+
+      await setDeleted('company', companies.Globex, false, 'alice');
+      assert.strictEqual((await getFunnel(campaign.id)).total, 4);
+    }
+  }
+];
+
+runCases('outreach', CASES);
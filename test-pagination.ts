@@ -0,0 +1,93 @@
+/**
+ * Keyset pagination: pages of list queries and their cursors.
+ *
+ *   npx ts-node test-pagination.ts
+ */
+import { runCases, TestCase } from './test-cases';
+import * as assert from 'assert';
+import { decodeCursor, Page, pageOf, Sort } from './src/pagination';
+import { HackathonRepo, HackathonRow } from './src/repositories';
+
+const LISTINGS = [
+  { name: 'Alpha', participants: 120, startDate: '2025-03-22T12:00:00Z' },
+  { name: 'Bravo', participants: undefined, startDate: '2025-03-22T09:00:00-07:00' }, // 16:00 UTC, after Alpha
+  { name: 'Charlie', participants: 80, startDate: undefined },
+  { name: 'Delta', participants: 120, startDate: '2025-01-05T00:00:00Z' },
+  { name: 'Echo', participants: undefined, startDate: undefined },
+  { name: 'Foxtrot', participants: 40, startDate: '2025-06-01T00:00:00Z' }
+];
+
+const seeded = (async () => {
+  for (const listing of LISTINGS) await HackathonRepo.create({ ...listing, source: 'Devpost', link: `https://${listing.name.toLowerCase()}.devpost.com` }, 'test');
+})();
+
+// Every page of the list, two rows at a time, following each page's cursor
+const walk = async (sort: Sort): Promise<string[]> => {
+  await seeded;
+  const names: string[] = [];
+  let cursor: string | null = null;
+  do {
+    const after = cursor ? decodeCursor(cursor, sort) : undefined;
+    const page = await HackathonRepo.findPage({ sort, after, limit: 2 });
+    assert.strictEqual(page.total, LISTINGS.length);
+    names.push(...page.items.map(row => row.name));
+    cursor = page.nextCursor;
+  } while (cursor);
+  return names;
+};
+
+const CASES: TestCase[] = [
+  {
+    name: 'ascending pages put NULLs last and break ties by id',
+    run: async () =>
+      assert.deepStrictEqual(await walk({ column: 'participants', descending: false }), ['Foxtrot', 'Charlie', 'Alpha', 'Delta', 'Bravo', 'Echo'])
+  },
+  {
+    name: 'descending pages also put NULLs last',
+    run: async () =>
+      assert.deepStrictEqual(await walk({ column: 'participants', descending: true }), ['Delta', 'Alpha', 'Charlie', 'Foxtrot', 'Echo', 'Bravo'])
+  },
+  {
+    name: 'date columns sort as times, whatever their offset',
+    run: async () =>
+      assert.deepStrictEqual(await walk({ column: 'start_date', descending: false }), ['Delta', 'Alpha', 'Bravo', 'Foxtrot', 'Charlie', 'Echo'])
+  },
+  {
+    name: 'walking every page gives the same rows as one unpaged query',
+    run: async () => {
+      const sort: Sort = { column: 'start_date', descending: true };
+      const all = (await HackathonRepo.findRows({ sort })).map(row => row.name);
+      assert.deepStrictEqual(await walk(sort), all);
+    }
+  },
+  {
+    name: 'rows sorted in memory page in the same order as SQL',
+    run: async () => {
+      for (const sort of [{ column: 'participants', descending: false }, { column: 'start_date', descending: true }]) {
+        const rows = await HackathonRepo.findRows();
+        const names: string[] = [];
+        let cursor: string | null = null;
+        do {
+          const page: Page<HackathonRow> = pageOf(rows, sort, HackathonRepo.dateColumns, cursor ? decodeCursor(cursor, sort) : undefined, 4);
+          names.push(...page.items.map(row => row.name));
+          cursor = page.nextCursor;
+        } while (cursor);
+        assert.deepStrictEqual(names, await walk(sort));
+      }
+    }
+  },
+  {
+    name: "a cursor from a differently sorted list, or one that doesn't parse, is rejected",
+    run: async () => {
+      const ascending: Sort = { column: 'participants', descending: false };
+      const { nextCursor } = await HackathonRepo.findPage({ sort: ascending, limit: 2 });
+      assert.ok(decodeCursor(nextCursor!, ascending));
+      assert.strictEqual(decodeCursor(nextCursor!, { ...ascending, descending: true }), undefined);
+      assert.strictEqual(decodeCursor(nextCursor!, { column: 'start_date', descending: false }), undefined);
+      assert.strictEqual(decodeCursor('not a cursor', ascending), undefined);
+      assert.strictEqual(decodeCursor(Buffer.from('["participants",80,"7"]').toString('base64url'), ascending), undefined);
+    }
+  }
+];
+
+runCases('pagination', CASES);
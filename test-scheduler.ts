@@ -0,0 +1,69 @@
+/**
+ * Cron evaluation and schedule handling.
+ *
+ *   npx ts-node test-scheduler.ts
+ */
+import { runCases, TestCase } from './test-cases';
+import * as assert from 'assert';
+import { nextCronRun } from './src/cron';
+import { dbRun } from './src/database';
+import { createSchedule, getSchedule, runDueSchedules, validateSchedule } from './src/scheduler';
+
+// Local time, as cron is evaluated in it
+const at = (year: number, month: number, day: number, hour = 0, minute = 0) => new Date(year, month - 1, day, hour, minute);
+
+const CASES: TestCase[] = [
+  {
+    name: 'step minutes run on the next multiple',
+    run: () => assert.deepStrictEqual(nextCronRun('*/15 * * * *', at(2025, 3, 14, 10, 7)), at(2025, 3, 14, 10, 15))
+  },
+  {
+    name: 'the next run is strictly after the given time',
+    run: () => assert.deepStrictEqual(nextCronRun('0 6 * * *', at(2025, 3, 14, 6, 0)), at(2025, 3, 15, 6, 0))
+  },
+  {
+    name: 'day of week with names',
+    run: () => assert.deepStrictEqual(nextCronRun('30 9 * * mon', at(2025, 3, 15, 12)), at(2025, 3, 17, 9, 30)) // From a Saturday
+  },
+  {
+    name: 'day of month or day of week when both are set',
+    run: () => assert.deepStrictEqual(nextCronRun('0 0 1 * 5', at(2025, 3, 15)), at(2025, 3, 21)) // A Friday before April 1
+  },
+  {
+    name: 'February 29 waits for a leap year',
+    run: () => assert.deepStrictEqual(nextCronRun('0 0 29 2 *', at(2025, 3, 1)), at(2028, 2, 29))
+  },
+  {
+    name: 'an expression that never fires throws',
+    run: () => assert.throws(() => nextCronRun('0 0 30 2 *'), /never matches/)
+  },
+  {
+    name: 'validation rejects an expression that never fires',
+    run: () => assert.deepStrictEqual(validateSchedule({ name: 'never', cron: '0 0 30 2 *' }), ['Cron expression never matches: 0 0 30 2 *'])
+  },
+  {
+    name: 'validation rejects malformed expressions and unknown sources',
+    run: () => {
+      assert.strictEqual(validateSchedule({ name: 'short', cron: '0 6 * *' }).length, 1);
+      assert.deepStrictEqual(validateSchedule({ name: 'gone', cron: '0 6 * * *', sources: ['Gone'] }), ['Unknown source: Gone']);
+      assert.deepStrictEqual(validateSchedule({ cron: '0 6 * * *' }, true), []);
+    }
+  },
+  {
+    name: "a schedule whose job can't start records the error and moves to its next run",
+    run: async () => {
+      // Sources are checked when the schedule is saved, so this one names a source removed since
+      const schedule = await createSchedule({ name: 'removed source', cron: '0 * * * *', sources: ['Gone'] });
+      const now = at(2025, 3, 14, 10, 30);
+      await dbRun('UPDATE schedules SET next_run_at = ? WHERE id = ?', [at(2025, 3, 14, 10).toISOString(), schedule.id]);
+
+      await runDueSchedules(now);
+      const after = (await getSchedule(schedule.id))!;
+      assert.strictEqual(after.nextRunAt, at(2025, 3, 14, 11).toISOString());
+      assert.match(after.lastError || '', /Unknown source: Gone/);
+      assert.strictEqual(after.lastRunAt, now.toISOString());
+    }
+  }
+];
+
+runCases('scheduler', CASES);
@@ -0,0 +1,42 @@
+/**
+ * Full scrapes replayed from the recorded fixtures.
+ *
+ *   npx ts-node test-scrape.ts
+ */
+import { runCases, TestCase } from './test-cases';
+import * as assert from 'assert';
+import { setFetchMode } from './src/fetcher';
+import { CompanyRepo } from './src/repositories';
+import { scrapeAllSources } from './src/scraper';
+
+setFetchMode('replay');
+
+const CASES: TestCase[] = [
+  {
+    name: 'a first run finds every listing new',
+    run: async () => {
+      const { changes } = await scrapeAllSources({}, undefined, { runId: 'first' });
+      for (const [source, summary] of Object.entries(changes)) {
+        assert.strictEqual(summary.updated + summary.unchanged, 0, `${source}: ${JSON.stringify(summary)}`);
+      }
+    }
+  },
+  {
+    name: 'an identical second run finds nothing new or updated',
+    run: async () => {
+      const { changes } = await scrapeAllSources({}, undefined, { runId: 'second' });
+      for (const [source, summary] of Object.entries(changes)) {
+        assert.deepStrictEqual([summary.new, summary.updated], [0, 0], `${source}: ${JSON.stringify(summary)}`);
+      }
+    }
+  },
+  {
+    name: 'companies named by one article are kept apart',
+    run: async () => {
+      const names = (await CompanyRepo.find()).map(company => company.name);
+      assert.ok(names.includes('Fieldnote') && names.includes('Orbit'), names.join(', '));
+    }
+  }
+];
+
+runCases('scrape', CASES);
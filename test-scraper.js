@@ -1,11 +1,22 @@
 const axios = require('axios');
 
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
 async function testScraper() {
   try {
     console.log('🚀 Triggering comprehensive scrape from all sources...');
     const response = await axios.post('http://localhost:3000/api/scrape', {}, { timeout: 30000 });
-    console.log('✅ Scrape completed successfully!');
-    console.log('📊 Results:', JSON.stringify(response.data, null, 2));
+    console.log(`🆔 Scrape job ${response.data.id} started`);
+
+    let job = response.data;
+    while (job.status === 'queued' || job.status === 'running') {
+      await sleep(2000);
+      job = (await axios.get(`http://localhost:3000${response.data.url}`, { timeout: 30000 })).data;
+      console.log(`⏳ ${job.status}: ${job.progress.finished}/${job.progress.total} sources finished`);
+    }
+
+    console.log(job.status === 'completed' ? '✅ Scrape completed successfully!' : `⚠️ Scrape ${job.status}`);
+    console.log('📊 Results:', JSON.stringify(job, null, 2));
   } catch (error) {
     console.error('❌ Error details:');
     if (error.response) {
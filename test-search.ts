@@ -0,0 +1,29 @@
+/**
+ * Full-text search results.
+ *
+ *   npx ts-node test-search.ts
+ */
+import { runCases, TestCase } from './test-cases';
+import * as assert from 'assert';
+import { mergeCompanies } from './src/companies';
+import { searchRecords } from './src/search';
+
+const CASES: TestCase[] = [
+  {
+    name: 'highlights and snippets escape the scraped text around their marks',
+    run: async () => {
+      await mergeCompanies([{
+        name: 'Robots <b>& Co',
+        link: 'https://robots.example',
+        source: 'BuiltWith',
+        description: 'Robots for "kitchens" <img src=x onerror=alert(1)>'
+      }]);
+      const [result] = await searchRecords({ q: 'robots', types: ['company'] });
+      assert.strictEqual(result.highlight, '<mark>Robots</mark> &lt;b&gt;&amp; Co');
+      assert.ok(!result.snippet.includes('<img'), result.snippet);
+      assert.match(result.snippet, /<mark>Robots<\/mark>/);
+    }
+  }
+];
+
+runCases('search', CASES);